@@ -19,32 +19,81 @@ import {
   RotateCw,
   RotateCcw,
   LayoutGrid,
-  GripHorizontal,
-  Eraser,
   Stamp,
   Hash,
-  AlignLeft,
-  AlignCenter,
-  AlignRight,
   ArrowUpRight,
   Settings2,
   History,
   LayoutTemplate,
   HelpCircle,
   ShieldCheck,
-  Maximize2
+  Maximize2,
+  Workflow,
+  Search,
+  EyeOff,
+  Eye,
+  Minimize2,
+  ClipboardList,
+  Signature,
+  BadgeCheck,
+  BookMarked,
+  GitCompare,
+  Tags,
+  Lock
 } from 'lucide-react';
-import { PDFFile, AppTool } from './types';
+import { PDFFile, AppTool, WatermarkConfig, PageNumberConfig, PipelineStep, PipelineOp, EncryptionConfig, DocumentVersion, TextExtractionMode, TextExportFormat, StructuredPage, RedactionBox, RedactionReport, CompressionPreset, CompressionResult, FormFieldInfo, FormFieldValue, SignaturePlacement, DateStampFormat, CertificateInfo, DigitalSignatureDetails, SignatureVerification, MergeOptions, OutlineItem, SplitConfig, ToolPreview, DocumentMetadata, MetadataInspection } from './types';
 import { 
-  getPageCount, mergePDFs, splitPDF, rotatePDF, downloadBlob, 
-  splitToIndividualFiles, pdfToImagesZip, imagesToPDF, 
-  extractTextFromPdf, getPageThumbnails, reorderPDFPages, 
-  removePagesFromPDF, applyWatermarkToPDF, addPageNumbersToPDF,
-  ImageToPdfLayout 
+  getPageCount, mergePDFs, rotatePDF, downloadBlob, 
+  splitDocument, pdfToImagesZip, pdfToImages, imagesToPDF, 
+  extractTextFromPdf, extractStructuredText, composePDFPages,
+  applyWatermarkToPDF, addPageNumbersToPDF,
+  createZip, cancelAllJobs, isJobCancelled, bytesToFile, addTextLayerToPDF, redactPDF, compressPDF,
+  getFormFields, fillForm, renderPageImage, stampSignatures,
+  describeCertificate, signPDFDigitally, verifyPDFSignatures, getOutline, setOutline,
+  isPdfEncrypted, decryptPDF, encryptPDF, isIncorrectPasswordError, ImageToPdfLayout,
+  compareDocuments, buildComparisonReport, readMetadata, writeMetadata, sanitizePDF
 } from './services/pdfService';
+import { createPipelineStep, runPipeline, serializePipeline, parsePipeline } from './services/pipelineService';
+import { runBatch, BatchTask, BatchResult } from './services/batchService';
+import { DataRow, parseDataRows, fillFormRows } from './services/formService';
+import { recognizePdf, ocrPagesToText, cancelOcr } from './services/ocrService';
+import { parsePageRanges } from './utils/pageRanges';
+import { toPlainText, toMarkdown, toJson, tableToCsv, tablesOf } from './utils/textExport';
+import { IndexedPage, indexPages, buildSearchPattern, searchIndex as searchPages } from './utils/textSearch';
+import { hitsToBoxes, findLeakedText } from './utils/redaction';
+import { formatStampDate } from './utils/signatureImage';
+import { PageSlot, createSlots, isUnchanged, toPagePlan } from './utils/pagePlan';
 import FileUploader from './components/FileUploader';
-
-const MAX_FILE_SIZE = 50 * 1024 * 1024;
+import ToolHint from './components/ToolHint';
+import PipelineView from './components/PipelineView';
+import BatchPanel from './components/BatchPanel';
+import PasswordPrompt from './components/PasswordPrompt';
+import EncryptView from './components/EncryptView';
+import HistoryPanel from './components/HistoryPanel';
+import PageEditor from './components/PageEditor';
+import SearchPanel from './components/SearchPanel';
+import RedactView from './components/RedactView';
+import CompressView from './components/CompressView';
+import FormsView from './components/FormsView';
+import SignView from './components/SignView';
+import WatermarkView from './components/WatermarkView';
+import PageNumberView from './components/PageNumberView';
+import DigitalSignView from './components/DigitalSignView';
+import BookmarksView from './components/BookmarksView';
+import CompareView, { ComparisonSession } from './components/CompareView';
+import MetadataView from './components/MetadataView';
+import SplitView from './components/SplitView';
+import StoragePanel from './components/StoragePanel';
+import PdfViewer from './components/PdfViewer';
+import ToolPreviewPane from './components/ToolPreviewPane';
+import ResumeSessionPrompt from './components/ResumeSessionPrompt';
+import { useDocumentHistory } from './hooks/useDocumentHistory';
+import { useSignatureLibrary } from './hooks/useSignatureLibrary';
+import { useSessionPersistence } from './hooks/useSessionPersistence';
+import { SessionSnapshot, StoredSession } from './services/sessionStore';
+import { clearThumbnails } from './services/thumbnailCache';
+import { formatFileSize, maxFileSize } from './utils/memoryLimits';
+import { createId } from './utils/ids';
 
 interface ConversionProgress {
   fileId: string;
@@ -54,60 +103,256 @@ interface ConversionProgress {
 
 interface PageInteractionState {
   fileId: string;
-  pageIndices: number[];
-  thumbnails: string[];
-  selectedIndices?: Set<number>;
+  // The document version the editor was opened on; undoing or replacing it closes the editor
+  file: File;
+  slots: PageSlot[];
+  selected: Set<string>;
+}
+
+interface SignPreview {
+  file: File;
+  pages: Record<number, string>;
 }
 
-interface WatermarkConfig {
-  text: string;
-  fontSize: number;
-  opacity: number;
-  rotation: number;
-  color: string;
+/** Page previews for placing signatures are rendered at 108 DPI. */
+const SIGN_PREVIEW_SCALE = 1.5;
+
+interface SearchIndexEntry {
+  file: File;
+  pages: IndexedPage[];
 }
 
-interface PageNumberConfig {
-  position: 'top' | 'bottom';
-  alignment: 'left' | 'center' | 'right';
-  fontSize: number;
-  color: string;
+interface SigningCertificate {
+  file: File;
+  password: string;
+  info: CertificateInfo;
+}
+
+interface VerificationEntry {
+  file: File;
+  results: SignatureVerification[];
+}
+
+interface MetadataEntry {
+  file: File;
+  /** Null when the file could not be read, so it is not retried until it changes. */
+  inspection: MetadataInspection | null;
 }
 
 const TOOL_CATEGORIES = {
-  Assemble: ['merge', 'split', 'reorder', 'delete-pages'],
-  Modify: ['rotate', 'watermark', 'page-numbering'],
-  Convert: ['pdf-to-image', 'image-to-pdf', 'pdf-to-text']
+  Assemble: ['merge', 'split', 'organize', 'bookmarks'],
+  Modify: ['rotate', 'watermark', 'page-numbering', 'compress', 'forms'],
+  Convert: ['pdf-to-image', 'image-to-pdf', 'pdf-to-text'],
+  Security: ['encrypt', 'redact', 'sign', 'digital-sign', 'metadata'],
+  Review: ['compare'],
+  Automate: ['pipeline']
 } as const;
 
+const BATCH_TOOLS: AppTool[] = ['rotate', 'watermark', 'page-numbering', 'compress', 'pdf-to-image', 'pdf-to-text', 'encrypt'];
+
+const isWatermarkReady = (config: WatermarkConfig) => config.kind === 'image' ? !!config.image : !!config.text.trim();
+
+const isPageNumberingReady = (config: PageNumberConfig) =>
+  [config.header, config.footer].some(row => !!(row.left.trim() || row.center.trim() || row.right.trim())) && (config.font !== 'custom' || !!config.customFont);
+
+const createPDFFile = async (f: File, unlocked = false): Promise<PDFFile> => {
+  const type = f.type === 'application/pdf' ? 'pdf' : 'image';
+  let previewUrl: string | undefined;
+  if (type === 'image') {
+    previewUrl = URL.createObjectURL(f);
+  }
+  return {
+    id: createId(),
+    file: f,
+    name: f.name,
+    size: f.size,
+    pageCount: await getPageCount(f),
+    rotation: 0,
+    type,
+    previewUrl,
+    unlocked
+  };
+};
+
 const App: React.FC = () => {
   const [files, setFiles] = useState<PDFFile[]>([]);
   const [activeTool, setActiveTool] = useState<AppTool>('merge');
   const [isProcessing, setIsProcessing] = useState(false);
   const [splitRanges, setSplitRanges] = useState<string>('');
+  const [splitConfig, setSplitConfig] = useState<SplitConfig>({ strategy: 'ranges', ranges: '', every: 1, maxSizeMb: 10, separator: 'blank', barcodeText: '' });
   const [error, setError] = useState<string | null>(null);
   const [imageFormat, setImageFormat] = useState<'png' | 'jpeg'>('png');
   const [imagePdfLayout, setImagePdfLayout] = useState<ImageToPdfLayout>('original');
   const [conversionProgress, setConversionProgress] = useState<Record<string, ConversionProgress>>({});
   const [extractedTexts, setExtractedTexts] = useState<Record<string, string>>({});
+  const [structuredTexts, setStructuredTexts] = useState<Record<string, StructuredPage[]>>({});
+  const [textExtractionMode, setTextExtractionMode] = useState<TextExtractionMode>('text-layer');
   const [interactionState, setInteractionState] = useState<PageInteractionState | null>(null);
-  const [draggingPageIndex, setDraggingPageIndex] = useState<number | null>(null);
   
   const [watermarkConfig, setWatermarkConfig] = useState<WatermarkConfig>({
+    kind: 'text',
     text: 'CONFIDENTIAL',
     fontSize: 50,
+    image: null,
+    imageScale: 0.3,
     opacity: 0.3,
     rotation: -45,
-    color: '#000000'
+    color: '#000000',
+    layout: 'single',
+    anchor: 'center',
+    margin: 36,
+    spacing: 60,
+    pages: '',
+    layer: 'over',
+    user: ''
   });
   
   const [pageNumberConfig, setPageNumberConfig] = useState<PageNumberConfig>({
-    position: 'bottom',
-    alignment: 'center',
+    header: { left: '', center: '', right: '' },
+    footer: { left: '', center: '{page} / {total}', right: '' },
     fontSize: 12,
-    color: '#000000'
+    color: '#000000',
+    font: 'helvetica',
+    customFont: null,
+    margin: 30,
+    numberStyle: 'arabic',
+    skipFirst: 0,
+    mirrorEven: false,
+    bates: { prefix: '', digits: 6, suffix: '', start: 1 }
+  });
+
+  const [pipelineName, setPipelineName] = useState('Untitled pipeline');
+  const [pipelineSteps, setPipelineSteps] = useState<PipelineStep[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchResult[] | null>(null);
+  const [rotationAngle, setRotationAngle] = useState(90);
+  const [lockedQueue, setLockedQueue] = useState<File[]>([]);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [viewerFileId, setViewerFileId] = useState<string | null>(null);
+  const [searchIndexCache, setSearchIndexCache] = useState<Record<string, SearchIndexEntry>>({});
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [redactFileId, setRedactFileId] = useState<string | null>(null);
+  const [redactionBoxes, setRedactionBoxes] = useState<RedactionBox[]>([]);
+  const [redactionPatterns, setRedactionPatterns] = useState<RegExp[]>([]);
+  const [redactionReport, setRedactionReport] = useState<RedactionReport | null>(null);
+  const [compressionPreset, setCompressionPreset] = useState<CompressionPreset>('ebook');
+  const [compressionResults, setCompressionResults] = useState<Record<string, CompressionResult>>({});
+  const [formsFileId, setFormsFileId] = useState<string | null>(null);
+  const [formFields, setFormFields] = useState<FormFieldInfo[]>([]);
+  const [formValues, setFormValues] = useState<Record<string, FormFieldValue>>({});
+  const [flattenForm, setFlattenForm] = useState(false);
+  const [signFileId, setSignFileId] = useState<string | null>(null);
+  const [signPageIndex, setSignPageIndex] = useState(0);
+  const [signPreview, setSignPreview] = useState<SignPreview | null>(null);
+  const [signaturePlacements, setSignaturePlacements] = useState<SignaturePlacement[]>([]);
+  const [dateStampFormat, setDateStampFormat] = useState<DateStampFormat>('short');
+  const signatureLibrary = useSignatureLibrary();
+  const [signingCertificate, setSigningCertificate] = useState<SigningCertificate | null>(null);
+  const [digitalSignatureDetails, setDigitalSignatureDetails] = useState<DigitalSignatureDetails>({ reason: '', location: '' });
+  const [verificationCache, setVerificationCache] = useState<Record<string, VerificationEntry>>({});
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [metadataCache, setMetadataCache] = useState<Record<string, MetadataEntry>>({});
+  const [isInspectingMetadata, setIsInspectingMetadata] = useState(false);
+  const [bookmarksFileId, setBookmarksFileId] = useState<string | null>(null);
+  const [outlineItems, setOutlineItems] = useState<OutlineItem[]>([]);
+  const [comparison, setComparison] = useState<ComparisonSession | null>(null);
+  const [compareProgress, setCompareProgress] = useState<{ current: number; total: number } | null>(null);
+  const [mergeOptions, setMergeOptions] = useState<MergeOptions>({ fileBookmarks: true, keepOutlines: true, tableOfContents: false });
+  const history = useDocumentHistory(files, setFiles);
+
+  const [encryptionConfig, setEncryptionConfig] = useState<EncryptionConfig>({
+    userPassword: '',
+    ownerPassword: '',
+    algorithm: 'AES-256',
+    permissions: { print: true, copy: false, modify: false }
   });
 
+  // Decrypted working copies of password-protected files stay in memory only
+  const sessionSnapshot = useMemo<SessionSnapshot>(() => ({
+    files: files.filter(f => !f.unlocked),
+    histories: history.histories,
+    extractedTexts,
+    settings: {
+      activeTool, splitRanges, splitConfig, mergeOptions, imageFormat, imagePdfLayout, textExtractionMode, watermarkConfig, pageNumberConfig,
+      compressionPreset, dateStampFormat, pipelineName, pipelineSteps,
+      encryption: { algorithm: encryptionConfig.algorithm, permissions: encryptionConfig.permissions },
+    },
+  }), [files, history.histories, extractedTexts, activeTool, splitRanges, splitConfig, mergeOptions, imageFormat, imagePdfLayout, textExtractionMode,
+    watermarkConfig, pageNumberConfig, compressionPreset, dateStampFormat, pipelineName, pipelineSteps, encryptionConfig.algorithm, encryptionConfig.permissions]);
+
+  const restoreSession = useCallback((session: StoredSession) => {
+    const { settings } = session;
+    setFiles(session.files.map(f => ({ ...f, previewUrl: f.type === 'image' ? URL.createObjectURL(f.file) : undefined })));
+    history.restore(session.histories);
+    setExtractedTexts(session.extractedTexts);
+    // Spread over the defaults so settings saved by an older version pick up fields added since
+    setActiveTool(settings.activeTool);
+    setSplitRanges(settings.splitRanges);
+    setSplitConfig(prev => ({ ...prev, ...settings.splitConfig }));
+    setMergeOptions(prev => ({ ...prev, ...settings.mergeOptions }));
+    setImageFormat(settings.imageFormat);
+    setImagePdfLayout(settings.imagePdfLayout);
+    setTextExtractionMode(settings.textExtractionMode);
+    setWatermarkConfig(prev => ({ ...prev, ...settings.watermarkConfig }));
+    setPageNumberConfig(prev => ({ ...prev, ...settings.pageNumberConfig }));
+    setCompressionPreset(settings.compressionPreset);
+    setDateStampFormat(settings.dateStampFormat);
+    setPipelineName(settings.pipelineName);
+    setPipelineSteps(settings.pipelineSteps);
+    setEncryptionConfig(prev => ({ ...prev, ...settings.encryption }));
+  }, [history.restore]);
+
+  const session = useSessionPersistence(sessionSnapshot, restoreSession);
+
+  const reportError = (err: unknown, message: string) => {
+    setError(isJobCancelled(err) ? 'Operation cancelled.' : message);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey) || !history.activeFileId) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo(history.activeFileId);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo(history.activeFileId);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history]);
+
+  useEffect(() => {
+    if (interactionState && files.find(f => f.id === interactionState.fileId)?.file !== interactionState.file) {
+      setInteractionState(null);
+    }
+  }, [files, interactionState]);
+
+  const viewerFile = files.find(f => f.id === viewerFileId && f.type === 'pdf');
+  const closeViewer = useCallback(() => setViewerFileId(null), []);
+
+  const signTarget = files.find(f => f.id === signFileId) ?? null;
+  const signPageImage = signPreview && signTarget && signPreview.file === signTarget.file ? signPreview.pages[signPageIndex] ?? null : null;
+
+  // Renders the page being signed on demand; results for a page or version that is no longer shown are dropped
+  useEffect(() => {
+    if (!signTarget || signPageImage) return;
+    let cancelled = false;
+    const file = signTarget.file;
+    renderPageImage(file, signPageIndex, SIGN_PREVIEW_SCALE).then(src => {
+      if (cancelled) return;
+      setSignPreview(prev => ({ file, pages: { ...(prev?.file === file ? prev.pages : {}), [signPageIndex]: src } }));
+    }, err => { if (!cancelled) reportError(err, 'Could not render this page.'); });
+    return () => { cancelled = true; };
+  }, [signTarget?.file, signPageIndex, signPageImage]);
+
   useEffect(() => {
     if (error) {
       const timer = setTimeout(() => setError(null), 5000);
@@ -118,14 +363,15 @@ const App: React.FC = () => {
   const handleFilesAdded = useCallback(async (newFiles: File[]) => {
     const validFiles: File[] = [];
     const isImageTool = activeTool === 'image-to-pdf';
+    const sizeLimit = maxFileSize();
 
     for (const file of newFiles) {
       if (!isImageTool && file.type !== 'application/pdf') {
         setError(`"${file.name}" is not a PDF file.`);
       } else if (isImageTool && !file.type.startsWith('image/')) {
         setError(`"${file.name}" is not an image file.`);
-      } else if (file.size > MAX_FILE_SIZE) {
-        setError(`"${file.name}" exceeds the 50MB limit.`);
+      } else if (file.size > sizeLimit) {
+        setError(`"${file.name}" exceeds the ${formatFileSize(sizeLimit)} this device can safely work with.`);
       } else {
         validFiles.push(file);
       }
@@ -135,39 +381,58 @@ const App: React.FC = () => {
 
     setIsProcessing(true);
     try {
-      const processedFiles: PDFFile[] = await Promise.all(
-        validFiles.map(async (f) => {
-          const type = f.type === 'application/pdf' ? 'pdf' : 'image';
-          let previewUrl: string | undefined;
-          if (type === 'image') {
-            previewUrl = URL.createObjectURL(f);
+      const lockedFiles: File[] = [];
+      const processedFiles = await Promise.all(
+        validFiles.map(async (f): Promise<PDFFile | null> => {
+          if (f.type !== 'application/pdf' || !(await isPdfEncrypted(f))) return await createPDFFile(f);
+          // Owner-password-only files open with an empty user password and need no prompt
+          try {
+            return await createPDFFile(bytesToFile(await decryptPDF(f, ''), f.name), true);
+          } catch (err) {
+            if (!isIncorrectPasswordError(err)) throw err;
+            lockedFiles.push(f);
+            return null;
           }
-          return {
-            id: Math.random().toString(36).substr(2, 9),
-            file: f,
-            name: f.name,
-            size: f.size,
-            pageCount: await getPageCount(f),
-            rotation: 0,
-            type,
-            previewUrl
-          };
         })
       );
-      setFiles((prev) => [...prev, ...processedFiles]);
+      setFiles((prev) => [...prev, ...processedFiles.filter((f): f is PDFFile => f !== null)]);
+      if (lockedFiles.length > 0) setLockedQueue(prev => [...prev, ...lockedFiles]);
     } catch (err) {
-      setError("Failed to process some files.");
+      reportError(err, "Failed to process some files.");
     } finally {
       setIsProcessing(false);
     }
   }, [activeTool]);
 
+  const handleUnlock = async (password: string) => {
+    const target = lockedQueue[0];
+    if (!target) return;
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      const unlocked = await createPDFFile(bytesToFile(await decryptPDF(target, password), target.name), true);
+      setFiles(prev => [...prev, unlocked]);
+      setLockedQueue(prev => prev.slice(1));
+    } catch (err) {
+      setUnlockError(isIncorrectPasswordError(err) ? 'Incorrect password. Try again.' : `Could not decrypt "${target.name}".`);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const skipLockedFile = () => {
+    setUnlockError(null);
+    setLockedQueue(prev => prev.slice(1));
+  };
+
   const removeFile = (id: string) => {
     setFiles((prev) => {
       const target = prev.find(f => f.id === id);
       if (target?.previewUrl) URL.revokeObjectURL(target.previewUrl);
       return prev.filter((f) => f.id !== id);
     });
+    history.forget(id);
+    setSearchIndexCache(prev => { const next = { ...prev }; delete next[id]; return next; });
     if (interactionState?.fileId === id) setInteractionState(null);
   };
 
@@ -184,17 +449,77 @@ const App: React.FC = () => {
     setFiles([]);
     setConversionProgress({});
     setExtractedTexts({});
+    setStructuredTexts({});
+    setInteractionState(null);
+    clearThumbnails();
+    setSearchIndexCache({});
+    setRedactFileId(null);
+    setRedactionBoxes([]);
+    setCompressionResults({});
+    setFormsFileId(null);
+    setFormFields([]);
+    setFormValues({});
+    setSignFileId(null);
+    setSignaturePlacements([]);
+    setSignPreview(null);
+    setVerificationCache({});
+    setMetadataCache({});
+    setBookmarksFileId(null);
+    setOutlineItems([]);
+    setComparison(null);
+    setBatchResults(null);
+    history.clear();
+  };
+
+  const switchTool = (tool: AppTool) => {
+    // Keep the working documents across PDF tools; only the image compiler takes different inputs
+    if ((tool === 'image-to-pdf') !== (activeTool === 'image-to-pdf')) clearFiles();
     setInteractionState(null);
+    setRedactFileId(null);
+    setRedactionBoxes([]);
+    setRedactionReport(null);
+    setFormsFileId(null);
+    setFormFields([]);
+    setFormValues({});
+    setSignFileId(null);
+    setSignaturePlacements([]);
+    setBookmarksFileId(null);
+    setOutlineItems([]);
+    setBatchResults(null);
+    setActiveTool(tool);
+  };
+
+  const handleWipeLocalData = async () => {
+    try {
+      await session.wipe();
+      clearFiles();
+      signatureLibrary.clear();
+    } catch (err) { reportError(err, 'Local data could not be wiped. Close other tabs of this app and try again.'); }
+  };
+
+  const commitVersion = async (fileId: string, data: Uint8Array, label: string, removesContent = false) => {
+    await history.commit(fileId, data, label, removesContent);
+    setExtractedTexts(prev => { const next = { ...prev }; delete next[fileId]; return next; });
+    setStructuredTexts(prev => { const next = { ...prev }; delete next[fileId]; return next; });
+    setIsSearchOpen(false);
+    setIsHistoryOpen(true);
+  };
+
+  const handleExportVersion = (fileId: string, version: DocumentVersion) => {
+    const target = files.find(f => f.id === fileId);
+    const index = history.histories[fileId]?.versions.indexOf(version) ?? -1;
+    if (!target || index === -1) return;
+    downloadBlob(version.file, `${target.name.replace('.pdf', '')}_v${index}.pdf`);
   };
 
   const handleMerge = async () => {
     if (files.length < 2) return;
     setIsProcessing(true);
     try {
-      const result = await mergePDFs(files.map(f => f.file));
+      const result = await mergePDFs(files.map(f => f.file), mergeOptions);
       downloadBlob(result, `merged_help_${Date.now()}.pdf`);
-    } catch (error) {
-      setError('Failed to merge PDFs.');
+    } catch (err) {
+      reportError(err, 'Failed to merge PDFs.');
     } finally {
       setIsProcessing(false);
     }
@@ -206,173 +531,616 @@ const App: React.FC = () => {
     try {
       const result = await imagesToPDF(files.map(f => f.file), imagePdfLayout);
       downloadBlob(result, `compiled_images_${Date.now()}.pdf`);
-    } catch (error) {
-      setError('Failed to convert images.');
+    } catch (err) {
+      reportError(err, 'Failed to convert images.');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleStartThumbnailOperation = async (fileId: string) => {
+  const searchIndex = useMemo(() => {
+    const current: Record<string, IndexedPage[]> = {};
+    files.forEach(f => {
+      if (searchIndexCache[f.id]?.file === f.file) current[f.id] = searchIndexCache[f.id].pages;
+    });
+    return current;
+  }, [files, searchIndexCache]);
+
+  // Index lazily while the search panel is open; edits replace the file and trigger a re-index
+  useEffect(() => {
+    if (!isSearchOpen || isIndexing) return;
+    const stale = files.filter(f => f.type === 'pdf' && !searchIndex[f.id]);
+    if (stale.length === 0) return;
+    setIsIndexing(true);
+    Promise.all(stale.map(async f => {
+      let pages: IndexedPage[] = [];
+      try {
+        pages = indexPages(await extractStructuredText(f.file));
+      } catch (err) {
+        // Keep an empty entry so an unreadable file is not retried on every render
+        if (!isJobCancelled(err)) setError(`Could not index "${f.name}" for search.`);
+      }
+      setSearchIndexCache(prev => ({ ...prev, [f.id]: { file: f.file, pages } }));
+    })).finally(() => setIsIndexing(false));
+  }, [isSearchOpen, isIndexing, files, searchIndex]);
+
+  const signatureVerifications = useMemo(() => {
+    const current: Record<string, SignatureVerification[]> = {};
+    files.forEach(f => {
+      if (verificationCache[f.id]?.file === f.file) current[f.id] = verificationCache[f.id].results;
+    });
+    return current;
+  }, [files, verificationCache]);
+
+  // Signatures are checked whenever the tool is open, so a signature broken by a later edit shows up straight away
+  useEffect(() => {
+    if (activeTool !== 'digital-sign' || isVerifying) return;
+    const stale = files.filter(f => f.type === 'pdf' && !signatureVerifications[f.id]);
+    if (stale.length === 0) return;
+    setIsVerifying(true);
+    Promise.all(stale.map(async f => {
+      let results: SignatureVerification[] = [];
+      try {
+        results = await verifyPDFSignatures(f.file);
+      } catch (err) {
+        if (!isJobCancelled(err)) setError(`Could not check the signatures in "${f.name}".`);
+      }
+      setVerificationCache(prev => ({ ...prev, [f.id]: { file: f.file, results } }));
+    })).finally(() => setIsVerifying(false));
+  }, [activeTool, isVerifying, files, signatureVerifications]);
+
+  const metadataInspections = useMemo(() => {
+    const current: Record<string, MetadataInspection> = {};
+    files.forEach(f => {
+      const entry = metadataCache[f.id];
+      if (entry?.file === f.file && entry.inspection) current[f.id] = entry.inspection;
+    });
+    return current;
+  }, [files, metadataCache]);
+
+  // Read again after every edit, so the findings always describe the current version
+  useEffect(() => {
+    if (activeTool !== 'metadata' || isInspectingMetadata) return;
+    const stale = files.filter(f => f.type === 'pdf' && metadataCache[f.id]?.file !== f.file);
+    if (stale.length === 0) return;
+    setIsInspectingMetadata(true);
+    Promise.all(stale.map(async f => {
+      let inspection: MetadataInspection | null = null;
+      try {
+        inspection = await readMetadata(f.file);
+      } catch (err) {
+        if (!isJobCancelled(err)) setError(`Could not read the properties of "${f.name}".`);
+      }
+      setMetadataCache(prev => ({ ...prev, [f.id]: { file: f.file, inspection } }));
+    })).finally(() => setIsInspectingMetadata(false));
+  }, [activeTool, isInspectingMetadata, files, metadataCache]);
+
+  const getIndexedPages = async (target: PDFFile): Promise<IndexedPage[]> => {
+    if (searchIndex[target.id]) return searchIndex[target.id];
+    const pages = indexPages(await extractStructuredText(target.file));
+    setSearchIndexCache(prev => ({ ...prev, [target.id]: { file: target.file, pages } }));
+    return pages;
+  };
+
+  const handleOpenPageEditor = (fileId: string) => {
     const target = files.find(f => f.id === fileId);
     if (!target) return;
+    setInteractionState({ fileId, file: target.file, slots: createSlots(fileId, target.pageCount), selected: new Set() });
+  };
+
+  const handleCommitPages = async () => {
+    if (!interactionState) return;
+    const target = files.find(f => f.id === interactionState.fileId);
+    if (!target) return;
+    if (isUnchanged(interactionState.slots, target.id, target.pageCount)) { setInteractionState(null); return; }
+    const { sourceFileIds, plan } = toPagePlan(interactionState.slots);
+    const sources = sourceFileIds.map(id => files.find(f => f.id === id));
+    if (sources.some(f => !f)) { setError('A file used in the layout has been removed.'); return; }
     setIsProcessing(true);
     try {
-      const thumbnails = await getPageThumbnails(target.file, (current, total) => {
-        setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } }));
-      });
-      setInteractionState({ fileId, pageIndices: Array.from({ length: target.pageCount }, (_, i) => i), thumbnails, selectedIndices: new Set() });
-    } catch (error) {
-      setError('Thumbnail generation failed.');
+      const result = await composePDFPages(sources.map(f => f!.file), plan);
+      await commitVersion(target.id, result, 'Edited pages');
+      setInteractionState(null);
+    } catch (err) {
+      reportError(err, 'Failed to apply page edits.');
     } finally {
       setIsProcessing(false);
-      setConversionProgress(prev => { const next = { ...prev }; delete next[fileId]; return next; });
     }
   };
 
-  const handleFinishReorder = async () => {
-    if (!interactionState) return;
-    const target = files.find(f => f.id === interactionState.fileId);
+  const handleConvertToImages = async (fileId: string) => {
+    const target = files.find(f => f.id === fileId);
     if (!target) return;
     setIsProcessing(true);
     try {
-      const result = await reorderPDFPages(target.file, interactionState.pageIndices);
-      downloadBlob(result, `reordered_${target.name}`);
-    } catch (error) {
-      setError('Failed to reorder PDF pages.');
-    } finally {
-      setIsProcessing(false);
+      const zipBlob = await pdfToImagesZip(target.file, imageFormat, (current, total) => {
+        setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } }));
+      });
+      downloadBlob(zipBlob, `${target.name.replace('.pdf', '')}_images.zip`);
+    } catch (err) { reportError(err, `Failed to convert "${target.name}".`); } finally { 
+      setIsProcessing(false); 
+      setConversionProgress(prev => { const next = { ...prev }; delete next[fileId]; return next; });
     }
   };
 
-  const handleFinishDelete = async () => {
-    if (!interactionState || !interactionState.selectedIndices) return;
-    const target = files.find(f => f.id === interactionState.fileId);
+  const handleExtractText = async (fileId: string) => {
+    const target = files.find(f => f.id === fileId);
     if (!target) return;
-    if (interactionState.selectedIndices.size === 0) { setError('Select pages to delete.'); return; }
-    if (interactionState.selectedIndices.size === target.pageCount) { setError('Cannot delete all pages.'); return; }
     setIsProcessing(true);
     try {
-      const result = await removePagesFromPDF(target.file, Array.from(interactionState.selectedIndices));
-      downloadBlob(result, `trimmed_${target.name}`);
-      setInteractionState(null);
-    } catch (error) {
-      setError('Failed to remove pages.');
-    } finally {
+      const onProgress = (current: number, total: number) => {
+        setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } }));
+      };
+      if (textExtractionMode === 'structured') {
+        const pages = await extractStructuredText(target.file, onProgress);
+        setStructuredTexts(prev => ({ ...prev, [fileId]: pages }));
+        setExtractedTexts(prev => ({ ...prev, [fileId]: toMarkdown(pages) }));
+        return;
+      }
+      const text = textExtractionMode === 'ocr'
+        ? ocrPagesToText(await recognizePdf(target.file, onProgress))
+        : await extractTextFromPdf(target.file, onProgress);
+      setExtractedTexts(prev => ({ ...prev, [fileId]: text }));
+    } catch (err) { reportError(err, `Extraction failed for "${target.name}".`); } finally {
       setIsProcessing(false);
+      setConversionProgress(prev => { const next = { ...prev }; delete next[fileId]; return next; });
     }
   };
 
-  const togglePageSelection = (index: number) => {
-    if (!interactionState || !interactionState.selectedIndices) return;
-    const next = new Set(interactionState.selectedIndices);
-    next.has(index) ? next.delete(index) : next.add(index);
-    setInteractionState({ ...interactionState, selectedIndices: next });
+  const handleExportStructured = async (fileId: string, format: TextExportFormat) => {
+    const target = files.find(f => f.id === fileId);
+    const pages = structuredTexts[fileId];
+    if (!target || !pages) return;
+    const baseName = target.name.replace('.pdf', '');
+    if (format === 'txt') downloadBlob(toPlainText(pages), `${baseName}.txt`);
+    if (format === 'md') downloadBlob(toMarkdown(pages), `${baseName}.md`);
+    if (format === 'json') downloadBlob(toJson(pages, target.name), `${baseName}.json`);
+    if (format === 'csv') {
+      const tables = tablesOf(pages);
+      if (tables.length === 0) { setError(`No tables detected in "${target.name}".`); return; }
+      if (tables.length === 1) { downloadBlob(tableToCsv(tables[0].rows), `${baseName}_table.csv`); return; }
+      const zip = await createZip(tables.map((t, i) => ({ name: `table_${i + 1}_page_${t.pageNumber}.csv`, data: tableToCsv(t.rows) })));
+      downloadBlob(zip, `${baseName}_tables.zip`);
+    }
   };
 
-  const handleReorderDrop = (dropIndex: number) => {
-    if (draggingPageIndex === null || !interactionState) return;
-    const newIndices = [...interactionState.pageIndices];
-    const [movedItem] = newIndices.splice(draggingPageIndex, 1);
-    newIndices.splice(dropIndex, 0, movedItem);
-    setInteractionState({ ...interactionState, pageIndices: newIndices });
-    setDraggingPageIndex(null);
+  const handleMakeSearchable = async (fileId: string) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target) return;
+    setIsProcessing(true);
+    try {
+      const pages = await recognizePdf(target.file, (current, total) => {
+        setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } }));
+      });
+      const result = await addTextLayerToPDF(target.file, pages);
+      await commitVersion(target.id, result, 'Added OCR text layer');
+      setExtractedTexts(prev => ({ ...prev, [fileId]: ocrPagesToText(pages) }));
+    } catch (err) { reportError(err, `OCR failed for "${target.name}".`); } finally {
+      setIsProcessing(false);
+      setConversionProgress(prev => { const next = { ...prev }; delete next[fileId]; return next; });
+    }
   };
 
-  const handleConvertToImages = async (fileId: string) => {
+  const parsedPages = useMemo(() => parsePageRanges(splitRanges), [splitRanges]);
+
+  const toolPreview = useMemo<ToolPreview | null>(() => {
+    if (activeTool === 'watermark') return isWatermarkReady(watermarkConfig) ? { kind: 'watermark', config: watermarkConfig } : null;
+    if (activeTool === 'page-numbering') return isPageNumberingReady(pageNumberConfig) ? { kind: 'page-numbers', config: pageNumberConfig } : null;
+    if (activeTool === 'rotate') return { kind: 'rotate', rotation: rotationAngle, pageNumbers: parsedPages.length > 0 ? parsedPages : undefined };
+    return null;
+  }, [activeTool, watermarkConfig, pageNumberConfig, rotationAngle, parsedPages]);
+
+  const handleSplitDocument = async (fileId: string) => {
     const target = files.find(f => f.id === fileId);
     if (!target) return;
     setIsProcessing(true);
     try {
-      const zipBlob = await pdfToImagesZip(target.file, imageFormat, (current, total) => {
+      const parts = await splitDocument(target.file, splitConfig, (current, total) => {
         setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } }));
       });
-      downloadBlob(zipBlob, `${target.name.replace('.pdf', '')}_images.zip`);
-    } catch (error) { setError(`Failed to convert "${target.name}".`); } finally { 
-      setIsProcessing(false); 
+      if (parts.length === 1) downloadBlob(parts[0].data, parts[0].name);
+      else downloadBlob(await createZip(parts), `${target.name.replace(/\.pdf$/i, '')}_split.zip`);
+    } catch (err) { reportError(err, err instanceof Error ? err.message : 'Split failed.'); } finally {
+      setIsProcessing(false);
       setConversionProgress(prev => { const next = { ...prev }; delete next[fileId]; return next; });
     }
   };
 
-  const handleExtractText = async (fileId: string) => {
+  const handleRotate = async (fileId: string, deg: number) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target) return;
+    setIsProcessing(true);
+    try {
+      const result = await rotatePDF(target.file, deg, parsedPages.length > 0 ? parsedPages : undefined);
+      await commitVersion(target.id, result, `Rotated ${deg === 270 ? '-90' : `+${deg}`}°${parsedPages.length > 0 ? ` (pages ${splitRanges.trim()})` : ''}`);
+    } catch (err) { reportError(err, 'Rotation failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleApplyWatermark = async (fileId: string) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target || !isWatermarkReady(watermarkConfig)) return;
+    setIsProcessing(true);
+    try {
+      const result = await applyWatermarkToPDF(target.file, watermarkConfig);
+      await commitVersion(target.id, result, watermarkConfig.kind === 'image' ? 'Image watermark' : `Watermark "${watermarkConfig.text}"`);
+    } catch (err) { reportError(err, 'Watermark failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleApplyPageNumbers = async (fileId: string) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target || !isPageNumberingReady(pageNumberConfig)) return;
+    setIsProcessing(true);
+    try {
+      const result = await addPageNumbersToPDF(target.file, pageNumberConfig);
+      await commitVersion(target.id, result, 'Page numbers');
+    } catch (err) { reportError(err, 'Numbering failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleCompress = async (fileId: string) => {
     const target = files.find(f => f.id === fileId);
     if (!target) return;
     setIsProcessing(true);
     try {
-      const text = await extractTextFromPdf(target.file, (current, total) => {
+      const result = await compressPDF(target.file, compressionPreset, (current, total) => {
         setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } }));
       });
-      setExtractedTexts(prev => ({ ...prev, [fileId]: text }));
-    } catch (error) { setError(`Extraction failed for "${target.name}".`); } finally {
+      setCompressionResults(prev => ({ ...prev, [fileId]: { fileId, name: target.name, before: target.file.size, after: Math.min(result.length, target.file.size) } }));
+      // Nothing to gain means nothing to record; the current version stays as it is
+      if (result.length < target.file.size) await commitVersion(target.id, result, `Compressed (${compressionPreset})`);
+    } catch (err) { reportError(err, `Compression failed for "${target.name}".`); } finally {
       setIsProcessing(false);
       setConversionProgress(prev => { const next = { ...prev }; delete next[fileId]; return next; });
     }
   };
 
-  const parsedPages = useMemo(() => {
-    const pages: number[] = [];
-    if (!splitRanges.trim()) return pages;
-    splitRanges.split(',').forEach(part => {
-      const range = part.trim().split('-');
-      if (range.length === 2) {
-        const start = parseInt(range[0]), end = parseInt(range[1]);
-        if (!isNaN(start) && !isNaN(end)) for (let i = Math.min(start, end); i <= Math.max(start, end); i++) pages.push(i);
-      } else {
-        const p = parseInt(part); if (!isNaN(p)) pages.push(p);
-      }
-    });
-    return Array.from(new Set(pages)).sort((a, b) => a - b);
-  }, [splitRanges]);
-
-  const handleSplit = async (fileId: string) => {
+  const handleSelectFormsFile = async (fileId: string | null) => {
+    setFormsFileId(fileId);
+    setFormFields([]);
+    setFormValues({});
     const target = files.find(f => f.id === fileId);
     if (!target) return;
-    if (parsedPages.length === 0) { setError('Enter page ranges.'); return; }
     setIsProcessing(true);
     try {
-      const result = await splitPDF(target.file, parsedPages);
-      downloadBlob(result, `extracted_${target.name}`);
-    } catch (error) { setError('Extraction failed.'); } finally { setIsProcessing(false); }
+      setFormFields(await getFormFields(target.file));
+    } catch (err) {
+      reportError(err, 'Could not read the form fields of this file.');
+      setFormsFileId(null);
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const handleSplitAll = async (fileId: string) => {
+  const handleFillForm = async () => {
+    const target = files.find(f => f.id === formsFileId);
+    if (!target) return;
+    setIsProcessing(true);
+    try {
+      const result = await fillForm(target.file, formValues, flattenForm);
+      await commitVersion(target.id, result, flattenForm ? 'Filled & flattened form' : 'Filled form');
+      // A flattened form has no fields left to edit
+      setFormValues({});
+      setFormFields(flattenForm ? [] : await getFormFields(bytesToFile(result, target.name)));
+      if (flattenForm) setFormsFileId(null);
+    } catch (err) { reportError(err, err instanceof Error && err.message.startsWith('Field "') ? err.message : 'Filling the form failed.'); } finally { setIsProcessing(false); }
+  };
+
+  /**
+   * Fills the form once per data row and downloads the results as a ZIP; the working document is left as it is.
+   */
+  const handleBulkFill = async (dataFile: File) => {
+    const target = files.find(f => f.id === formsFileId);
+    if (!target) return;
+    let rows: DataRow[];
+    try {
+      rows = parseDataRows(await dataFile.text(), dataFile.name);
+    } catch (err) {
+      setError(err instanceof Error ? `Could not read "${dataFile.name}": ${err.message}` : 'Could not read the data file.');
+      return;
+    }
+    if (rows.length === 0) { setError(`"${dataFile.name}" has no data rows.`); return; }
+    setIsProcessing(true);
+    try {
+      const baseName = target.name.replace(/\.pdf$/i, '');
+      const { zip, failed } = await fillFormRows(target.file, baseName, formFields, rows, flattenForm, (current, total) => {
+        setConversionProgress(prev => ({ ...prev, [target.id]: { fileId: target.id, current, total } }));
+      });
+      downloadBlob(zip, `${baseName}_filled.zip`);
+      if (failed > 0) setError(`${failed} of ${rows.length} rows could not be filled. See fill_summary.txt in the ZIP.`);
+    } catch (err) { reportError(err, 'Bulk filling failed.'); } finally {
+      setIsProcessing(false);
+      setConversionProgress(prev => { const next = { ...prev }; delete next[target.id]; return next; });
+    }
+  };
+
+  const handleSelectBookmarksFile = async (fileId: string | null) => {
+    setBookmarksFileId(fileId);
+    setOutlineItems([]);
     const target = files.find(f => f.id === fileId);
     if (!target) return;
     setIsProcessing(true);
     try {
-      const results = await splitToIndividualFiles(target.file);
-      results.forEach(res => downloadBlob(res.data, res.name));
-    } catch (error) { setError('Split failed.'); } finally { setIsProcessing(false); }
+      setOutlineItems(await getOutline(target.file));
+    } catch (err) {
+      reportError(err, 'Could not read the bookmarks of this file.');
+      setBookmarksFileId(null);
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const handleRotate = async (fileId: string, deg: number) => {
+  const handleSaveBookmarks = async () => {
+    const target = files.find(f => f.id === bookmarksFileId);
+    if (!target) return;
+    setIsProcessing(true);
+    try {
+      await commitVersion(target.id, await setOutline(target.file, outlineItems), 'Bookmarks edited');
+    } catch (err) { reportError(err, 'Saving the bookmarks failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleCompare = async (originalId: string, revisedId: string) => {
+    const original = files.find(f => f.id === originalId);
+    const revised = files.find(f => f.id === revisedId);
+    if (!original || !revised) return;
+    setIsProcessing(true);
+    setComparison(null);
+    try {
+      const pages = await compareDocuments(original.file, revised.file, (current, total) => setCompareProgress({ current, total }));
+      setComparison({ original, revised, pages });
+    } catch (err) { reportError(err, 'The documents could not be compared.'); } finally {
+      setIsProcessing(false);
+      setCompareProgress(null);
+    }
+  };
+
+  const handleExportComparison = async (format: 'html' | 'pdf') => {
+    if (!comparison) return;
+    setIsProcessing(true);
+    try {
+      const report = await buildComparisonReport({ leftName: comparison.original.name, rightName: comparison.revised.name, pages: comparison.pages }, format);
+      const baseName = (name: string) => name.replace(/\.pdf$/i, '');
+      downloadBlob(report, `${baseName(comparison.original.name)}_vs_${baseName(comparison.revised.name)}.${format}`);
+    } catch (err) { reportError(err, 'The comparison report could not be created.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleSaveMetadata = async (fileId: string, metadata: DocumentMetadata) => {
     const target = files.find(f => f.id === fileId);
     if (!target) return;
     setIsProcessing(true);
     try {
-      const result = await rotatePDF(target.file, deg, parsedPages.length > 0 ? parsedPages : undefined);
-      downloadBlob(result, `rotated_${target.name}`);
-    } catch (error) { setError('Rotation failed.'); } finally { setIsProcessing(false); }
+      await commitVersion(target.id, await writeMetadata(target.file, metadata), 'Properties edited');
+    } catch (err) { reportError(err, 'Saving the document properties failed.'); } finally { setIsProcessing(false); }
   };
 
-  const handleApplyWatermark = async (fileId: string) => {
+  const handleApplyMetadataToAll = async (changes: Partial<DocumentMetadata>) => {
+    setIsProcessing(true);
+    try {
+      for (const target of files.filter(f => f.type === 'pdf')) {
+        await commitVersion(target.id, await writeMetadata(target.file, changes), `Properties set (${Object.keys(changes).join(', ')})`);
+      }
+    } catch (err) { reportError(err, 'Applying the document properties failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleSanitize = async (fileIds: string[]) => {
+    setIsProcessing(true);
+    try {
+      for (const target of files.filter(f => fileIds.includes(f.id))) {
+        const { data, report } = await sanitizePDF(target.file);
+        const removed = report.metadataFields + report.xmpStreams + report.scripts + report.attachments + report.hiddenLayers;
+        if (removed > 0) await commitVersion(target.id, data, `Sanitized (${removed} item${removed === 1 ? '' : 's'} removed)`, true);
+      }
+    } catch (err) { reportError(err, 'Sanitizing failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleSelectSignFile = (fileId: string | null) => {
+    setSignFileId(fileId);
+    setSignPageIndex(0);
+    setSignaturePlacements([]);
+  };
+
+  const handleSign = async () => {
+    if (!signTarget || signaturePlacements.length === 0) return;
+    setIsProcessing(true);
+    try {
+      const result = await stampSignatures(signTarget.file, signatureLibrary.signatures, signaturePlacements, formatStampDate(dateStampFormat));
+      await commitVersion(signTarget.id, result, 'Signed');
+      setSignFileId(null);
+      setSignaturePlacements([]);
+      setSignPreview(null);
+    } catch (err) { reportError(err, err instanceof Error && err.message.startsWith('A placed signature') ? err.message : 'Signing failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleLoadCertificate = async (certificate: File, password: string) => {
+    setIsProcessing(true);
+    try {
+      const info = await describeCertificate(certificate, password);
+      setSigningCertificate({ file: certificate, password, info });
+    } catch (err) { reportError(err, err instanceof Error ? err.message : 'The certificate could not be loaded.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleDigitalSign = async (fileId: string) => {
     const target = files.find(f => f.id === fileId);
-    if (!target || !watermarkConfig.text.trim()) return;
+    if (!target || !signingCertificate) return;
     setIsProcessing(true);
     try {
-      const result = await applyWatermarkToPDF(target.file, watermarkConfig.text, watermarkConfig);
-      downloadBlob(result, `watermarked_${target.name}`);
-    } catch (error) { setError('Watermark failed.'); } finally { setIsProcessing(false); }
+      const result = await signPDFDigitally(target.file, signingCertificate.file, signingCertificate.password, digitalSignatureDetails);
+      await commitVersion(target.id, result, 'Digitally signed');
+    } catch (err) { reportError(err, err instanceof Error ? err.message : 'Digital signing failed.'); } finally { setIsProcessing(false); }
   };
 
-  const handleApplyPageNumbers = async (fileId: string) => {
+  const handleEncrypt = async (fileId: string) => {
     const target = files.find(f => f.id === fileId);
     if (!target) return;
     setIsProcessing(true);
     try {
-      const result = await addPageNumbersToPDF(target.file, pageNumberConfig);
-      downloadBlob(result, `numbered_${target.name}`);
-    } catch (error) { setError('Numbering failed.'); } finally { setIsProcessing(false); }
+      const result = await encryptPDF(target.file, encryptionConfig);
+      downloadBlob(result, `protected_${target.name}`);
+    } catch (err) { reportError(err, 'Encryption failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const handleSelectRedactFile = (fileId: string | null) => {
+    setRedactFileId(fileId);
+    setRedactionBoxes([]);
+    setRedactionPatterns([]);
+    setRedactionReport(null);
+  };
+
+  const handleAutoMark = async (query: string, regex: boolean) => {
+    const target = files.find(f => f.id === redactFileId);
+    if (!target) return;
+    let pattern: RegExp;
+    try {
+      pattern = buildSearchPattern(query, { matchCase: false, wholeWord: false, regex });
+    } catch (err) {
+      setError('Invalid regular expression.');
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      const hits = searchPages({ [target.id]: await getIndexedPages(target) }, pattern);
+      if (hits.length === 0) { setError(`No matches for "${query}".`); return; }
+      setRedactionBoxes(prev => [...prev, ...hitsToBoxes(hits)]);
+      setRedactionPatterns(prev => [...prev, pattern]);
+    } catch (err) { reportError(err, 'Could not read the text of this file.'); } finally { setIsProcessing(false); }
+  };
+
+  /**
+   * Redacts, then re-extracts text from the result. The new version is only kept when no text
+   * remains under any box and none of the auto-marked patterns still match.
+   */
+  const handleRedact = async () => {
+    const target = files.find(f => f.id === redactFileId);
+    if (!target || redactionBoxes.length === 0) return;
+    setIsProcessing(true);
+    try {
+      const result = await redactPDF(target.file, redactionBoxes);
+      const pages = await extractStructuredText(bytesToFile(result, target.name));
+      const indexed = { [target.id]: indexPages(pages) };
+      const report: RedactionReport = {
+        boxCount: redactionBoxes.length,
+        pageCount: new Set(redactionBoxes.map(b => b.pageIndex)).size,
+        leakedText: findLeakedText(pages, redactionBoxes),
+        remainingMatches: redactionPatterns.reduce((sum, pattern) => sum + searchPages(indexed, pattern).length, 0),
+      };
+      setRedactionReport(report);
+      if (report.leakedText.length > 0 || report.remainingMatches > 0) {
+        setError('Redaction verification failed. The file was not changed.');
+        return;
+      }
+      await commitVersion(target.id, result, `Redacted ${report.boxCount} area${report.boxCount === 1 ? '' : 's'}`, true);
+      setRedactFileId(null);
+      setRedactionBoxes([]);
+      setRedactionPatterns([]);
+    } catch (err) { reportError(err, 'Redaction failed.'); } finally { setIsProcessing(false); }
+  };
+
+  const getBatchTask = (tool: AppTool): BatchTask => {
+    switch (tool) {
+      case 'rotate':
+        return async (file) => [{ name: `rotated_${file.name}`, data: await rotatePDF(file, rotationAngle, parsedPages.length > 0 ? parsedPages : undefined) }];
+      case 'watermark':
+        return async (file) => [{ name: `watermarked_${file.name}`, data: await applyWatermarkToPDF(file, watermarkConfig) }];
+      case 'page-numbering': {
+        // Bates numbers run on through the batch, so each file starts after the pages of those before it
+        const batesOffsets = new Map<File, number>();
+        files.filter(f => f.type === 'pdf').reduce((offset, f) => { batesOffsets.set(f.file, offset); return offset + f.pageCount; }, 0);
+        return async (file) => [{ name: `numbered_${file.name}`, data: await addPageNumbersToPDF(file, pageNumberConfig, batesOffsets.get(file) ?? 0) }];
+      }
+      case 'pdf-to-text':
+        return async (file, onProgress) => [{ name: `${file.name}.txt`, data: await extractTextFromPdf(file, onProgress) }];
+      case 'compress':
+        return async (file, onProgress) => [{ name: `compressed_${file.name}`, data: await compressPDF(file, compressionPreset, onProgress) }];
+      case 'encrypt':
+        return async (file) => [{ name: `protected_${file.name}`, data: await encryptPDF(file, encryptionConfig) }];
+      case 'pdf-to-image':
+        return async (file, onProgress) => {
+          const images = await pdfToImages(file, imageFormat, onProgress);
+          return images.map(img => ({ name: `${file.name.replace('.pdf', '')}_images/${img.name}`, data: img.data }));
+        };
+      default:
+        throw new Error(`"${tool}" does not support batch mode.`);
+    }
+  };
+
+  const handleRunBatch = async () => {
+    const pdfFiles = files.filter(f => f.type === 'pdf');
+    if (pdfFiles.length === 0) return;
+    if (activeTool === 'watermark' && !isWatermarkReady(watermarkConfig)) { setError('Enter stamp text or choose an image.'); return; }
+    if (activeTool === 'page-numbering' && !isPageNumberingReady(pageNumberConfig)) { setError('Enter header or footer text, and choose a font file if using a custom font.'); return; }
+    if (activeTool === 'encrypt' && !encryptionConfig.userPassword && !encryptionConfig.ownerPassword) { setError('Set a password first.'); return; }
+    setIsProcessing(true);
+    setBatchResults([]);
+    try {
+      const { zip, results } = await runBatch(
+        pdfFiles,
+        getBatchTask(activeTool),
+        (fileId, current, total) => setConversionProgress(prev => ({ ...prev, [fileId]: { fileId, current, total } })),
+        (result) => setBatchResults(prev => [...(prev ?? []), result])
+      );
+      if (zip) downloadBlob(zip, `${activeTool}_batch_${Date.now()}.zip`);
+      const failed = results.filter(r => r.status === 'failed').length;
+      if (failed > 0) setError(`${failed} of ${results.length} files failed. See the batch summary.`);
+    } catch (err) {
+      reportError(err, 'Batch run failed.');
+    } finally {
+      setIsProcessing(false);
+      setConversionProgress({});
+    }
+  };
+
+  const addPipelineStep = (op: PipelineOp) => {
+    setPipelineSteps(prev => [...prev, createPipelineStep(op)]);
+  };
+
+  const updatePipelineStep = (step: PipelineStep) => {
+    setPipelineSteps(prev => prev.map(s => s.id === step.id ? step : s));
+  };
+
+  const movePipelineStep = (index: number, direction: 'up' | 'down') => {
+    const next = [...pipelineSteps];
+    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+    if (targetIndex < 0 || targetIndex >= next.length) return;
+    [next[index], next[targetIndex]] = [next[targetIndex], next[index]];
+    setPipelineSteps(next);
+  };
+
+  const removePipelineStep = (id: string) => {
+    setPipelineSteps(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleSavePipeline = () => {
+    const json = serializePipeline(pipelineName, pipelineSteps);
+    const fileName = `${pipelineName.trim().replace(/[^a-z0-9_-]+/gi, '_') || 'pipeline'}.json`;
+    downloadBlob(new Blob([json], { type: 'application/json' }), fileName);
+  };
+
+  const handleLoadPipeline = async (file: File) => {
+    try {
+      const { name, steps } = parsePipeline(await file.text());
+      setPipelineName(name);
+      setPipelineSteps(steps);
+    } catch (err) {
+      reportError(err, err instanceof Error ? err.message : 'Failed to load pipeline.');
+    }
+  };
+
+  const handleRunPipeline = async () => {
+    if (files.length === 0 || pipelineSteps.length === 0) return;
+    setIsProcessing(true);
+    try {
+      const outputs = await runPipeline(files.map(f => f.file), pipelineSteps, (current, total) => {
+        setConversionProgress(prev => ({ ...prev, pipeline: { fileId: 'pipeline', current, total } }));
+      });
+      if (outputs.length === 1) {
+        downloadBlob(outputs[0].data, outputs[0].name);
+      } else {
+        downloadBlob(await createZip(outputs), `pipeline_results_${Date.now()}.zip`);
+      }
+    } catch (err) {
+      reportError(err, err instanceof Error ? err.message : 'Pipeline failed.');
+    } finally {
+      setIsProcessing(false);
+      setConversionProgress(prev => { const next = { ...prev }; delete next.pipeline; return next; });
+    }
   };
 
   return (
@@ -398,8 +1166,14 @@ const App: React.FC = () => {
               <span className="text-xs font-bold text-slate-600 tracking-wide uppercase">Private Mode</span>
             </div>
             <div className="w-px h-8 bg-slate-200"></div>
-            <button className="text-slate-400 hover:text-slate-900 transition-colors"><Settings2 size={20}/></button>
-            <button className="text-slate-400 hover:text-slate-900 transition-colors"><History size={20}/></button>
+            <button onClick={() => { setIsHistoryOpen(false); setIsSearchOpen(false); setIsStorageOpen(open => !open); }} title="Local storage" className={`transition-colors ${isStorageOpen ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-900'}`}><Settings2 size={20}/></button>
+            <button onClick={() => { setIsHistoryOpen(false); setIsStorageOpen(false); setIsSearchOpen(open => !open); }} className={`transition-colors ${isSearchOpen ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-900'}`}>
+              <Search size={20}/>
+            </button>
+            <button onClick={() => { setIsSearchOpen(false); setIsStorageOpen(false); setIsHistoryOpen(open => !open); }} className={`relative transition-colors ${isHistoryOpen ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-900'}`}>
+              <History size={20}/>
+              {Object.keys(history.histories).length > 0 && <span className="absolute -top-1 -right-1 w-2 h-2 bg-indigo-600 rounded-full"></span>}
+            </button>
           </div>
         </div>
       </header>
@@ -412,10 +1186,62 @@ const App: React.FC = () => {
               <p className="font-extrabold text-slate-900 text-lg">Optimizing...</p>
               <p className="text-sm font-medium text-slate-500">Executing local browser operations</p>
             </div>
+            <button onClick={() => { cancelAllJobs(); cancelOcr(); }} className="px-5 py-2 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-600 hover:text-rose-600 hover:border-rose-200 transition-all">Cancel</button>
           </div>
         </div>
       )}
 
+      {isHistoryOpen && (
+        <HistoryPanel
+          files={files}
+          histories={history.histories}
+          activeFileId={history.activeFileId}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          onCheckout={history.checkout}
+          onExport={handleExportVersion}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {viewerFile && <PdfViewer file={viewerFile} onClose={closeViewer}/>}
+
+      {isStorageOpen && (
+        <StoragePanel
+          preferences={session.preferences}
+          setPreferences={session.setPreferences}
+          report={session.report}
+          saveError={session.saveError}
+          onWipe={handleWipeLocalData}
+          onClose={() => setIsStorageOpen(false)}
+        />
+      )}
+
+      {session.pendingSession && (
+        <ResumeSessionPrompt session={session.pendingSession} onResume={session.resume} onDiscard={session.discard} />
+      )}
+
+      {isSearchOpen && (
+        <SearchPanel
+          files={files}
+          index={searchIndex}
+          isIndexing={isIndexing}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+
+      {lockedQueue.length > 0 && (
+        <PasswordPrompt
+          key={`${lockedQueue[0].name}-${lockedQueue.length}`}
+          fileName={lockedQueue[0].name}
+          remaining={lockedQueue.length}
+          error={unlockError}
+          isUnlocking={isUnlocking}
+          onSubmit={handleUnlock}
+          onSkip={skipLockedFile}
+        />
+      )}
+
       {error && (
         <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] w-full max-w-xl px-4 animate-in slide-in-from-top duration-500">
           <div className="bg-rose-50 border-l-4 border-rose-500 text-rose-800 px-6 py-4 rounded-2xl shadow-2xl flex items-center gap-4">
@@ -437,7 +1263,7 @@ const App: React.FC = () => {
                     <NavButton 
                       key={tool}
                       active={activeTool === tool}
-                      onClick={() => { setActiveTool(tool as AppTool); clearFiles(); }}
+                      onClick={() => switchTool(tool as AppTool)}
                       icon={getToolIcon(tool as AppTool)}
                       label={tool.replace(/-/g, ' ')}
                     />
@@ -453,6 +1279,17 @@ const App: React.FC = () => {
                   <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Workspace</span>
                   <span className="bg-indigo-100 text-indigo-600 text-[10px] font-black px-2 py-0.5 rounded-full">{files.length} Files</span>
                 </div>
+                {files.length > 0 && (
+                  <ul className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                    {files.map(f => (
+                      <li key={f.id} className="group flex items-center gap-2 px-2 py-1.5 rounded-xl hover:bg-white/80 transition-all">
+                        <FileText size={12} className="text-slate-400 shrink-0"/>
+                        <span className="flex-1 truncate text-xs font-bold text-slate-600" title={f.name}>{f.name}</span>
+                        {f.type === 'pdf' && <button onClick={() => setViewerFileId(f.id)} title="View" className="p-1 text-slate-300 hover:text-indigo-600 transition-colors"><Eye size={14}/></button>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 {files.length > 0 && (
                   <button onClick={clearFiles} className="w-full py-2.5 rounded-xl border border-rose-200 text-rose-500 hover:bg-rose-50 text-xs font-bold transition-all flex items-center justify-center gap-2">
                     <Trash2 size={14}/> Clear Workspace
@@ -490,12 +1327,11 @@ const App: React.FC = () => {
                 onExecute={() => {
                   if (activeTool === 'merge') handleMerge();
                   if (activeTool === 'image-to-pdf') handleImagesToPDF();
+                  if (activeTool === 'pipeline') handleRunPipeline();
                 }}
+                pipelineStepCount={pipelineSteps.length}
                 interactionState={interactionState}
-                onSaveInteraction={() => {
-                  if (activeTool === 'reorder') handleFinishReorder();
-                  if (activeTool === 'delete-pages') handleFinishDelete();
-                }}
+                onSaveInteraction={handleCommitPages}
                 onCancelInteraction={() => setInteractionState(null)}
               />
             </div>
@@ -505,6 +1341,18 @@ const App: React.FC = () => {
                 <EmptyState tool={activeTool} />
               ) : (
                 <div className="space-y-6 max-w-5xl mx-auto">
+                   {BATCH_TOOLS.includes(activeTool) && (
+                     <BatchPanel
+                        files={files}
+                        progress={conversionProgress}
+                        results={batchResults}
+                        isProcessing={isProcessing}
+                        onRun={handleRunBatch}
+                        rotation={rotationAngle}
+                        setRotation={activeTool === 'rotate' ? setRotationAngle : undefined}
+                     />
+                   )}
+
                    {activeTool === 'image-to-pdf' && (
                      <div className="space-y-6">
                         <ToolHint icon={<Maximize2 size={18}/>} title="Page Layout Config" description="Specify the target paper size. Images will be automatically scaled to fit within these bounds." />
@@ -536,6 +1384,7 @@ const App: React.FC = () => {
                               onRemove={() => removeFile(f.id)}
                               onUp={() => moveFile(i, 'up')}
                               onDown={() => moveFile(i, 'down')}
+                              onView={() => setViewerFileId(f.id)}
                             />
                           ))}
                         </div>
@@ -555,48 +1404,58 @@ const App: React.FC = () => {
                               onRemove={() => removeFile(f.id)}
                               onUp={() => moveFile(i, 'up')}
                               onDown={() => moveFile(i, 'down')}
+                              onView={() => setViewerFileId(f.id)}
                             />
                           ))}
                         </div>
+                        <div className="flex flex-wrap gap-3">
+                          {([['fileBookmarks', 'Bookmark each file'], ['keepOutlines', 'Keep existing bookmarks'], ['tableOfContents', 'Add a contents page']] as [keyof MergeOptions, string][]).map(([key, label]) => (
+                            <label key={key} className="flex items-center gap-3 px-4 py-2.5 rounded-xl bg-white border border-slate-200 cursor-pointer text-xs font-bold text-slate-700">
+                              <input type="checkbox" checked={mergeOptions[key]} onChange={e => setMergeOptions({ ...mergeOptions, [key]: e.target.checked })} className="accent-indigo-600"/>
+                              {label}
+                            </label>
+                          ))}
+                        </div>
                      </div>
                    )}
 
-                   {activeTool === 'reorder' && (
-                     <PageGridInteraction 
-                        interactionState={interactionState} 
-                        files={files} 
-                        onStart={handleStartThumbnailOperation}
-                        onDrop={handleReorderDrop}
-                        draggingIndex={draggingPageIndex}
-                        setDraggingIndex={setDraggingPageIndex}
-                        mode="reorder"
-                     />
-                   )}
-
-                   {activeTool === 'delete-pages' && (
-                     <PageGridInteraction 
-                        interactionState={interactionState} 
-                        files={files} 
-                        onStart={handleStartThumbnailOperation}
-                        onToggle={togglePageSelection}
-                        mode="delete"
-                     />
+                   {activeTool === 'organize' && (
+                     interactionState ? (
+                       <PageEditor
+                          target={files.find(f => f.id === interactionState.fileId)!}
+                          files={files}
+                          slots={interactionState.slots}
+                          selected={interactionState.selected}
+                          onChange={(slots, selected) => setInteractionState({ ...interactionState, slots, selected })}
+                       />
+                     ) : (
+                       <PageEditorLauncher files={files} onOpen={handleOpenPageEditor} />
+                     )
                    )}
 
                    {activeTool === 'split' && (
-                     <SplitView files={files} splitRanges={splitRanges} setSplitRanges={setSplitRanges} parsedPages={parsedPages} onSplit={handleSplit} onSplitAll={handleSplitAll} />
+                     <SplitView files={files} config={splitConfig} setConfig={setSplitConfig} progress={conversionProgress} onSplit={handleSplitDocument} />
                    )}
 
                    {activeTool === 'rotate' && (
-                     <RotateView files={files} splitRanges={splitRanges} setSplitRanges={setSplitRanges} onRotate={handleRotate} />
+                     <div className="grid grid-cols-1 xl:grid-cols-[1fr_20rem] gap-8 items-start">
+                       <RotateView files={files} splitRanges={splitRanges} setSplitRanges={setSplitRanges} angle={rotationAngle} setAngle={setRotationAngle} onRotate={handleRotate} />
+                       <ToolPreviewPane files={files} preview={toolPreview} />
+                     </div>
                    )}
 
                    {activeTool === 'watermark' && (
-                     <WatermarkView files={files} config={watermarkConfig} setConfig={setWatermarkConfig} onApply={handleApplyWatermark} />
+                     <div className="grid grid-cols-1 xl:grid-cols-[1fr_20rem] gap-8 items-start">
+                       <WatermarkView files={files} config={watermarkConfig} setConfig={setWatermarkConfig} onApply={handleApplyWatermark} />
+                       <ToolPreviewPane files={files} preview={toolPreview} notReadyMessage="Enter stamp text or choose an image to see it on the page." />
+                     </div>
                    )}
 
                    {activeTool === 'page-numbering' && (
-                     <PageNumberView files={files} config={pageNumberConfig} setConfig={setPageNumberConfig} onApply={handleApplyPageNumbers} />
+                     <div className="grid grid-cols-1 xl:grid-cols-[1fr_20rem] gap-8 items-start">
+                       <PageNumberView files={files} config={pageNumberConfig} setConfig={setPageNumberConfig} onApply={handleApplyPageNumbers} />
+                       <ToolPreviewPane files={files} preview={toolPreview} notReadyMessage="Enter header or footer text, and choose a font file if using a custom font." />
+                     </div>
                    )}
 
                    {activeTool === 'pdf-to-image' && (
@@ -604,7 +1463,121 @@ const App: React.FC = () => {
                    )}
 
                    {activeTool === 'pdf-to-text' && (
-                     <PdfToTextView files={files} texts={extractedTexts} progress={conversionProgress} onExtract={handleExtractText} />
+                     <PdfToTextView files={files} texts={extractedTexts} progress={conversionProgress} mode={textExtractionMode} setMode={(mode: TextExtractionMode) => { setTextExtractionMode(mode); setExtractedTexts({}); setStructuredTexts({}); }} onExtract={handleExtractText} onMakeSearchable={handleMakeSearchable} structured={structuredTexts} onExportStructured={handleExportStructured} />
+                   )}
+
+                   {activeTool === 'encrypt' && (
+                     <EncryptView files={files} config={encryptionConfig} setConfig={setEncryptionConfig} onApply={handleEncrypt} />
+                   )}
+
+                   {activeTool === 'compress' && (
+                     <CompressView files={files} preset={compressionPreset} setPreset={setCompressionPreset} results={compressionResults} progress={conversionProgress} onCompress={handleCompress} />
+                   )}
+
+                   {activeTool === 'forms' && (
+                     <FormsView
+                        files={files}
+                        target={files.find(f => f.id === formsFileId) ?? null}
+                        fields={formFields}
+                        values={formValues}
+                        setValue={(name: string, value: FormFieldValue) => setFormValues(prev => ({ ...prev, [name]: value }))}
+                        flatten={flattenForm}
+                        setFlatten={setFlattenForm}
+                        progress={formsFileId ? conversionProgress[formsFileId] : undefined}
+                        onSelectFile={handleSelectFormsFile}
+                        onApply={handleFillForm}
+                        onBulkFill={handleBulkFill}
+                     />
+                   )}
+
+                   {activeTool === 'bookmarks' && (
+                     <BookmarksView
+                        files={files}
+                        target={files.find(f => f.id === bookmarksFileId) ?? null}
+                        items={outlineItems}
+                        setItems={setOutlineItems}
+                        onSelectFile={handleSelectBookmarksFile}
+                        onSave={handleSaveBookmarks}
+                     />
+                   )}
+
+                   {activeTool === 'metadata' && (
+                     <MetadataView
+                        files={files}
+                        inspections={metadataInspections}
+                        isInspecting={isInspectingMetadata}
+                        onSave={handleSaveMetadata}
+                        onApplyToAll={handleApplyMetadataToAll}
+                        onSanitize={handleSanitize}
+                     />
+                   )}
+
+                   {activeTool === 'compare' && (
+                     <CompareView files={files} comparison={comparison} progress={compareProgress} onCompare={handleCompare} onExport={handleExportComparison} />
+                   )}
+
+                   {activeTool === 'sign' && (
+                     <SignView
+                        files={files}
+                        target={signTarget}
+                        pageIndex={signPageIndex}
+                        pageImage={signPageImage}
+                        signatures={signatureLibrary.signatures}
+                        onSaveSignature={signatureLibrary.add}
+                        onRemoveSignature={(id: string) => {
+                          signatureLibrary.remove(id);
+                          setSignaturePlacements(prev => prev.filter(p => p.signatureId !== id));
+                        }}
+                        placements={signaturePlacements}
+                        setPlacements={setSignaturePlacements}
+                        dateFormat={dateStampFormat}
+                        setDateFormat={setDateStampFormat}
+                        onSelectFile={handleSelectSignFile}
+                        onShowPage={setSignPageIndex}
+                        onApply={handleSign}
+                     />
+                   )}
+
+                   {activeTool === 'digital-sign' && (
+                     <DigitalSignView
+                        files={files}
+                        certificate={signingCertificate?.info ?? null}
+                        onLoadCertificate={handleLoadCertificate}
+                        onClearCertificate={() => setSigningCertificate(null)}
+                        details={digitalSignatureDetails}
+                        setDetails={setDigitalSignatureDetails}
+                        verifications={signatureVerifications}
+                        onSign={handleDigitalSign}
+                     />
+                   )}
+
+                   {activeTool === 'redact' && (
+                     <RedactView
+                        files={files}
+                        target={files.find(f => f.id === redactFileId) ?? null}
+                        boxes={redactionBoxes}
+                        setBoxes={setRedactionBoxes}
+                        report={redactionReport}
+                        onSelectFile={handleSelectRedactFile}
+                        onAutoMark={handleAutoMark}
+                        onApply={handleRedact}
+                     />
+                   )}
+
+                   {activeTool === 'pipeline' && (
+                     <PipelineView
+                        files={files}
+                        name={pipelineName}
+                        setName={setPipelineName}
+                        steps={pipelineSteps}
+                        onAddStep={addPipelineStep}
+                        onUpdateStep={updatePipelineStep}
+                        onMoveStep={movePipelineStep}
+                        onRemoveStep={removePipelineStep}
+                        onSave={handleSavePipeline}
+                        onLoad={handleLoadPipeline}
+                        progress={conversionProgress.pipeline}
+                     />
                    )}
                 </div>
               )}
@@ -640,13 +1613,13 @@ const NavButton: React.FC<{ active: boolean; onClick: () => void; icon: React.Re
   </button>
 );
 
-const ToolHeaderActions: React.FC<any> = ({ tool, files, isProcessing, onExecute, interactionState, onSaveInteraction, onCancelInteraction }) => {
+const ToolHeaderActions: React.FC<any> = ({ tool, files, isProcessing, onExecute, interactionState, onSaveInteraction, onCancelInteraction, pipelineStepCount }) => {
   if (interactionState) {
     return (
       <div className="flex gap-2">
         <button onClick={onCancelInteraction} className="px-5 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 transition-all">Cancel</button>
         <button onClick={onSaveInteraction} className="px-5 py-2.5 rounded-xl text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-100 flex items-center gap-2">
-          <Download size={14}/> {tool === 'reorder' ? 'Commit Layout' : 'Commit Deletion'}
+          <Download size={14}/> Commit Pages
         </button>
       </div>
     );
@@ -665,6 +1638,19 @@ const ToolHeaderActions: React.FC<any> = ({ tool, files, isProcessing, onExecute
       </button>
     );
   }
+
+  if (tool === 'pipeline') {
+    return (
+      <button 
+        disabled={files.length === 0 || pipelineStepCount === 0 || isProcessing}
+        onClick={onExecute}
+        className="px-6 py-2.5 rounded-2xl text-sm font-black bg-slate-900 text-white hover:bg-black disabled:opacity-50 disabled:bg-slate-200 disabled:text-slate-400 shadow-xl shadow-slate-200 flex items-center gap-2 transition-all active:scale-95"
+      >
+        {isProcessing ? <Loader2 className="animate-spin" size={16}/> : <Workflow size={16} className="text-white"/>}
+        Run Pipeline
+      </button>
+    );
+  }
   return null;
 };
 
@@ -683,7 +1669,7 @@ const EmptyState: React.FC<{ tool: string }> = ({ tool }) => (
   </div>
 );
 
-const FileCard: React.FC<any> = ({ file, index, total, onRemove, onUp, onDown }) => (
+const FileCard: React.FC<any> = ({ file, index, total, onRemove, onUp, onDown, onView }) => (
   <div className="group flex items-center justify-between p-5 bg-white border border-slate-100 rounded-3xl tool-card-hover shadow-sm">
     <div className="flex items-center gap-5 overflow-hidden">
       <div className="flex flex-col items-center gap-1.5 shrink-0">
@@ -697,11 +1683,16 @@ const FileCard: React.FC<any> = ({ file, index, total, onRemove, onUp, onDown })
       <div className="truncate">
         <p className="text-sm font-extrabold text-slate-800 truncate">{file.name}</p>
         <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-0.5">
-          {(file.size/1024/1024).toFixed(2)} MB • {file.pageCount} Pages
+          {(file.size/1024/1024).toFixed(2)} MB • {file.pageCount} Pages{file.unlocked && ' • Unlocked'}
         </p>
       </div>
     </div>
     <div className="flex items-center gap-2">
+      {file.type === 'pdf' && (
+        <button onClick={onView} title="View" className="p-3 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-2xl transition-all">
+          <Eye size={20}/>
+        </button>
+      )}
       <button onClick={onRemove} className="p-3 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-2xl transition-all">
         <Trash2 size={20}/>
       </button>
@@ -709,135 +1700,36 @@ const FileCard: React.FC<any> = ({ file, index, total, onRemove, onUp, onDown })
   </div>
 );
 
-const ToolHint: React.FC<any> = ({ icon, title, description }) => (
-  <div className="flex items-start gap-4 p-5 bg-indigo-50/50 border border-indigo-100 rounded-3xl">
-    <div className="bg-white p-2 rounded-xl text-indigo-600 shadow-sm">{icon}</div>
-    <div className="space-y-0.5">
-      <h4 className="text-sm font-black text-indigo-900 uppercase tracking-tight">{title}</h4>
-      <p className="text-xs font-medium text-indigo-700 leading-relaxed">{description}</p>
-    </div>
-  </div>
-);
-
-const SplitView: React.FC<any> = ({ files, splitRanges, setSplitRanges, parsedPages, onSplit, onSplitAll }) => (
-  <div className="space-y-8">
-     <ToolHint icon={<Scissors size={18}/>} title="Extraction Config" description="Define ranges (e.g. 1, 3-5). The system will carve out these specific pages into a new document." />
-     <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-200 space-y-4">
-        <label className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Defined Range</label>
-        <input 
-          type="text" 
-          value={splitRanges} 
-          onChange={(e) => setSplitRanges(e.target.value)} 
-          placeholder="e.g. 1, 3, 5-10"
-          className="w-full bg-white border border-slate-200 px-6 py-4 rounded-2xl text-lg font-bold focus:ring-4 focus:ring-indigo-100 focus:outline-none transition-all placeholder:text-slate-300"
-        />
-        {parsedPages.length > 0 && (
-          <div className="flex flex-wrap gap-2 pt-2">
-            {parsedPages.map((p: number) => <span key={p} className="bg-indigo-600 text-white text-[9px] font-black px-2 py-0.5 rounded shadow-sm">P{p}</span>)}
-          </div>
-        )}
-     </div>
-     <div className="grid grid-cols-1 gap-4">
-        {files.map((f: any) => (
-          <div key={f.id} className="p-5 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm">
-             <div className="flex items-center gap-4">
-               <div className="w-12 h-12 bg-indigo-50 rounded-2xl flex items-center justify-center text-indigo-500"><FileText size={24}/></div>
-               <div className="truncate max-w-xs"><p className="text-sm font-bold text-slate-800 truncate">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages</p></div>
-             </div>
-             <div className="flex gap-2">
-                <button onClick={() => onSplit(f.id)} disabled={parsedPages.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold shadow-lg shadow-indigo-100 disabled:bg-slate-200">Extract</button>
-                <button onClick={() => onSplitAll(f.id)} className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold">Split All</button>
-             </div>
-          </div>
-        ))}
-     </div>
-  </div>
-);
-
-const RotateView: React.FC<any> = ({ files, splitRanges, setSplitRanges, onRotate }) => (
+const RotateView: React.FC<any> = ({ files, splitRanges, setSplitRanges, angle, setAngle, onRotate }) => (
   <div className="space-y-6">
      <ToolHint icon={<RefreshCw size={18}/>} title="Orientation Adjust" description="Apply rotation to the entire document or a specific subset of pages." />
-     <div className="bg-slate-50 p-6 rounded-3xl border border-slate-200">
-        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Target Range (Leave empty for All)</label>
-        <input type="text" value={splitRanges} onChange={(e) => setSplitRanges(e.target.value)} placeholder="e.g. 1-2, 5" className="w-full bg-white border border-slate-200 px-4 py-2.5 rounded-xl font-bold focus:ring-2 focus:ring-indigo-100 focus:outline-none"/>
+     <div className="bg-slate-50 p-6 rounded-3xl border border-slate-200 space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+           <RotateBtn icon={<RotateCw size={18}/>} label="+90°" active={angle === 90} onClick={() => setAngle(90)} />
+           <RotateBtn icon={<RefreshCw size={18}/>} label="180°" active={angle === 180} onClick={() => setAngle(180)} />
+           <RotateBtn icon={<RotateCcw size={18}/>} label="-90°" active={angle === 270} onClick={() => setAngle(270)} />
+        </div>
+        <div>
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Target Range (Leave empty for All)</label>
+          <input type="text" value={splitRanges} onChange={(e) => setSplitRanges(e.target.value)} placeholder="e.g. 1-2, 5" className="w-full bg-white border border-slate-200 px-4 py-2.5 rounded-xl font-bold focus:ring-2 focus:ring-indigo-100 focus:outline-none"/>
+        </div>
      </div>
      {files.map((f: any) => (
-       <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl space-y-4 shadow-sm">
-         <div className="flex items-center justify-between"><h4 className="font-bold text-slate-800 truncate max-w-xs">{f.name}</h4><span className="text-xs text-slate-400">{f.pageCount} pgs</span></div>
-         <div className="grid grid-cols-3 gap-3">
-            <RotateBtn icon={<RotateCw size={18}/>} label="+90°" onClick={() => onRotate(f.id, 90)} />
-            <RotateBtn icon={<RefreshCw size={18}/>} label="180°" onClick={() => onRotate(f.id, 180)} />
-            <RotateBtn icon={<RotateCcw size={18}/>} label="-90°" onClick={() => onRotate(f.id, 270)} />
-         </div>
+       <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm flex items-center justify-between gap-4">
+         <div className="truncate"><h4 className="font-bold text-slate-800 truncate max-w-xs">{f.name}</h4><span className="text-xs text-slate-400">{f.pageCount} pgs</span></div>
+         <button onClick={() => onRotate(f.id, angle)} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold shadow-lg shadow-indigo-100 shrink-0">Rotate {angle === 270 ? '-90' : `+${angle}`}°</button>
        </div>
      ))}
   </div>
 );
 
-const RotateBtn: React.FC<any> = ({ icon, label, onClick }) => (
-  <button onClick={onClick} className="flex flex-col items-center gap-2 py-4 bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-2xl transition-all group">
+const RotateBtn: React.FC<any> = ({ icon, label, active, onClick }) => (
+  <button onClick={onClick} className={`flex flex-col items-center gap-2 py-4 border rounded-2xl transition-all group ${active ? 'bg-indigo-50 border-indigo-300' : 'bg-white hover:bg-indigo-50 border-slate-200 hover:border-indigo-200'}`}>
     <div className="text-slate-400 group-hover:text-indigo-600 group-hover:rotate-12 transition-transform">{icon}</div>
     <span className="text-[10px] font-black text-slate-500 group-hover:text-indigo-700 uppercase tracking-widest">{label}</span>
   </button>
 );
 
-const WatermarkView: React.FC<any> = ({ files, config, setConfig, onApply }) => (
-  <div className="space-y-6">
-    <ToolHint icon={<Stamp size={18}/>} title="Stamping Logic" description="Overlays text for DRAFT or CONFIDENTIAL labels across all pages." />
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-8 bg-slate-50 rounded-[2.5rem] border border-slate-200">
-      <div className="space-y-4">
-        <div><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Stamp Text</label><input value={config.text} onChange={e => setConfig({...config, text: e.target.value})} className="w-full px-5 py-3 rounded-2xl border border-slate-200 font-bold focus:ring-4 focus:ring-indigo-100 outline-none"/></div>
-        <div className="flex gap-4">
-          <div className="flex-1"><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Size ({config.fontSize})</label><input type="range" min="10" max="200" value={config.fontSize} onChange={e => setConfig({...config, fontSize: parseInt(e.target.value)})} className="w-full accent-indigo-600"/></div>
-          <div className="flex-1"><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Opacity ({Math.round(config.opacity*100)}%)</label><input type="range" min="0" max="1" step="0.1" value={config.opacity} onChange={e => setConfig({...config, opacity: parseFloat(e.target.value)})} className="w-full accent-indigo-600"/></div>
-        </div>
-      </div>
-      <div className="space-y-4">
-        <div><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Rotation ({config.rotation}°)</label><input type="range" min="-180" max="180" value={config.rotation} onChange={e => setConfig({...config, rotation: parseInt(e.target.value)})} className="w-full accent-indigo-600"/></div>
-        <div><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Color</label><input type="color" value={config.color} onChange={e => setConfig({...config, color: e.target.value})} className="w-full h-12 rounded-xl border-none cursor-pointer p-0"/></div>
-      </div>
-    </div>
-    {files.map((f: any) => (
-      <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm">
-        <h4 className="font-bold text-slate-800 truncate max-w-sm">{f.name}</h4>
-        <button onClick={() => onApply(f.id)} className="px-6 py-2.5 bg-indigo-600 text-white rounded-2xl text-xs font-black shadow-lg">Apply Stamp</button>
-      </div>
-    ))}
-  </div>
-);
-
-const PageNumberView: React.FC<any> = ({ files, config, setConfig, onApply }) => (
-  <div className="space-y-6">
-    <ToolHint icon={<Hash size={18}/>} title="Pagination Engine" description="Insert incrementing page numbers into your document." />
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 p-8 bg-slate-50 rounded-[2.5rem] border border-slate-200">
-      <div className="space-y-5">
-        <div>
-          <label className="text-[10px] font-black text-slate-400 uppercase mb-3 block tracking-widest">Vertical Position</label>
-          <div className="flex bg-slate-200/50 p-1 rounded-2xl">
-            {['top', 'bottom'].map(p => <button key={p} onClick={() => setConfig({...config, position: p as 'top'|'bottom'})} className={`flex-1 py-3 rounded-xl text-xs font-black capitalize transition-all ${config.position === p ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}>{p}</button>)}
-          </div>
-        </div>
-        <div>
-          <label className="text-[10px] font-black text-slate-400 uppercase mb-3 block tracking-widest">Alignment</label>
-          <div className="flex bg-slate-200/50 p-1 rounded-2xl">
-            {['left', 'center', 'right'].map(a => <button key={a} onClick={() => setConfig({...config, alignment: a as any})} className={`flex-1 py-3 rounded-xl flex justify-center transition-all ${config.alignment === a ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-400'}`}>{a === 'left' ? <AlignLeft size={18}/> : a === 'center' ? <AlignCenter size={18}/> : <AlignRight size={18}/>}</button>)}
-          </div>
-        </div>
-      </div>
-      <div className="space-y-5">
-        <div><label className="text-[10px] font-black text-slate-400 uppercase mb-3 block tracking-widest">Font Size ({config.fontSize})</label><input type="range" min="8" max="32" value={config.fontSize} onChange={e => setConfig({...config, fontSize: parseInt(e.target.value)})} className="w-full accent-indigo-600"/></div>
-        <div><label className="text-[10px] font-black text-slate-400 uppercase mb-3 block tracking-widest">Text Color</label><input type="color" value={config.color} onChange={e => setConfig({...config, color: e.target.value})} className="w-full h-14 rounded-2xl border-none cursor-pointer p-0 shadow-inner"/></div>
-      </div>
-    </div>
-    {files.map((f: any) => (
-       <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm">
-        <h4 className="font-bold text-slate-800 truncate max-w-sm">{f.name}</h4>
-        <button onClick={() => onApply(f.id)} className="px-6 py-2.5 bg-slate-900 text-white rounded-2xl text-xs font-black">Add Numbers</button>
-      </div>
-    ))}
-  </div>
-);
-
 const PdfToImageView: React.FC<any> = ({ files, format, setFormat, progress, onConvert }) => (
   <div className="space-y-6">
     <ToolHint icon={<ImageIcon size={18}/>} title="Raster Export" description="Converts PDF pages into static images." />
@@ -864,9 +1756,21 @@ const PdfToImageView: React.FC<any> = ({ files, format, setFormat, progress, onC
   </div>
 );
 
-const PdfToTextView: React.FC<any> = ({ files, texts, progress, onExtract }) => (
+const PdfToTextView: React.FC<any> = ({ files, texts, progress, mode, setMode, onExtract, onMakeSearchable, structured, onExportStructured }) => (
   <div className="space-y-6">
-    <ToolHint icon={<Type size={18}/>} title="Deep Text Extraction" description="Scans document content layers to reconstruct plaintext." />
+    <ToolHint icon={<Type size={18}/>} title="Deep Text Extraction" description={mode === 'ocr' ? 'Renders each page and recognises the text on-device. Use this for scanned documents.' : mode === 'structured' ? 'Rebuilds lines, paragraphs, headings and tables from text positions and font sizes.' : 'Scans document content layers to reconstruct plaintext.'} />
+    <div className="bg-slate-50 p-6 rounded-[2rem] border border-slate-200 flex items-center justify-between">
+       <p className="text-sm font-bold text-slate-700">Source</p>
+       <div className="flex bg-slate-200/50 p-1 rounded-2xl w-fit">
+          {[
+            { id: 'text-layer', label: 'Text Layer' },
+            { id: 'structured', label: 'Structured' },
+            { id: 'ocr', label: 'OCR (Scanned)' }
+          ].map(m => (
+            <button key={m.id} onClick={() => setMode(m.id)} className={`px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === m.id ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}>{m.label}</button>
+          ))}
+       </div>
+    </div>
     {files.map((f: any) => {
       const text = texts[f.id];
       const prog = progress[f.id];
@@ -875,7 +1779,10 @@ const PdfToTextView: React.FC<any> = ({ files, texts, progress, onExtract }) =>
            <div className="flex items-center justify-between">
              <h4 className="font-bold text-slate-800 truncate max-w-sm">{f.name}</h4>
              <div className="flex gap-2">
-               {!text ? <button onClick={() => onExtract(f.id)} className="px-6 py-2.5 bg-indigo-600 text-white rounded-2xl text-xs font-black">Extract Text</button> : <><button onClick={() => navigator.clipboard.writeText(text)} className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-xs font-bold">Copy</button><button onClick={() => downloadBlob(text, `${f.name}.txt`)} className="px-6 py-2.5 bg-slate-900 text-white rounded-2xl text-xs font-black shadow-xl">Save .txt</button></>}
+               {mode === 'ocr' && <button onClick={() => onMakeSearchable(f.id)} className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-xs font-bold">Make Searchable PDF</button>}
+               {text && structured[f.id] ? (['txt', 'md', 'json', 'csv'] as const).map(format => (
+                 <button key={format} onClick={() => onExportStructured(f.id, format)} className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-xs font-bold uppercase">.{format}</button>
+               )) : !text ? <button onClick={() => onExtract(f.id)} className="px-6 py-2.5 bg-indigo-600 text-white rounded-2xl text-xs font-black">{mode === 'ocr' ? 'Run OCR' : 'Extract Text'}</button> : <><button onClick={() => navigator.clipboard.writeText(text)} className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-xs font-bold">Copy</button><button onClick={() => downloadBlob(text, `${f.name}.txt`)} className="px-6 py-2.5 bg-slate-900 text-white rounded-2xl text-xs font-black shadow-xl">Save .txt</button></>}
              </div>
            </div>
            {prog && <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 transition-all" style={{width:`${(prog.current/prog.total)*100}%`}}></div></div>}
@@ -886,62 +1793,41 @@ const PdfToTextView: React.FC<any> = ({ files, texts, progress, onExtract }) =>
   </div>
 );
 
-const PageGridInteraction: React.FC<any> = ({ interactionState, files, onStart, onDrop, draggingIndex, setDraggingIndex, onToggle, mode }) => {
-  if (!interactionState) {
-    return (
-      <div className="grid grid-cols-1 gap-4">
-        {files.map((f: any) => (
-          <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm tool-card-hover group">
-            <div className="flex items-center gap-4 shrink-0">
-               <div className={`w-14 h-14 rounded-2xl flex items-center justify-center ${mode === 'reorder' ? 'bg-indigo-50 text-indigo-500' : 'bg-rose-50 text-rose-500'}`}><FileText size={28}/></div>
-               <div><p className="font-extrabold text-slate-800 truncate max-w-xs">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages Available</p></div>
-            </div>
-            <button onClick={() => onStart(f.id)} className={`px-8 py-3 rounded-2xl text-xs font-black shadow-lg transition-all flex items-center gap-2 ${mode === 'reorder' ? 'bg-indigo-600 text-white shadow-indigo-100' : 'bg-rose-600 text-white shadow-rose-100'}`}>{mode === 'reorder' ? <LayoutGrid size={16}/> : <Eraser size={16}/>} Load Grid View</button>
-          </div>
-        ))}
+const PageEditorLauncher: React.FC<any> = ({ files, onOpen }) => (
+  <div className="grid grid-cols-1 gap-4">
+    {files.map((f: any) => (
+      <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm tool-card-hover group">
+        <div className="flex items-center gap-4 shrink-0">
+           <div className="w-14 h-14 rounded-2xl flex items-center justify-center bg-indigo-50 text-indigo-500"><FileText size={28}/></div>
+           <div><p className="font-extrabold text-slate-800 truncate max-w-xs">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages Available</p></div>
+        </div>
+        <button onClick={() => onOpen(f.id)} className="px-8 py-3 rounded-2xl text-xs font-black shadow-lg transition-all flex items-center gap-2 bg-indigo-600 text-white shadow-indigo-100"><LayoutGrid size={16}/> Open Page Editor</button>
       </div>
-    );
-  }
-  return (
-    <div className="space-y-8 animate-in fade-in duration-500">
-       <ToolHint icon={mode === 'reorder' ? <LayoutGrid size={18}/> : <Eraser size={18}/>} title={mode === 'reorder' ? 'Interactive Reorder' : 'Selection Trimmer'} description={mode === 'reorder' ? 'Drag and drop cards to change page positions.' : 'Click to mark pages for deletion.'} />
-       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
-          {interactionState.pageIndices.map((origIdx: number, currIdx: number) => {
-            const isSelected = interactionState.selectedIndices?.has(origIdx);
-            return (
-              <div 
-                key={origIdx} 
-                draggable={mode === 'reorder'}
-                onDragStart={() => setDraggingIndex(currIdx)}
-                onDragOver={e => e.preventDefault()}
-                onDrop={() => mode === 'reorder' && onDrop(currIdx)}
-                onClick={() => mode === 'delete' && onToggle(origIdx)}
-                className={`relative aspect-[1/1.4] rounded-3xl border-4 overflow-hidden transition-all duration-300 cursor-pointer ${draggingIndex === currIdx ? 'opacity-30 scale-90 border-indigo-500 border-dashed' : isSelected ? 'border-rose-500 shadow-2xl scale-95' : 'border-slate-100 bg-white hover:border-indigo-400 hover:shadow-2xl hover:z-10 hover:-translate-y-2'}`}
-              >
-                <img src={interactionState.thumbnails[origIdx]} className={`w-full h-full object-cover transition-all ${isSelected ? 'grayscale opacity-30' : ''}`}/>
-                <div className="absolute top-3 left-3 bg-slate-900/90 text-white text-[10px] font-black px-2.5 py-1 rounded-full shadow-lg">P{mode === 'reorder' ? currIdx + 1 : origIdx + 1}</div>
-                {isSelected && <div className="absolute inset-0 flex items-center justify-center"><div className="bg-rose-600 text-white p-3 rounded-full shadow-2xl animate-in zoom-in"><Trash2 size={24}/></div></div>}
-                {mode === 'reorder' && <div className="absolute bottom-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity"><div className="bg-white/90 p-1.5 rounded-lg shadow-xl border border-slate-200"><GripHorizontal size={16} className="text-slate-400"/></div></div>}
-              </div>
-            );
-          })}
-       </div>
-    </div>
-  );
-};
+    ))}
+  </div>
+);
 
 const getToolIcon = (tool: AppTool, size = 18) => {
   switch(tool) {
     case 'merge': return <Layers size={size}/>;
     case 'split': return <Scissors size={size}/>;
-    case 'reorder': return <LayoutGrid size={size}/>;
-    case 'delete-pages': return <Eraser size={size}/>;
+    case 'organize': return <LayoutGrid size={size}/>;
+    case 'bookmarks': return <BookMarked size={size}/>;
     case 'rotate': return <RefreshCw size={size}/>;
     case 'watermark': return <Stamp size={size}/>;
     case 'page-numbering': return <Hash size={size}/>;
     case 'pdf-to-image': return <ImageIcon size={size}/>;
     case 'image-to-pdf': return <ImagePlus size={size}/>;
     case 'pdf-to-text': return <Type size={size}/>;
+    case 'compare': return <GitCompare size={size}/>;
+    case 'metadata': return <Tags size={size}/>;
+    case 'pipeline': return <Workflow size={size}/>;
+    case 'encrypt': return <Lock size={size}/>;
+    case 'redact': return <EyeOff size={size}/>;
+    case 'compress': return <Minimize2 size={size}/>;
+    case 'forms': return <ClipboardList size={size}/>;
+    case 'sign': return <Signature size={size}/>;
+    case 'digital-sign': return <BadgeCheck size={size}/>;
     default: return <FileText size={size}/>;
   }
 };
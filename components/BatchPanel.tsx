@@ -0,0 +1,73 @@
+import React from 'react';
+import { PackageCheck, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { PDFFile } from '../types';
+import { BatchResult } from '../services/batchService';
+
+interface BatchPanelProps {
+  files: PDFFile[];
+  progress: Record<string, { current: number; total: number }>;
+  results: BatchResult[] | null;
+  isProcessing: boolean;
+  onRun: () => void;
+  rotation?: number;
+  setRotation?: (rotation: number) => void;
+}
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ files, progress, results, isProcessing, onRun, rotation, setRotation }) => {
+  const running = files.some(f => progress[f.id]);
+  const succeeded = results?.filter(r => r.status === 'success').length ?? 0;
+
+  return (
+    <div className="p-6 bg-slate-900 rounded-[2rem] space-y-4 shadow-xl shadow-slate-200">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-white/10 text-white"><PackageCheck size={18}/></div>
+          <div>
+            <h4 className="text-sm font-black text-white uppercase tracking-tight">Batch Mode</h4>
+            <p className="text-xs font-medium text-slate-400">Apply the current settings to all {files.length} files and download one ZIP.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {setRotation && (
+            <select value={rotation} onChange={e => setRotation(parseInt(e.target.value))} className="bg-white/10 text-white border border-white/10 px-3 py-2.5 rounded-xl text-xs font-bold focus:outline-none">
+              <option value={90}>+90°</option>
+              <option value={180}>180°</option>
+              <option value={270}>-90°</option>
+            </select>
+          )}
+          <button onClick={onRun} disabled={isProcessing || files.length === 0} className="px-6 py-2.5 bg-white text-slate-900 rounded-2xl text-xs font-black disabled:opacity-50 flex items-center gap-2">
+            {running && <Loader2 className="animate-spin" size={14}/>} Run on All
+          </button>
+        </div>
+      </div>
+
+      {(running || results) && (
+        <div className="space-y-2 pt-2 border-t border-white/10">
+          {results && !running && (
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{succeeded} of {results.length} succeeded</p>
+          )}
+          {files.map(f => {
+            const prog = progress[f.id];
+            const result = results?.find(r => r.fileId === f.id);
+            return (
+              <div key={f.id} className="flex items-center gap-3 text-xs">
+                <span className="w-4 shrink-0">
+                  {result?.status === 'success' && <CheckCircle2 size={14} className="text-emerald-400"/>}
+                  {result?.status === 'failed' && <XCircle size={14} className="text-rose-400"/>}
+                  {!result && prog && <Loader2 size={14} className="animate-spin text-indigo-300"/>}
+                </span>
+                <span className="font-bold text-slate-200 truncate max-w-xs">{f.name}</span>
+                {prog && (
+                  <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden"><div className="h-full bg-indigo-400 transition-all" style={{ width: `${(prog.current / prog.total) * 100}%` }}></div></div>
+                )}
+                {result?.error && <span className="text-rose-300 truncate">{result.error}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
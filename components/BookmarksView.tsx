@@ -0,0 +1,102 @@
+import React from 'react';
+import { BookMarked, FileText, Plus, Trash2, ChevronUp, ChevronDown, IndentIncrease, IndentDecrease, Save } from 'lucide-react';
+import { PDFFile, OutlineItem } from '../types';
+import {
+  createOutlineItem, updateOutlineItem, removeOutlineItem, moveOutlineItem, addOutlineChild,
+  indentOutlineItem, outdentOutlineItem, countOutlineItems
+} from '../utils/outlineTree';
+import ToolHint from './ToolHint';
+
+interface BookmarksViewProps {
+  files: PDFFile[];
+  target: PDFFile | null;
+  items: OutlineItem[];
+  setItems: (items: OutlineItem[]) => void;
+  onSelectFile: (fileId: string | null) => void;
+  onSave: () => void;
+}
+
+const iconButton = 'p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-indigo-600 disabled:opacity-20 disabled:hover:bg-transparent';
+
+const BookmarksView: React.FC<BookmarksViewProps> = ({ files, target, items, setItems, onSelectFile, onSave }) => {
+  if (!target) {
+    return (
+      <div className="space-y-6">
+        <ToolHint icon={<BookMarked size={18}/>} title="Bookmarks" description="View and edit the outline readers show beside a document. To build one from several files, merge them with file bookmarks turned on." />
+        <div className="grid grid-cols-1 gap-4">
+          {files.map(f => (
+            <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm tool-card-hover">
+              <div className="flex items-center gap-4 shrink-0">
+                <div className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-900 text-white"><FileText size={28}/></div>
+                <div><p className="font-extrabold text-slate-800 truncate max-w-xs">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages</p></div>
+              </div>
+              <button onClick={() => onSelectFile(f.id)} className="px-8 py-3 rounded-2xl text-xs font-black shadow-lg bg-indigo-600 text-white shadow-indigo-100 flex items-center gap-2"><BookMarked size={16}/> Edit Bookmarks</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const renderLevel = (level: OutlineItem[], depth: number): React.ReactNode => level.map((item, i) => (
+    <React.Fragment key={item.id}>
+      <div className="flex items-center gap-2 p-2 pr-3 bg-white border border-slate-100 rounded-2xl shadow-sm" style={{ marginLeft: depth * 28 }}>
+        <input
+          value={item.title}
+          onChange={e => setItems(updateOutlineItem(items, item.id, { title: e.target.value }))}
+          placeholder="Untitled"
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-transparent hover:border-slate-200 focus:border-slate-200 font-bold text-sm text-slate-800 focus:ring-4 focus:ring-indigo-100 outline-none"
+        />
+        <label className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0">
+          Page
+          <input
+            type="number"
+            min="1"
+            max={target.pageCount}
+            value={item.pageIndex === null ? '' : item.pageIndex + 1}
+            onChange={e => {
+              const page = parseInt(e.target.value);
+              setItems(updateOutlineItem(items, item.id, { pageIndex: isNaN(page) ? null : Math.min(target.pageCount, Math.max(1, page)) - 1 }));
+            }}
+            placeholder="—"
+            className="w-16 px-2 py-2 rounded-xl border border-slate-200 font-bold text-sm text-slate-700 text-center outline-none focus:ring-4 focus:ring-indigo-100"
+          />
+        </label>
+        <div className="flex items-center shrink-0">
+          <button onClick={() => setItems(moveOutlineItem(items, item.id, 'up'))} disabled={i === 0} title="Move up" className={iconButton}><ChevronUp size={14}/></button>
+          <button onClick={() => setItems(moveOutlineItem(items, item.id, 'down'))} disabled={i === level.length - 1} title="Move down" className={iconButton}><ChevronDown size={14}/></button>
+          <button onClick={() => setItems(outdentOutlineItem(items, item.id))} disabled={depth === 0} title="Move out of parent" className={iconButton}><IndentDecrease size={14}/></button>
+          <button onClick={() => setItems(indentOutlineItem(items, item.id))} disabled={i === 0} title="Nest under the bookmark above" className={iconButton}><IndentIncrease size={14}/></button>
+          <button onClick={() => setItems(addOutlineChild(items, item.id, createOutlineItem('New bookmark', item.pageIndex)))} title="Add nested bookmark" className={iconButton}><Plus size={14}/></button>
+          <button onClick={() => setItems(removeOutlineItem(items, item.id))} title="Delete with nested bookmarks" className={`${iconButton} hover:text-rose-600`}><Trash2 size={14}/></button>
+        </div>
+      </div>
+      {renderLevel(item.children, depth + 1)}
+    </React.Fragment>
+  ));
+
+  const count = countOutlineItems(items);
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<BookMarked size={18}/>} title="Bookmarks" description="Rename a bookmark by editing its title, point it at a page, and nest it under the one above. Bookmarks without a page are kept as headings." />
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm font-bold text-slate-700 truncate">{target.name} <span className="text-xs font-medium text-slate-400">· {count} bookmark{count === 1 ? '' : 's'}</span></p>
+        <div className="flex items-center gap-2 shrink-0">
+          <button onClick={() => onSelectFile(null)} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700">Back</button>
+          <button onClick={() => setItems([...items, createOutlineItem('New bookmark', 0)])} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 flex items-center gap-2"><Plus size={14}/> Add</button>
+          <button onClick={onSave} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white shadow-lg shadow-indigo-100 flex items-center gap-2"><Save size={14}/> Save</button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="p-10 text-center bg-slate-50 rounded-[2rem] border border-slate-200 text-sm font-bold text-slate-400">This document has no bookmarks yet.</div>
+      ) : (
+        <div className="space-y-2">{renderLevel(items, 0)}</div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarksView;
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitCompare, ArrowLeftRight, Columns2, Layers, FileCode, FileDown, Loader2 } from 'lucide-react';
+import { PDFFile, PageComparison } from '../types';
+import { describePagePair, isPageChanged, summarizeComparison } from '../utils/documentDiff';
+import { renderPageImage } from '../services/pdfService';
+import ToolHint from './ToolHint';
+
+export interface ComparisonSession {
+  original: PDFFile;
+  revised: PDFFile;
+  pages: PageComparison[];
+}
+
+interface CompareViewProps {
+  files: PDFFile[];
+  comparison: ComparisonSession | null;
+  progress: { current: number; total: number } | null;
+  onCompare: (originalId: string, revisedId: string) => void;
+  onExport: (format: 'html' | 'pdf') => void;
+}
+
+type DetailMode = 'side-by-side' | 'overlay';
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest';
+
+const selectClass = 'w-full bg-white border border-slate-200 px-4 py-2.5 rounded-xl font-bold text-sm text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:outline-none';
+
+/** Side-by-side pages are rendered at this scale, about the width of one column. */
+const PAGE_SCALE = 1;
+
+const changeLabel = (page: PageComparison) => {
+  if (page.leftIndex === null) return 'Added';
+  if (page.rightIndex === null) return 'Removed';
+  if (!isPageChanged(page)) return 'Identical';
+  return page.pixelChange > 0 ? `${Math.max(0.1, page.pixelChange * 100).toFixed(1)}% changed` : 'Text changed';
+};
+
+const SEGMENT_CLASSES = {
+  equal: 'text-slate-600',
+  insert: 'bg-emerald-100 text-emerald-800 rounded px-0.5',
+  delete: 'bg-rose-100 text-rose-800 line-through rounded px-0.5',
+};
+
+/** One page of one side, rendered on demand; blank where the page has no counterpart. */
+const ComparedPage: React.FC<{ file: File; pageIndex: number | null; label: string }> = ({ file, pageIndex, label }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    setUrl(null);
+    setFailed(false);
+    if (pageIndex === null) return;
+    const request = ++latestRequest.current;
+    renderPageImage(file, pageIndex, PAGE_SCALE)
+      .then(image => { if (request === latestRequest.current) setUrl(image); })
+      .catch(() => { if (request === latestRequest.current) setFailed(true); });
+  }, [file, pageIndex]);
+
+  return (
+    <div className="space-y-2">
+      <span className={labelClass}>{label}{pageIndex !== null && ` · Page ${pageIndex + 1}`}</span>
+      <div className="rounded-2xl overflow-hidden border border-slate-200 bg-slate-50 min-h-[12rem] flex items-center justify-center">
+        {pageIndex === null
+          ? <p className="p-6 text-center text-xs font-medium text-slate-400">No matching page</p>
+          : url ? <img src={url} className="w-full block" draggable={false}/>
+          : failed ? <p className="p-6 text-center text-xs font-bold text-rose-600">This page could not be rendered.</p>
+          : <Loader2 size={24} className="animate-spin text-indigo-500"/>}
+      </div>
+    </div>
+  );
+};
+
+const Overlay: React.FC<{ overlay: Blob }> = ({ overlay }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(overlay);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [overlay]);
+
+  return url ? <img src={url} className="w-full block rounded-2xl border border-slate-200" draggable={false}/> : null;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({
+  files, comparison, progress, onCompare, onExport
+}) => {
+  const pdfFiles = files.filter(f => f.type === 'pdf');
+  const [originalId, setOriginalId] = useState<string | null>(null);
+  const [revisedId, setRevisedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [mode, setMode] = useState<DetailMode>('side-by-side');
+
+  // A new comparison starts at its first difference
+  useEffect(() => {
+    if (!comparison) return;
+    const first = comparison.pages.findIndex(isPageChanged);
+    setSelected(Math.max(0, first));
+  }, [comparison]);
+
+  const original = pdfFiles.find(f => f.id === originalId) ?? pdfFiles[0];
+  const revised = pdfFiles.find(f => f.id === revisedId) ?? pdfFiles.find(f => f !== original);
+  const ready = !!original && !!revised && original !== revised;
+
+  const summary = comparison ? summarizeComparison(comparison.pages) : null;
+  const listed = comparison ? comparison.pages.map((page, i) => ({ page, i })).filter(({ page }) => !changedOnly || isPageChanged(page)) : [];
+  const current = comparison?.pages[selected];
+
+  return (
+    <div className="space-y-8">
+      <ToolHint icon={<GitCompare size={18}/>} title="Compare Documents" description="Pick the original and the revised version. Pages are matched by their text, so inserted and removed pages are found, then each pair is compared word by word and pixel by pixel." />
+
+      {pdfFiles.length < 2 ? (
+        <p className="p-6 bg-white border border-slate-100 rounded-3xl text-sm font-medium text-slate-500">Load at least two PDFs to compare them.</p>
+      ) : (
+        <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-end">
+            <div>
+              <label className={labelClass}>Original</label>
+              <select value={original?.id} onChange={e => setOriginalId(e.target.value)} className={selectClass}>
+                {pdfFiles.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+              </select>
+            </div>
+            <button onClick={() => { setOriginalId(revised?.id ?? null); setRevisedId(original?.id ?? null); }} title="Swap original and revised" className="p-3 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-indigo-600"><ArrowLeftRight size={16}/></button>
+            <div>
+              <label className={labelClass}>Revised</label>
+              <select value={revised?.id} onChange={e => setRevisedId(e.target.value)} className={selectClass}>
+                {pdfFiles.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs font-medium text-slate-400">{ready ? `${original.pageCount} pages against ${revised.pageCount} pages` : 'Choose two different files.'}</p>
+            <button onClick={() => ready && onCompare(original.id, revised.id)} disabled={!ready || !!progress} className="px-6 py-2.5 bg-indigo-600 text-white rounded-xl text-xs font-bold shadow-lg shadow-indigo-100 disabled:bg-slate-200 flex items-center gap-2"><GitCompare size={14}/> Compare</button>
+          </div>
+          {progress && <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.current / progress.total) * 100}%` }}></div></div>}
+        </div>
+      )}
+
+      {comparison && summary && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2 text-[10px] font-black uppercase tracking-widest">
+              <span className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600">{summary.changed} of {summary.pages} pages differ</span>
+              {summary.added > 0 && <span className="px-3 py-1.5 rounded-lg bg-emerald-50 text-emerald-700">{summary.added} added</span>}
+              {summary.removed > 0 && <span className="px-3 py-1.5 rounded-lg bg-rose-50 text-rose-700">{summary.removed} removed</span>}
+              <span className="px-3 py-1.5 rounded-lg bg-emerald-50 text-emerald-700">+{summary.wordsInserted} words</span>
+              <span className="px-3 py-1.5 rounded-lg bg-rose-50 text-rose-700">−{summary.wordsDeleted} words</span>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => onExport('html')} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 hover:border-indigo-300 flex items-center gap-2"><FileCode size={14}/> HTML Report</button>
+              <button onClick={() => onExport('pdf')} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 hover:border-indigo-300 flex items-center gap-2"><FileDown size={14}/> PDF Report</button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6 items-start">
+            <div className="p-3 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-2 lg:sticky lg:top-24">
+              <label className="flex items-center gap-2 px-2 py-1 text-xs font-bold text-slate-600">
+                <input type="checkbox" checked={changedOnly} onChange={e => setChangedOnly(e.target.checked)} className="accent-indigo-600"/> Changed pages only
+              </label>
+              <div className="max-h-[60vh] overflow-y-auto space-y-1">
+                {listed.length === 0 && <p className="px-2 py-4 text-xs font-medium text-slate-400">The documents match.</p>}
+                {listed.map(({ page, i }) => (
+                  <button key={i} onClick={() => setSelected(i)} className={`w-full text-left px-3 py-2 rounded-xl transition-all ${i === selected ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50'}`}>
+                    <p className="text-xs font-bold truncate">{describePagePair(page)}</p>
+                    <p className={`text-[10px] font-black uppercase tracking-widest ${page.leftIndex === null ? 'text-emerald-600' : page.rightIndex === null ? 'text-rose-600' : 'text-slate-400'}`}>{changeLabel(page)}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {current && (
+              <div className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-6">
+                <div className="flex items-center justify-between gap-4">
+                  <h4 className="text-sm font-black text-slate-900 uppercase tracking-tight">{describePagePair(current)}</h4>
+                  {current.overlay && (
+                    <div className="flex bg-slate-200/50 p-1 rounded-2xl">
+                      <button onClick={() => setMode('side-by-side')} className={`px-4 py-2 rounded-xl text-xs font-black flex items-center gap-2 transition-all ${mode === 'side-by-side' ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}><Columns2 size={14}/> Side by side</button>
+                      <button onClick={() => setMode('overlay')} className={`px-4 py-2 rounded-xl text-xs font-black flex items-center gap-2 transition-all ${mode === 'overlay' ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}><Layers size={14}/> Overlay</button>
+                    </div>
+                  )}
+                </div>
+
+                {current.overlay && mode === 'overlay' ? (
+                  <div className="space-y-2">
+                    <Overlay overlay={current.overlay}/>
+                    <p className="text-[10px] font-bold text-slate-400"><span className="text-rose-600">Red</span> was removed, <span className="text-emerald-600">green</span> was added.</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <ComparedPage file={comparison.original.file} pageIndex={current.leftIndex} label="Original"/>
+                    <ComparedPage file={comparison.revised.file} pageIndex={current.rightIndex} label="Revised"/>
+                  </div>
+                )}
+
+                <div>
+                  <span className={labelClass}>Text</span>
+                  {current.segments.length === 0 ? (
+                    <p className="text-xs font-medium text-slate-400">No text on this page.</p>
+                  ) : (
+                    <p className="text-sm leading-relaxed max-h-80 overflow-y-auto">
+                      {current.segments.map((segment, i) => <React.Fragment key={i}><span className={SEGMENT_CLASSES[segment.op]}>{segment.text}</span>{' '}</React.Fragment>)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
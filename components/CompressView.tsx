@@ -0,0 +1,64 @@
+import React from 'react';
+import { Minimize2, FileText, ArrowRight } from 'lucide-react';
+import { PDFFile, CompressionPreset, CompressionResult } from '../types';
+import { COMPRESSION_PRESETS } from '../services/pdfService';
+import ToolHint from './ToolHint';
+
+interface CompressViewProps {
+  files: PDFFile[];
+  preset: CompressionPreset;
+  setPreset: (preset: CompressionPreset) => void;
+  results: Record<string, CompressionResult>;
+  progress: Record<string, { current: number; total: number }>;
+  onCompress: (fileId: string) => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const CompressView: React.FC<CompressViewProps> = ({ files, preset, setPreset, results, progress, onCompress }) => (
+  <div className="space-y-6">
+    <ToolHint icon={<Minimize2 size={18}/>} title="Size Optimizer" description="Downsamples large images, merges duplicate fonts and images, and drops unused objects." />
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      {(Object.keys(COMPRESSION_PRESETS) as CompressionPreset[]).map(id => {
+        const p = COMPRESSION_PRESETS[id];
+        return (
+          <button key={id} onClick={() => setPreset(id)} className={`text-left p-5 rounded-[2rem] border-2 transition-all ${preset === id ? 'border-indigo-500 bg-indigo-50/50 shadow-lg shadow-indigo-100' : 'border-slate-100 bg-white hover:border-indigo-200'}`}>
+            <p className={`text-sm font-black uppercase tracking-widest ${preset === id ? 'text-indigo-600' : 'text-slate-700'}`}>{p.label}</p>
+            <p className="text-xs font-medium text-slate-400 mt-1">{p.description}</p>
+          </button>
+        );
+      })}
+    </div>
+    <div className="grid grid-cols-1 gap-3">
+      {files.map(f => {
+        const result = results[f.id];
+        const prog = progress[f.id];
+        const saved = result ? 1 - result.after / result.before : 0;
+        return (
+          <div key={f.id} className="p-5 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-4 min-w-0">
+                <div className="w-12 h-12 rounded-2xl bg-slate-50 flex items-center justify-center text-slate-300 shrink-0"><FileText size={24}/></div>
+                <div className="min-w-0">
+                  <p className="text-sm font-extrabold text-slate-800 truncate">{f.name}</p>
+                  {result ? (
+                    <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                      {formatSize(result.before)} <ArrowRight size={10}/> <span className={saved > 0 ? 'text-emerald-600' : ''}>{formatSize(result.after)}</span>
+                      <span className={saved > 0 ? 'text-emerald-600' : ''}>{saved > 0 ? `−${Math.round(saved * 100)}%` : 'already optimal'}</span>
+                    </p>
+                  ) : (
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{formatSize(f.size)}</p>
+                  )}
+                </div>
+              </div>
+              <button onClick={() => onCompress(f.id)} className="px-6 py-2.5 bg-indigo-600 text-white rounded-2xl text-xs font-black shrink-0">Compress</button>
+            </div>
+            {prog && <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 transition-all" style={{ width: `${(prog.current / prog.total) * 100}%` }}></div></div>}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default CompressView;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { FileKey, FileText, ShieldCheck, ShieldAlert, ShieldX, Loader2, X, BadgeCheck } from 'lucide-react';
+import { PDFFile, CertificateInfo, DigitalSignatureDetails, SignatureVerification } from '../types';
+import ToolHint from './ToolHint';
+
+interface DigitalSignViewProps {
+  files: PDFFile[];
+  certificate: CertificateInfo | null;
+  onLoadCertificate: (file: File, password: string) => void;
+  onClearCertificate: () => void;
+  details: DigitalSignatureDetails;
+  setDetails: (details: DigitalSignatureDetails) => void;
+  verifications: Record<string, SignatureVerification[]>;
+  onSign: (fileId: string) => void;
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleString();
+
+const commonName = (dn: string) => /(?:^|, )CN=([^,]+)/.exec(dn)?.[1] ?? dn;
+
+const statusOf = (v: SignatureVerification) => {
+  if (!v.intact) return { tone: 'rose', Icon: ShieldX, label: v.error ?? 'Invalid signature' };
+  if (!v.coversWholeDocument) return { tone: 'amber', Icon: ShieldAlert, label: 'Valid, but the document was changed after signing' };
+  if (!v.certificateValid) return { tone: 'amber', Icon: ShieldAlert, label: 'Valid, but the certificate was expired or not yet valid when signed' };
+  return { tone: 'emerald', Icon: ShieldCheck, label: 'Valid and unchanged since signing' };
+};
+
+const TONES: Record<string, string> = {
+  rose: 'bg-rose-50 border-rose-100 text-rose-700',
+  amber: 'bg-amber-50 border-amber-100 text-amber-700',
+  emerald: 'bg-emerald-50 border-emerald-100 text-emerald-700',
+};
+
+const DigitalSignView: React.FC<DigitalSignViewProps> = ({ files, certificate, onLoadCertificate, onClearCertificate, details, setDetails, verifications, onSign }) => {
+  const [p12, setP12] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<BadgeCheck size={18}/>} title="Digital Signatures" description="Sign with your own PKCS#12 certificate (.p12 or .pfx). The certificate and its password stay in this browser. Any later edit to a signed file invalidates the signature." />
+
+      {certificate ? (
+        <div className="flex items-start justify-between gap-4 p-6 bg-indigo-50/50 border border-indigo-100 rounded-[2rem]">
+          <div className="flex items-start gap-4 min-w-0">
+            <div className="w-12 h-12 rounded-2xl bg-indigo-600 text-white flex items-center justify-center shrink-0"><FileKey size={22}/></div>
+            <div className="min-w-0 space-y-1">
+              <p className="text-sm font-extrabold text-slate-800 truncate">{commonName(certificate.subject)}</p>
+              <p className="text-xs font-medium text-slate-500 truncate">{certificate.subject}</p>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                Valid {new Date(certificate.validFrom).toLocaleDateString()} – {new Date(certificate.validTo).toLocaleDateString()}
+                {certificate.selfSigned ? ' · self-signed' : ` · issued by ${commonName(certificate.issuer)}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={() => { onClearCertificate(); setPassword(''); }} title="Unload certificate" className="p-2 rounded-xl text-slate-400 hover:bg-white shrink-0"><X size={16}/></button>
+        </div>
+      ) : (
+        <form
+          onSubmit={e => { e.preventDefault(); if (p12) onLoadCertificate(p12, password); }}
+          className="p-6 bg-slate-50 rounded-[2rem] border border-slate-200 flex flex-wrap items-center gap-3"
+        >
+          <label className="flex-1 min-w-[12rem] px-5 py-3 rounded-2xl border border-dashed border-slate-300 bg-white text-sm font-bold text-slate-500 cursor-pointer truncate hover:border-indigo-300">
+            {p12 ? p12.name : 'Choose certificate (.p12, .pfx)'}
+            <input type="file" accept=".p12,.pfx,application/x-pkcs12" className="hidden" onChange={e => setP12(e.target.files?.[0] ?? null)}/>
+          </label>
+          <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Certificate password" className="flex-1 min-w-[12rem] px-5 py-3 rounded-2xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none"/>
+          <button type="submit" disabled={!p12} className="px-6 py-3 rounded-2xl text-xs font-black bg-slate-900 text-white disabled:opacity-30 flex items-center gap-2"><FileKey size={14}/> Load</button>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input value={details.reason} onChange={e => setDetails({ ...details, reason: e.target.value })} placeholder="Reason (optional), e.g. Approved" className="px-5 py-3 rounded-2xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none"/>
+        <input value={details.location} onChange={e => setDetails({ ...details, location: e.target.value })} placeholder="Location (optional)" className="px-5 py-3 rounded-2xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none"/>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4">
+        {files.map(f => {
+          const results = verifications[f.id];
+          return (
+            <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-900 text-white shrink-0"><FileText size={28}/></div>
+                  <div className="min-w-0">
+                    <p className="font-extrabold text-slate-800 truncate">{f.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {!results ? <span className="inline-flex items-center gap-1"><Loader2 size={10} className="animate-spin"/> Checking signatures</span> : results.length === 0 ? 'Not signed' : `${results.length} signature${results.length === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                </div>
+                <button onClick={() => onSign(f.id)} disabled={!certificate} className="px-8 py-3 rounded-2xl text-xs font-black shadow-lg bg-indigo-600 text-white shadow-indigo-100 disabled:opacity-30 disabled:shadow-none flex items-center gap-2 shrink-0"><BadgeCheck size={16}/> Sign</button>
+              </div>
+              {results?.map(v => {
+                const { tone, Icon, label } = statusOf(v);
+                return (
+                  <div key={v.fieldName} className={`flex items-start gap-3 p-4 rounded-2xl border ${TONES[tone]}`}>
+                    <Icon size={18} className="shrink-0 mt-0.5"/>
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="text-xs font-extrabold">{label}</p>
+                      <p className="text-[11px] font-medium opacity-80 truncate">
+                        {v.signer ? `Signed by ${commonName(v.signer.subject)}${v.signer.selfSigned ? ' (self-signed)' : `, issued by ${commonName(v.signer.issuer)}`}` : 'Signer unknown'}
+                        {v.signedAt ? ` · ${formatDate(v.signedAt)}` : ''}
+                        {v.reason ? ` · ${v.reason}` : ''}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DigitalSignView;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Lock, Printer, Copy, PenLine } from 'lucide-react';
+import { PDFFile, EncryptionConfig } from '../types';
+import ToolHint from './ToolHint';
+
+interface EncryptViewProps {
+  files: PDFFile[];
+  config: EncryptionConfig;
+  setConfig: (config: EncryptionConfig) => void;
+  onApply: (fileId: string) => void;
+}
+
+const PERMISSIONS: { key: keyof EncryptionConfig['permissions']; label: string; icon: React.ReactNode }[] = [
+  { key: 'print', label: 'Allow Printing', icon: <Printer size={16}/> },
+  { key: 'copy', label: 'Allow Copying', icon: <Copy size={16}/> },
+  { key: 'modify', label: 'Allow Editing', icon: <PenLine size={16}/> },
+];
+
+const EncryptView: React.FC<EncryptViewProps> = ({ files, config, setConfig, onApply }) => {
+  const hasPassword = !!(config.userPassword || config.ownerPassword);
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<Lock size={18}/>} title="Password Protection" description="The user password is needed to open the file. The owner password unlocks the restricted permissions." />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-8 bg-slate-50 rounded-[2.5rem] border border-slate-200">
+        <div className="space-y-4">
+          <div><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">User Password (to open)</label><input type="password" value={config.userPassword} onChange={e => setConfig({ ...config, userPassword: e.target.value })} className="w-full px-5 py-3 rounded-2xl border border-slate-200 font-bold focus:ring-4 focus:ring-indigo-100 outline-none"/></div>
+          <div><label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Owner Password (to change permissions)</label><input type="password" value={config.ownerPassword} onChange={e => setConfig({ ...config, ownerPassword: e.target.value })} className="w-full px-5 py-3 rounded-2xl border border-slate-200 font-bold focus:ring-4 focus:ring-indigo-100 outline-none"/></div>
+        </div>
+        <div className="space-y-4">
+          <div>
+            <label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Permissions</label>
+            <div className="space-y-2">
+              {PERMISSIONS.map(p => (
+                <label key={p.key} className="flex items-center gap-3 px-4 py-2.5 bg-white rounded-xl border border-slate-200 cursor-pointer">
+                  <input type="checkbox" checked={config.permissions[p.key]} onChange={e => setConfig({ ...config, permissions: { ...config.permissions, [p.key]: e.target.checked } })} className="accent-indigo-600"/>
+                  <span className="text-slate-400">{p.icon}</span>
+                  <span className="text-xs font-bold text-slate-700">{p.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest">Cipher</label>
+            <div className="flex bg-slate-200/50 p-1 rounded-2xl">
+              {(['AES-256', 'AES-128'] as const).map(a => <button key={a} onClick={() => setConfig({ ...config, algorithm: a })} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${config.algorithm === a ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}>{a}</button>)}
+            </div>
+          </div>
+        </div>
+      </div>
+      {files.map(f => (
+        <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm">
+          <h4 className="font-bold text-slate-800 truncate max-w-sm">{f.name}</h4>
+          <button onClick={() => onApply(f.id)} disabled={!hasPassword} className="px-6 py-2.5 bg-indigo-600 text-white rounded-2xl text-xs font-black shadow-lg disabled:bg-slate-200 disabled:shadow-none">Protect</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EncryptView;
@@ -0,0 +1,128 @@
+import React, { useRef } from 'react';
+import { ClipboardList, FileText, FileSpreadsheet, PenLine } from 'lucide-react';
+import { PDFFile, FormFieldInfo, FormFieldValue } from '../types';
+import ToolHint from './ToolHint';
+
+interface FormsViewProps {
+  files: PDFFile[];
+  target: PDFFile | null;
+  fields: FormFieldInfo[];
+  values: Record<string, FormFieldValue>;
+  setValue: (name: string, value: FormFieldValue) => void;
+  flatten: boolean;
+  setFlatten: (flatten: boolean) => void;
+  progress?: { current: number; total: number };
+  onSelectFile: (fileId: string | null) => void;
+  onApply: () => void;
+  onBulkFill: (dataFile: File) => void;
+}
+
+const inputClass = 'w-full px-4 py-2.5 rounded-xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none disabled:bg-slate-50 disabled:text-slate-400';
+
+const FieldInput: React.FC<{ field: FormFieldInfo; value: FormFieldValue; onChange: (value: FormFieldValue) => void }> = ({ field, value, onChange }) => {
+  switch (field.type) {
+    case 'text':
+      return field.multiline
+        ? <textarea value={String(value)} maxLength={field.maxLength} disabled={field.readOnly} onChange={e => onChange(e.target.value)} rows={3} className={inputClass}/>
+        : <input value={String(value)} maxLength={field.maxLength} disabled={field.readOnly} onChange={e => onChange(e.target.value)} className={inputClass}/>;
+    case 'checkbox':
+      return (
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={value === true} disabled={field.readOnly} onChange={e => onChange(e.target.checked)} className="accent-indigo-600 w-4 h-4"/> Checked
+        </label>
+      );
+    case 'radio':
+      return (
+        <div className="flex flex-wrap gap-3">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+              <input type="radio" name={field.name} checked={value === option} disabled={field.readOnly} onChange={() => onChange(option)} className="accent-indigo-600"/> {option}
+            </label>
+          ))}
+        </div>
+      );
+    case 'dropdown':
+      return (
+        <select value={String(value)} disabled={field.readOnly} onChange={e => onChange(e.target.value)} className={inputClass}>
+          <option value="">—</option>
+          {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    case 'option-list':
+      return (
+        <select multiple value={Array.isArray(value) ? value : []} disabled={field.readOnly} onChange={e => onChange(Array.from(e.target.selectedOptions, o => o.value))} className={inputClass}>
+          {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    default:
+      return <p className="text-xs font-medium text-slate-400 italic">{field.type === 'signature' ? 'Signature field, not filled here' : 'Button, nothing to fill'}</p>;
+  }
+};
+
+const FormsView: React.FC<FormsViewProps> = ({ files, target, fields, values, setValue, flatten, setFlatten, progress, onSelectFile, onApply, onBulkFill }) => {
+  const dataInput = useRef<HTMLInputElement>(null);
+
+  if (!target) {
+    return (
+      <div className="space-y-6">
+        <ToolHint icon={<ClipboardList size={18}/>} title="Form Filler" description="Fill the interactive fields of a PDF form, or fill it once per row of a CSV or JSON file." />
+        <div className="grid grid-cols-1 gap-4">
+          {files.map(f => (
+            <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm tool-card-hover">
+              <div className="flex items-center gap-4 shrink-0">
+                <div className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-900 text-white"><FileText size={28}/></div>
+                <div><p className="font-extrabold text-slate-800 truncate max-w-xs">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages</p></div>
+              </div>
+              <button onClick={() => onSelectFile(f.id)} className="px-8 py-3 rounded-2xl text-xs font-black shadow-lg bg-indigo-600 text-white shadow-indigo-100 flex items-center gap-2"><ClipboardList size={16}/> Open Form</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<ClipboardList size={18}/>} title="Form Filler" description="For bulk filling, name the data columns after the fields below. An optional filename column names each output file." />
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm font-bold text-slate-700 truncate">{target.name} <span className="text-xs font-medium text-slate-400">· {fields.length} field{fields.length === 1 ? '' : 's'}</span></p>
+        <div className="flex items-center gap-2 shrink-0">
+          <label className="flex items-center gap-2 px-3 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={flatten} onChange={e => setFlatten(e.target.checked)} className="accent-indigo-600"/> Flatten
+          </label>
+          <button onClick={() => onSelectFile(null)} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700">Back</button>
+          <button onClick={() => dataInput.current?.click()} disabled={fields.length === 0} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 disabled:opacity-30 flex items-center gap-2"><FileSpreadsheet size={14}/> Bulk Fill</button>
+          <button onClick={onApply} disabled={fields.length === 0} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white shadow-lg shadow-indigo-100 disabled:opacity-30 flex items-center gap-2"><PenLine size={14}/> Apply</button>
+          <input
+            ref={dataInput}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={e => { const data = e.target.files?.[0]; e.target.value = ''; if (data) onBulkFill(data); }}
+          />
+        </div>
+      </div>
+
+      {progress && <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.current / progress.total) * 100}%` }}></div></div>}
+
+      {fields.length === 0 ? (
+        <div className="p-10 text-center bg-slate-50 rounded-[2rem] border border-slate-200 text-sm font-bold text-slate-400">This document has no form fields.</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <div key={field.name} className="p-5 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs font-extrabold text-slate-700 truncate" title={field.name}>{field.name}{field.required && <span className="text-rose-500"> *</span>}</p>
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">{field.type.replace('-', ' ')}{field.readOnly ? ' · read-only' : ''}</span>
+              </div>
+              <FieldInput field={field} value={values[field.name] ?? field.value} onChange={value => setValue(field.name, value)} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormsView;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { History, Undo2, Redo2, Download, X, GitBranch } from 'lucide-react';
+import { PDFFile, DocumentHistory, DocumentVersion } from '../types';
+
+interface HistoryPanelProps {
+  files: PDFFile[];
+  histories: Record<string, DocumentHistory>;
+  activeFileId: string | null;
+  onUndo: (fileId: string) => void;
+  onRedo: (fileId: string) => void;
+  onCheckout: (fileId: string, index: number) => void;
+  onExport: (fileId: string, version: DocumentVersion) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ files, histories, activeFileId, onUndo, onRedo, onCheckout, onExport, onClose }) => {
+  const tracked = files.filter(f => histories[f.id]);
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 z-[90] w-full max-w-sm bg-white border-l border-slate-200 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-indigo-50 text-indigo-600"><History size={18}/></div>
+          <div>
+            <h3 className="text-sm font-black text-slate-900 uppercase tracking-tight">Version History</h3>
+            <p className="text-[10px] font-medium text-slate-400">Ctrl+Z to undo · Ctrl+Shift+Z to redo</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="text-slate-300 hover:text-slate-700"><X size={20}/></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+        {tracked.length === 0 && (
+          <p className="text-center text-sm font-medium text-slate-400 py-10">No edits yet. Each applied operation creates a new version here.</p>
+        )}
+        {tracked.map(f => {
+          const history = histories[f.id];
+          return (
+            <div key={f.id} className={`space-y-3 p-4 rounded-3xl border ${activeFileId === f.id ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-100'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-sm font-bold text-slate-800 truncate">{f.name}</h4>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => onUndo(f.id)} disabled={history.index === 0} title="Undo" className="p-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-white disabled:opacity-30 transition-all"><Undo2 size={16}/></button>
+                  <button onClick={() => onRedo(f.id)} disabled={history.index === history.versions.length - 1} title="Redo" className="p-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-white disabled:opacity-30 transition-all"><Redo2 size={16}/></button>
+                </div>
+              </div>
+              <ol className="space-y-1.5">
+                {history.versions.map((v, i) => {
+                  const isCurrent = i === history.index;
+                  const isAhead = i > history.index;
+                  return (
+                    <li key={v.id} className={`group flex items-center gap-3 px-3 py-2 rounded-xl cursor-pointer transition-all ${isCurrent ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-100' : 'hover:bg-slate-50'} ${isAhead ? 'opacity-50' : ''}`} onClick={() => onCheckout(f.id, i)}>
+                      <span className={`text-[9px] font-black w-6 ${isCurrent ? 'text-indigo-200' : 'text-slate-400'}`}>v{i}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-xs font-bold truncate ${isCurrent ? 'text-white' : 'text-slate-700'}`}>{v.label}</p>
+                        <p className={`text-[10px] ${isCurrent ? 'text-indigo-200' : 'text-slate-400'}`}>{new Date(v.createdAt).toLocaleTimeString()} · {v.pageCount} pgs · {(v.size / 1024 / 1024).toFixed(2)} MB</p>
+                      </div>
+                      <button onClick={(e) => { e.stopPropagation(); onExport(f.id, v); }} title="Export this version" className={`p-1.5 rounded-lg transition-all ${isCurrent ? 'text-white hover:bg-white/20' : 'text-slate-300 opacity-0 group-hover:opacity-100 hover:text-indigo-600'}`}><Download size={14}/></button>
+                    </li>
+                  );
+                })}
+              </ol>
+              {history.index < history.versions.length - 1 && (
+                <p className="flex items-center gap-1.5 text-[10px] font-bold text-amber-600"><GitBranch size={12}/> Applying a new operation here discards the later versions.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Tags, FileText, Pencil, Eraser, Save, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { PDFFile, DocumentMetadata, MetadataInspection, SanitizeReport } from '../types';
+import ToolHint from './ToolHint';
+
+interface MetadataViewProps {
+  files: PDFFile[];
+  inspections: Record<string, MetadataInspection>;
+  isInspecting: boolean;
+  onSave: (fileId: string, metadata: DocumentMetadata) => void;
+  onApplyToAll: (changes: Partial<DocumentMetadata>) => void;
+  onSanitize: (fileIds: string[]) => void;
+}
+
+type TextField = Exclude<keyof DocumentMetadata, 'creationDate' | 'modificationDate'>;
+
+const TEXT_FIELDS: [TextField, string][] = [
+  ['title', 'Title'],
+  ['author', 'Author'],
+  ['subject', 'Subject'],
+  ['keywords', 'Keywords'],
+  ['creator', 'Creator application'],
+  ['producer', 'Producer'],
+];
+
+const DATE_FIELDS: ['creationDate' | 'modificationDate', string][] = [
+  ['creationDate', 'Created'],
+  ['modificationDate', 'Modified'],
+];
+
+const FINDING_LABELS: [keyof SanitizeReport, string, string][] = [
+  ['metadataFields', 'info field', 'info fields'],
+  ['xmpStreams', 'XMP packet', 'XMP packets'],
+  ['scripts', 'script', 'scripts'],
+  ['attachments', 'attachment', 'attachments'],
+  ['hiddenLayers', 'hidden layer', 'hidden layers'],
+];
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest';
+
+const inputClass = 'w-full bg-white border border-slate-200 px-4 py-2.5 rounded-xl font-bold text-sm text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:outline-none';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** datetime-local inputs work in local time without a zone. */
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const fromLocalInput = (value: string) => value ? new Date(value).toISOString() : null;
+
+const findingBadges = (findings: SanitizeReport) => FINDING_LABELS
+  .filter(([key]) => findings[key] > 0)
+  .map(([key, one, many]) => `${findings[key]} ${findings[key] === 1 ? one : many}`);
+
+const MetadataView: React.FC<MetadataViewProps> = ({ files, inspections, isInspecting, onSave, onApplyToAll, onSanitize }) => {
+  const pdfFiles = files.filter(f => f.type === 'pdf');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DocumentMetadata | null>(null);
+  const [bulk, setBulk] = useState<Partial<Record<TextField, string>>>({});
+  const [xmpOpenId, setXmpOpenId] = useState<string | null>(null);
+
+  const startEditing = (fileId: string) => {
+    setEditingId(fileId);
+    setDraft(inspections[fileId].metadata);
+  };
+
+  const bulkChanges = Object.fromEntries(Object.entries(bulk).filter(([, value]) => value?.trim())) as Partial<DocumentMetadata>;
+
+  return (
+    <div className="space-y-8">
+      <ToolHint icon={<Tags size={18}/>} title="Document Properties" description="Readers show the title and author, but files also carry the creating software, dates, XMP, scripts and attachments. Sanitize a file before sharing it to strip everything that is not page content." />
+
+      {pdfFiles.length > 1 && (
+        <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-200 space-y-4">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Apply to all {pdfFiles.length} files</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {TEXT_FIELDS.map(([field, label]) => (
+              <div key={field}>
+                <label className={labelClass}>{label}</label>
+                <input value={bulk[field] ?? ''} onChange={e => setBulk({ ...bulk, [field]: e.target.value })} placeholder="Leave unchanged" className={inputClass}/>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => onSanitize(pdfFiles.map(f => f.id))} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 hover:text-rose-600 hover:border-rose-200 flex items-center gap-2"><Eraser size={14}/> Sanitize All</button>
+            <button onClick={() => { onApplyToAll(bulkChanges); setBulk({}); }} disabled={Object.keys(bulkChanges).length === 0} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white shadow-lg shadow-indigo-100 disabled:bg-slate-200 disabled:shadow-none flex items-center gap-2"><Save size={14}/> Apply</button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4">
+        {pdfFiles.map(f => {
+          const inspection = inspections[f.id];
+          const badges = inspection ? findingBadges(inspection.findings) : [];
+          const isEditing = editingId === f.id && draft;
+          return (
+            <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-12 h-12 bg-indigo-50 rounded-2xl flex items-center justify-center text-indigo-500 shrink-0"><FileText size={24}/></div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-800 truncate">{f.name}</p>
+                    <p className="text-xs text-slate-400 truncate">{inspection ? (inspection.metadata.title || 'Untitled') + (inspection.metadata.author ? ` · ${inspection.metadata.author}` : '') : isInspecting ? 'Reading properties...' : 'Properties could not be read'}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button onClick={() => onSanitize([f.id])} disabled={!inspection || badges.length === 0} title={badges.length === 0 ? 'Nothing to remove' : `Remove ${badges.join(', ')}`} className="px-4 py-2 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 hover:text-rose-600 hover:border-rose-200 disabled:opacity-40 disabled:hover:text-slate-700 disabled:hover:border-slate-200 flex items-center gap-2"><Eraser size={14}/> Sanitize</button>
+                  <button onClick={() => isEditing ? setEditingId(null) : startEditing(f.id)} disabled={!inspection} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold shadow-lg shadow-indigo-100 disabled:bg-slate-200 flex items-center gap-2"><Pencil size={14}/> {isEditing ? 'Close' : 'Edit'}</button>
+                </div>
+              </div>
+
+              {!inspection && isInspecting && <div className="flex justify-center"><Loader2 size={18} className="animate-spin text-indigo-500"/></div>}
+
+              {inspection && (
+                <div className="flex flex-wrap gap-2 text-[10px] font-black uppercase tracking-widest">
+                  {badges.length === 0
+                    ? <span className="px-3 py-1.5 rounded-lg bg-emerald-50 text-emerald-700">Clean</span>
+                    : badges.map(badge => <span key={badge} className="px-3 py-1.5 rounded-lg bg-amber-50 text-amber-700">{badge}</span>)}
+                </div>
+              )}
+
+              {isEditing && (
+                <div className="space-y-4 pt-2">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {TEXT_FIELDS.map(([field, label]) => (
+                      <div key={field}>
+                        <label className={labelClass}>{label}</label>
+                        <input value={draft[field]} onChange={e => setDraft({ ...draft, [field]: e.target.value })} className={inputClass}/>
+                      </div>
+                    ))}
+                    {DATE_FIELDS.map(([field, label]) => (
+                      <div key={field}>
+                        <label className={labelClass}>{label}</label>
+                        <input type="datetime-local" value={toLocalInput(draft[field])} onChange={e => setDraft({ ...draft, [field]: fromLocalInput(e.target.value) })} className={inputClass}/>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <button onClick={() => { onSave(f.id, draft); setEditingId(null); }} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white shadow-lg shadow-indigo-100 flex items-center gap-2"><Save size={14}/> Save</button>
+                  </div>
+                </div>
+              )}
+
+              {inspection?.xmp && (
+                <div>
+                  <button onClick={() => setXmpOpenId(xmpOpenId === f.id ? null : f.id)} className="flex items-center gap-1 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">
+                    {xmpOpenId === f.id ? <ChevronUp size={12}/> : <ChevronDown size={12}/>} XMP packet
+                  </button>
+                  {xmpOpenId === f.id && <pre className="mt-2 p-4 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] text-slate-600 max-h-64 overflow-auto whitespace-pre-wrap break-all">{inspection.xmp}</pre>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MetadataView;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { RotateCw, RotateCcw, Copy, Trash2, FilePlus, SquareCheck, Square, GripHorizontal, LayoutGrid, FileText, Plus } from 'lucide-react';
+import { PDFFile } from '../types';
+import ToolHint from './ToolHint';
+import PageThumbnail from './PageThumbnail';
+import {
+  PageSlot, createBlankSlot, createSourceSlot, duplicateSlots, insertSlots, moveSlot, removeSlots, rotateSlots
+} from '../utils/pagePlan';
+
+type DragItem = { slotIndex: number } | { fileId: string; pageIndex: number };
+
+interface PageEditorProps {
+  target: PDFFile;
+  files: PDFFile[];
+  slots: PageSlot[];
+  selected: Set<string>;
+  onChange: (slots: PageSlot[], selected: Set<string>) => void;
+}
+
+const PageEditor: React.FC<PageEditorProps> = ({ target, files, slots, selected, onChange }) => {
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [shownSources, setShownSources] = useState<Set<string>>(new Set());
+  const sources = files.filter(f => f.type === 'pdf' && f.id !== target.id);
+  const none = new Set<string>();
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    next.has(key) ? next.delete(key) : next.add(key);
+    onChange(slots, next);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragging) {
+      if ('slotIndex' in dragging) {
+        // The dragged card takes the drop target's position; the trailing drop zone means "last"
+        const to = Math.min(index, slots.length - 1);
+        if (to !== dragging.slotIndex) onChange(moveSlot(slots, dragging.slotIndex, to), selected);
+      } else {
+        onChange(insertSlots(slots, index, [createSourceSlot(dragging.fileId, dragging.pageIndex)]), selected);
+      }
+    }
+    setDragging(null);
+    setDropIndex(null);
+  };
+
+  // Blank pages go after the last selected page, or at the end when nothing is selected
+  const insertBlank = () => {
+    const lastSelected = slots.reduce((last, s, i) => selected.has(s.key) ? i : last, -1);
+    const at = lastSelected === -1 ? slots.length : lastSelected + 1;
+    onChange(insertSlots(slots, at, [createBlankSlot()]), selected);
+  };
+
+  const dropProps = (index: number) => ({
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); setDropIndex(index); },
+    onDrop: (e: React.DragEvent) => { e.preventDefault(); handleDrop(index); },
+  });
+
+  const toolbarButton = 'px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 transition-all disabled:opacity-30';
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <ToolHint icon={<LayoutGrid size={18}/>} title="Page Editor" description="Drag to reorder, click to select, or drag pages in from other files. Nothing is written until you commit." />
+
+      <div className="sticky top-0 z-20 flex flex-wrap items-center gap-2 p-3 bg-white/90 backdrop-blur border border-slate-200 rounded-2xl shadow-sm">
+        <span className="px-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">{selected.size} / {slots.length} selected</span>
+        <button onClick={() => onChange(slots, selected.size === slots.length ? none : new Set(slots.map(s => s.key)))} className={`${toolbarButton} text-slate-600 hover:bg-slate-100`}>
+          {selected.size === slots.length ? <Square size={14}/> : <SquareCheck size={14}/>} {selected.size === slots.length ? 'None' : 'All'}
+        </button>
+        <div className="w-px h-6 bg-slate-200 mx-1"/>
+        <button disabled={selected.size === 0} onClick={() => onChange(rotateSlots(slots, selected, -90), selected)} className={`${toolbarButton} text-slate-600 hover:bg-slate-100`}><RotateCcw size={14}/> Left</button>
+        <button disabled={selected.size === 0} onClick={() => onChange(rotateSlots(slots, selected, 90), selected)} className={`${toolbarButton} text-slate-600 hover:bg-slate-100`}><RotateCw size={14}/> Right</button>
+        <button disabled={selected.size === 0} onClick={() => onChange(duplicateSlots(slots, selected), selected)} className={`${toolbarButton} text-slate-600 hover:bg-slate-100`}><Copy size={14}/> Duplicate</button>
+        <button onClick={insertBlank} className={`${toolbarButton} text-slate-600 hover:bg-slate-100`}><FilePlus size={14}/> Blank Page</button>
+        <button disabled={selected.size === 0 || selected.size === slots.length} onClick={() => onChange(removeSlots(slots, selected), none)} className={`${toolbarButton} text-rose-600 hover:bg-rose-50 ml-auto`}><Trash2 size={14}/> Delete</button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6" onDragEnd={() => { setDragging(null); setDropIndex(null); }}>
+        {slots.map((slot, index) => {
+          const isSelected = selected.has(slot.key);
+          const isDragged = !!dragging && 'slotIndex' in dragging && dragging.slotIndex === index;
+          const sourceFile = slot.source ? files.find(f => f.id === slot.source!.fileId)?.file : undefined;
+          const origin = slot.source && slot.source.fileId !== target.id ? files.find(f => f.id === slot.source!.fileId) : null;
+          return (
+            <div
+              key={slot.key}
+              draggable
+              onDragStart={() => setDragging({ slotIndex: index })}
+              {...dropProps(index)}
+              onClick={() => toggle(slot.key)}
+              className={`group relative aspect-[1/1.4] rounded-3xl border-4 overflow-hidden transition-all duration-300 cursor-pointer bg-white ${isDragged ? 'opacity-30 scale-90 border-indigo-500 border-dashed' : isSelected ? 'border-indigo-500 shadow-2xl scale-95' : 'border-slate-100 hover:border-indigo-400 hover:shadow-2xl hover:z-10 hover:-translate-y-2'} ${dropIndex === index && !isDragged ? 'ring-4 ring-indigo-300 ring-offset-4' : ''}`}
+            >
+              <div className="w-full h-full flex items-center justify-center transition-transform duration-300" style={{ transform: `rotate(${slot.rotation}deg)` }}>
+                {slot.source
+                  ? sourceFile ? <PageThumbnail file={sourceFile} pageIndex={slot.source.pageIndex} className="w-full h-full flex items-center" imageClassName="w-full h-full object-contain"/> : <FileText size={32} className="text-slate-200"/>
+                  : <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Blank</span>}
+              </div>
+              <div className="absolute top-3 left-3 bg-slate-900/90 text-white text-[10px] font-black px-2.5 py-1 rounded-full shadow-lg">P{index + 1}</div>
+              {origin && <div className="absolute bottom-3 left-3 right-12 bg-amber-500/90 text-white text-[9px] font-black px-2 py-0.5 rounded-full truncate" title={origin.name}>{origin.name}</div>}
+              {isSelected && <div className="absolute top-3 right-3 bg-indigo-600 text-white p-1 rounded-full shadow-lg"><SquareCheck size={14}/></div>}
+              <div className="absolute bottom-3 right-3 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={(e) => { e.stopPropagation(); onChange(rotateSlots(slots, new Set([slot.key]), 90), selected); }} title="Rotate 90°" className="bg-white/90 p-1.5 rounded-lg shadow-xl border border-slate-200 text-slate-500 hover:text-indigo-600"><RotateCw size={14}/></button>
+                <div className="bg-white/90 p-1.5 rounded-lg shadow-xl border border-slate-200"><GripHorizontal size={14} className="text-slate-400"/></div>
+              </div>
+            </div>
+          );
+        })}
+        <div {...dropProps(slots.length)} onClick={insertBlank} className={`aspect-[1/1.4] rounded-3xl border-4 border-dashed flex flex-col items-center justify-center gap-2 cursor-pointer transition-all ${dropIndex === slots.length ? 'border-indigo-400 bg-indigo-50 text-indigo-500' : 'border-slate-200 text-slate-300 hover:border-indigo-300 hover:text-indigo-400'}`}>
+          <Plus size={24}/>
+          <span className="text-[10px] font-black uppercase tracking-widest">Blank Page</span>
+        </div>
+      </div>
+
+      {sources.length > 0 && (
+        <div className="space-y-3 pt-6 border-t border-slate-100">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Other files · drag pages into the grid</h4>
+          {sources.map(f => {
+            const isShown = shownSources.has(f.id);
+            return (
+              <div key={f.id} className="p-4 bg-slate-50 border border-slate-100 rounded-3xl space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm font-bold text-slate-700 truncate">{f.name} <span className="text-xs font-medium text-slate-400">· {f.pageCount} pgs</span></p>
+                  {!isShown && (
+                    <button onClick={() => setShownSources(new Set(shownSources).add(f.id))} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-slate-200 text-slate-600 hover:text-indigo-600 flex items-center gap-1.5">
+                      <LayoutGrid size={12}/> Show Pages
+                    </button>
+                  )}
+                </div>
+                {isShown && (
+                  <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+                    {Array.from({ length: f.pageCount }, (_, pageIndex) => (
+                      <div
+                        key={pageIndex}
+                        draggable
+                        onDragStart={() => setDragging({ fileId: f.id, pageIndex })}
+                        onDoubleClick={() => onChange(insertSlots(slots, slots.length, [createSourceSlot(f.id, pageIndex)]), selected)}
+                        title="Drag into the grid, or double-click to append"
+                        className="relative shrink-0 w-20 aspect-[1/1.4] rounded-xl border-2 border-slate-200 bg-white overflow-hidden cursor-grab hover:border-amber-400 transition-all"
+                      >
+                        <PageThumbnail file={f.file} pageIndex={pageIndex} className="w-full h-full flex items-center" imageClassName="w-full h-full object-contain"/>
+                        <span className="absolute top-1 left-1 bg-slate-900/80 text-white text-[8px] font-black px-1.5 rounded-full">{pageIndex + 1}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageEditor;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Hash, FileType, FlipHorizontal } from 'lucide-react';
+import { PDFFile, PageNumberConfig, HeaderFooterSlots, PageNumberStyle, StampFont, EmbeddedFont } from '../types';
+import { HEADER_FOOTER_VARIABLES, formatBatesNumber } from '../utils/textTemplate';
+import ToolHint from './ToolHint';
+
+interface PageNumberViewProps {
+  files: PDFFile[];
+  config: PageNumberConfig;
+  setConfig: (config: PageNumberConfig) => void;
+  onApply: (fileId: string) => void;
+}
+
+type Row = 'header' | 'footer';
+
+type Slot = keyof HeaderFooterSlots;
+
+const SLOTS: Slot[] = ['left', 'center', 'right'];
+
+const NUMBER_STYLES: [PageNumberStyle, string][] = [['arabic', '1, 2, 3'], ['roman-lower', 'i, ii, iii'], ['roman-upper', 'I, II, III']];
+
+const FONTS: [StampFont, string][] = [['helvetica', 'Helvetica'], ['times', 'Times'], ['courier', 'Courier'], ['custom', 'Custom font…']];
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest';
+
+const inputClass = 'w-full px-4 py-2.5 rounded-xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none';
+
+const readFont = (file: File): Promise<EmbeddedFont> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ name: file.name, dataUrl: reader.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const PageNumberView: React.FC<PageNumberViewProps> = ({ files, config, setConfig, onApply }) => {
+  // Token buttons insert into whichever slot was edited last
+  const [focused, setFocused] = useState<{ row: Row; slot: Slot }>({ row: 'footer', slot: 'center' });
+  const set = (change: Partial<PageNumberConfig>) => setConfig({ ...config, ...change });
+  const setSlot = (row: Row, slot: Slot, text: string) => set({ [row]: { ...config[row], [slot]: text } });
+  const ready = [config.header, config.footer].some(row => SLOTS.some(slot => row[slot].trim())) && (config.font !== 'custom' || !!config.customFont);
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<Hash size={18}/>} title="Pagination Engine" description="Fill the header and footer with page numbers, file names, dates or Bates numbers. In batch mode Bates numbers continue from one file to the next in workspace order." />
+      <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-200 space-y-6">
+        {(['header', 'footer'] as Row[]).map(row => (
+          <div key={row}>
+            <label className={labelClass}>{row}</label>
+            <div className="grid grid-cols-3 gap-3">
+              {SLOTS.map(slot => (
+                <input
+                  key={slot}
+                  value={config[row][slot]}
+                  onChange={e => setSlot(row, slot, e.target.value)}
+                  onFocus={() => setFocused({ row, slot })}
+                  placeholder={slot}
+                  className={`${inputClass} ${slot === 'center' ? 'text-center' : slot === 'right' ? 'text-right' : ''} ${focused.row === row && focused.slot === slot ? 'border-indigo-300' : ''}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Insert into {focused.row} {focused.slot}</span>
+          {HEADER_FOOTER_VARIABLES.map(name => (
+            <button key={name} onClick={() => setSlot(focused.row, focused.slot, `${config[focused.row][focused.slot]}{${name}}`)} className="px-2 py-1 rounded-lg bg-white border border-slate-200 text-[10px] font-bold text-slate-500 hover:border-indigo-300 hover:text-indigo-600">{`{${name}}`}</button>
+          ))}
+        </div>
+
+        <div>
+          <label className={labelClass}>Bates numbering · {formatBatesNumber(config.bates, config.bates.start)}</label>
+          <div className="grid grid-cols-4 gap-3">
+            <input value={config.bates.prefix} onChange={e => set({ bates: { ...config.bates, prefix: e.target.value } })} placeholder="Prefix" className={inputClass}/>
+            <input type="number" min="1" max="12" value={config.bates.digits} onChange={e => set({ bates: { ...config.bates, digits: Math.max(1, Math.min(12, parseInt(e.target.value) || 1)) } })} title="Digits" className={inputClass}/>
+            <input value={config.bates.suffix} onChange={e => set({ bates: { ...config.bates, suffix: e.target.value } })} placeholder="Suffix" className={inputClass}/>
+            <input type="number" min="0" value={config.bates.start} onChange={e => set({ bates: { ...config.bates, start: Math.max(0, parseInt(e.target.value) || 0) } })} title="Starting number" className={inputClass}/>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>Font</label>
+            <select value={config.font} onChange={e => set({ font: e.target.value as StampFont })} className={inputClass}>
+              {FONTS.map(([font, label]) => <option key={font} value={font}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Numbers</label>
+            <select value={config.numberStyle} onChange={e => set({ numberStyle: e.target.value as PageNumberStyle })} className={inputClass}>
+              {NUMBER_STYLES.map(([style, label]) => <option key={style} value={style}>{label}</option>)}
+            </select>
+          </div>
+          <div><label className={labelClass}>Size ({config.fontSize})</label><input type="range" min="6" max="32" value={config.fontSize} onChange={e => set({ fontSize: parseInt(e.target.value) })} className="w-full accent-indigo-600"/></div>
+          <div><label className={labelClass}>Color</label><input type="color" value={config.color} onChange={e => set({ color: e.target.value })} className="w-full h-10 rounded-xl border-none cursor-pointer p-0"/></div>
+          <div><label className={labelClass}>Margin ({config.margin} pt)</label><input type="range" min="6" max="96" step="2" value={config.margin} onChange={e => set({ margin: parseInt(e.target.value) })} className="w-full accent-indigo-600"/></div>
+          <div>
+            <label className={labelClass}>Skip first pages</label>
+            <input type="number" min="0" value={config.skipFirst} onChange={e => set({ skipFirst: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass}/>
+          </div>
+          <div className="col-span-2 flex items-end">
+            <label className="flex items-center gap-3 px-4 py-2.5 rounded-xl bg-white border border-slate-200 cursor-pointer text-xs font-bold text-slate-700">
+              <input type="checkbox" checked={config.mirrorEven} onChange={e => set({ mirrorEven: e.target.checked })} className="accent-indigo-600"/>
+              <FlipHorizontal size={14}/> Swap left and right on even pages
+            </label>
+          </div>
+        </div>
+
+        {config.font === 'custom' && (
+          <label className="flex items-center gap-3 px-5 py-3 rounded-2xl border-2 border-dashed border-slate-300 bg-white cursor-pointer text-xs font-bold text-slate-500 hover:border-indigo-300">
+            <FileType size={16}/> {config.customFont ? config.customFont.name : 'Choose a TrueType or OpenType font (.ttf, .otf)'}
+            <input type="file" accept=".ttf,.otf,font/ttf,font/otf" className="hidden" onChange={async e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) set({ customFont: await readFont(file) }); }}/>
+          </label>
+        )}
+      </div>
+      {files.map(f => (
+        <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm">
+          <h4 className="font-bold text-slate-800 truncate max-w-sm">{f.name}</h4>
+          <button onClick={() => onApply(f.id)} disabled={!ready} className="px-6 py-2.5 bg-slate-900 text-white rounded-2xl text-xs font-black disabled:opacity-30">Add Numbers</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PageNumberView;
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, FileWarning } from 'lucide-react';
+import { peekThumbnail, requestThumbnail } from '../services/thumbnailCache';
+
+interface PageThumbnailProps {
+  file: File;
+  pageIndex: number;
+  className?: string;
+  imageClassName?: string;
+}
+
+/** Start rendering a little before a page scrolls into view. */
+const PREFETCH_MARGIN = '400px';
+
+/**
+ * One page of a thumbnail grid. It renders only while on screen, so grids of documents with
+ * hundreds of pages stay cheap; until then it holds a page-shaped placeholder, which shows a
+ * warning instead when the page cannot be rendered.
+ */
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ file, pageIndex, className = '', imageClassName = 'w-full block' }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | undefined>(() => peekThumbnail(file, pageIndex));
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), { rootMargin: PREFETCH_MARGIN });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setUrl(peekThumbnail(file, pageIndex));
+    setFailed(false);
+    if (!isVisible) return;
+    return requestThumbnail(file, pageIndex, setUrl, () => setFailed(true));
+  }, [file, pageIndex, isVisible]);
+
+  return (
+    <div ref={ref} className={className}>
+      {url
+        ? <img src={url} className={imageClassName} draggable={false}/>
+        : <div className="w-full aspect-[1/1.4] flex items-center justify-center" title={failed ? 'This page could not be rendered' : undefined}>
+            {failed ? <FileWarning size={24} className="text-rose-300"/> : <FileText size={24} className="text-slate-200"/>}
+          </div>}
+    </div>
+  );
+};
+
+export default PageThumbnail;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+
+interface PasswordPromptProps {
+  fileName: string;
+  remaining: number;
+  error: string | null;
+  isUnlocking: boolean;
+  onSubmit: (password: string) => void;
+  onSkip: () => void;
+}
+
+const PasswordPrompt: React.FC<PasswordPromptProps> = ({ fileName, remaining, error, isUnlocking, onSubmit, onSkip }) => {
+  const [password, setPassword] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-slate-900/30 backdrop-blur-[2px]">
+      <form onSubmit={submit} className="bg-white w-full max-w-md p-8 rounded-3xl shadow-2xl border border-slate-200 space-y-5 animate-in zoom-in duration-300">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-2xl bg-amber-50 text-amber-600"><Lock size={22}/></div>
+          <div className="truncate">
+            <h3 className="text-lg font-extrabold text-slate-900">Password Required</h3>
+            <p className="text-xs font-medium text-slate-500 truncate">"{fileName}" is encrypted{remaining > 1 ? ` · ${remaining - 1} more waiting` : ''}</p>
+          </div>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          placeholder="Document password"
+          className="w-full bg-white border border-slate-200 px-5 py-3 rounded-2xl font-bold focus:ring-4 focus:ring-indigo-100 focus:outline-none"
+        />
+        {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+        <p className="text-[10px] font-medium text-slate-400">The file is decrypted locally into a working copy. The password never leaves this browser.</p>
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onSkip} className="px-5 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 transition-all">Skip File</button>
+          <button type="submit" disabled={!password || isUnlocking} className="px-5 py-2.5 rounded-xl text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 shadow-lg shadow-indigo-100 flex items-center gap-2">
+            {isUnlocking && <Loader2 className="animate-spin" size={14}/>} Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordPrompt;
@@ -0,0 +1,272 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { TextLayer } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { X, ZoomIn, ZoomOut, MoveHorizontal, Maximize, RotateCw, RotateCcw, PanelLeft, ChevronLeft, ChevronRight, Loader2, FileText } from 'lucide-react';
+import { PDFFile } from '../types';
+import { openPdfJsRange } from '../services/pdfService';
+import PageThumbnail from './PageThumbnail';
+
+interface PdfViewerProps {
+  file: PDFFile;
+  onClose: () => void;
+}
+
+type ZoomMode = 'fit-width' | 'fit-page' | 'custom';
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+/** Padding around the pages in the scroll area, matching its p-8. */
+const PADDING = 32;
+
+/** Pages this close to the viewport are rendered ahead of time; pages further away give their canvas back. */
+const RENDER_MARGIN = '1200px';
+
+interface ViewerPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  rotation: number;
+  /** Used until the page itself is loaded, so unvisited pages still take up about the right space. */
+  estimatedSize: PageSize;
+  register: (pageNumber: number, element: HTMLDivElement | null) => void;
+}
+
+const ViewerPage: React.FC<ViewerPageProps> = ({ pdf, pageNumber, scale, rotation, estimatedSize, register }) => {
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [page, setPage] = useState<PDFPageProxy | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const element = wrapperRef.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), { rootMargin: RENDER_MARGIN });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible || page) return;
+    let cancelled = false;
+    pdf.getPage(pageNumber).then(loaded => { if (!cancelled) setPage(loaded); }).catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber, isVisible, page]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = textLayerRef.current;
+    if (!page || !isVisible || !canvas || !container) return;
+    const viewport = page.getViewport({ scale, rotation: (page.rotate + rotation) % 360 });
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(viewport.width * ratio);
+    canvas.height = Math.floor(viewport.height * ratio);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    const renderTask = page.render({ canvasContext: context, viewport, transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0] });
+    renderTask.promise.catch(() => undefined);
+    container.replaceChildren();
+    const textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+    textLayer.render().catch(() => undefined);
+    return () => {
+      renderTask.cancel();
+      textLayer.cancel();
+      canvas.width = 0;
+      canvas.height = 0;
+    };
+  }, [page, isVisible, scale, rotation]);
+
+  const viewport = page?.getViewport({ scale, rotation: (page.rotate + rotation) % 360 });
+  const width = viewport ? viewport.width : estimatedSize.width * scale;
+  const height = viewport ? viewport.height : estimatedSize.height * scale;
+
+  return (
+    <div
+      ref={el => { wrapperRef.current = el; register(pageNumber, el); }}
+      className="relative mx-auto bg-white shadow-lg"
+      style={{ width, height, '--scale-factor': scale } as React.CSSProperties}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full"/>
+      <div ref={textLayerRef} className="textLayer"/>
+    </div>
+  );
+};
+
+/**
+ * Full-screen reader for one workspace file: continuous scrolling, zoom and fit modes, page jump,
+ * selectable text and a rotation that only affects the view. Only pages near the viewport are rendered.
+ */
+const PdfViewer: React.FC<PdfViewerProps> = ({ file, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pageElements = useRef<Record<number, HTMLDivElement | null>>({});
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [firstPageSize, setFirstPageSize] = useState<PageSize | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [viewportSize, setViewportSize] = useState<PageSize>({ width: 0, height: 0 });
+  const [zoomMode, setZoomMode] = useState<ZoomMode>('fit-width');
+  const [customZoom, setCustomZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const currentPageRef = useRef(1);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setLoadError(null);
+    openPdfJsRange(file.file)
+      .then(async doc => {
+        loaded = doc;
+        if (cancelled) { doc.destroy(); return; }
+        const first = (await doc.getPage(1)).getViewport({ scale: 1 });
+        if (cancelled) return;
+        setFirstPageSize({ width: first.width, height: first.height });
+        setPdf(doc);
+      })
+      .catch(() => { if (!cancelled) setLoadError('This document could not be opened for viewing.'); });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file.file]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportSize({ width: element.clientWidth, height: element.clientHeight }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [showThumbnails]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const pageCount = pdf?.numPages ?? file.pageCount;
+  const estimatedSize = firstPageSize && rotation % 180 !== 0 ? { width: firstPageSize.height, height: firstPageSize.width } : firstPageSize;
+  const fitWidth = estimatedSize ? (viewportSize.width - 2 * PADDING) / estimatedSize.width : 1;
+  const fitPage = estimatedSize ? Math.min(fitWidth, (viewportSize.height - 2 * PADDING) / estimatedSize.height) : 1;
+  const scale = Math.max(0.1, zoomMode === 'custom' ? customZoom : zoomMode === 'fit-width' ? fitWidth : fitPage);
+
+  const goToPage = (pageNumber: number) => {
+    const target = Math.min(pageCount, Math.max(1, pageNumber));
+    const element = pageElements.current[target];
+    if (element && scrollRef.current) scrollRef.current.scrollTo({ top: element.offsetTop - PADDING });
+    currentPageRef.current = target;
+    setCurrentPage(target);
+    setPageInput(String(target));
+  };
+
+  // Zooming or rotating changes every page's height; keep the page being read in view
+  useLayoutEffect(() => {
+    if (pdf) goToPage(currentPageRef.current);
+  }, [scale, rotation, pdf]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const line = container.scrollTop + container.clientHeight / 3;
+    let visible = 1;
+    for (let n = 1; n <= pageCount; n++) {
+      const element = pageElements.current[n];
+      if (!element || element.offsetTop > line) break;
+      visible = n;
+    }
+    if (visible !== currentPageRef.current) {
+      currentPageRef.current = visible;
+      setCurrentPage(visible);
+      setPageInput(String(visible));
+    }
+  };
+
+  const zoomBy = (direction: 1 | -1) => {
+    const next = direction > 0 ? ZOOM_STEPS.find(step => step > scale + 0.01) : [...ZOOM_STEPS].reverse().find(step => step < scale - 0.01);
+    setZoomMode('custom');
+    setCustomZoom(next ?? scale);
+  };
+
+  const register = (pageNumber: number, element: HTMLDivElement | null) => { pageElements.current[pageNumber] = element; };
+
+  const toolButton = 'p-2 rounded-xl transition-all disabled:opacity-30';
+  const idle = `${toolButton} text-slate-500 hover:text-slate-900 hover:bg-slate-100`;
+  const active = `${toolButton} bg-indigo-50 text-indigo-600`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex flex-col bg-slate-100 animate-in fade-in duration-200">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-white border-b border-slate-200 shadow-sm">
+        <button onClick={() => setShowThumbnails(open => !open)} title="Page thumbnails" className={showThumbnails ? active : idle}><PanelLeft size={18}/></button>
+        <div className="flex items-center gap-2 min-w-0 px-2 mr-auto">
+          <FileText size={16} className="text-slate-400 shrink-0"/>
+          <span className="text-sm font-extrabold text-slate-800 truncate">{file.name}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1} title="Previous page" className={idle}><ChevronLeft size={18}/></button>
+          <input
+            value={pageInput}
+            onChange={e => setPageInput(e.target.value.replace(/\D/g, ''))}
+            onKeyDown={e => { if (e.key === 'Enter') goToPage(parseInt(pageInput) || currentPage); }}
+            onBlur={() => setPageInput(String(currentPage))}
+            className="w-12 px-2 py-1.5 rounded-lg border border-slate-200 text-center text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+          />
+          <span className="text-xs font-bold text-slate-400">/ {pageCount}</span>
+          <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount} title="Next page" className={idle}><ChevronRight size={18}/></button>
+        </div>
+
+        <div className="w-px h-6 bg-slate-200 mx-1"/>
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomBy(-1)} disabled={scale <= ZOOM_STEPS[0]} title="Zoom out" className={idle}><ZoomOut size={18}/></button>
+          <span className="w-12 text-center text-xs font-black text-slate-600">{Math.round(scale * 100)}%</span>
+          <button onClick={() => zoomBy(1)} disabled={scale >= ZOOM_STEPS[ZOOM_STEPS.length - 1]} title="Zoom in" className={idle}><ZoomIn size={18}/></button>
+          <button onClick={() => setZoomMode('fit-width')} title="Fit width" className={zoomMode === 'fit-width' ? active : idle}><MoveHorizontal size={18}/></button>
+          <button onClick={() => setZoomMode('fit-page')} title="Fit page" className={zoomMode === 'fit-page' ? active : idle}><Maximize size={18}/></button>
+        </div>
+
+        <div className="w-px h-6 bg-slate-200 mx-1"/>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setRotation(r => (r + 270) % 360)} title="Rotate view left (preview only)" className={idle}><RotateCcw size={18}/></button>
+          <button onClick={() => setRotation(r => (r + 90) % 360)} title="Rotate view right (preview only)" className={idle}><RotateCw size={18}/></button>
+          {rotation !== 0 && <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest px-1">{rotation}° preview</span>}
+        </div>
+
+        <button onClick={onClose} title="Close viewer" className={`${idle} ml-2`}><X size={20}/></button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {showThumbnails && (
+          <div className="w-36 shrink-0 overflow-y-auto custom-scrollbar p-4 space-y-3 bg-white border-r border-slate-200">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <button key={i} onClick={() => goToPage(i + 1)} className={`relative block w-full rounded-xl overflow-hidden border-2 ${currentPage === i + 1 ? 'border-indigo-500' : 'border-slate-200 hover:border-indigo-200'}`}>
+                <PageThumbnail file={file.file} pageIndex={i}/>
+                <span className="absolute bottom-0 inset-x-0 bg-white/80 text-[9px] font-black text-slate-500">{i + 1}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div ref={scrollRef} onScroll={handleScroll} className="relative flex-1 overflow-auto custom-scrollbar p-8 space-y-4">
+          {loadError ? (
+            <p className="text-center text-sm font-bold text-rose-600 py-20">{loadError}</p>
+          ) : pdf && estimatedSize ? (
+            Array.from({ length: pageCount }, (_, i) => (
+              <ViewerPage key={i} pdf={pdf} pageNumber={i + 1} scale={scale} rotation={rotation} estimatedSize={estimatedSize} register={register}/>
+            ))
+          ) : (
+            <div className="flex justify-center py-20 text-slate-300"><Loader2 size={32} className="animate-spin"/></div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,211 @@
+import React, { useRef } from 'react';
+import { Workflow, RotateCw, Stamp, Hash, Scissors, Layers, ChevronUp, ChevronDown, Trash2, Save, FolderOpen, Plus } from 'lucide-react';
+import { PDFFile, PipelineStep, PipelineOp, WatermarkAnchor, WatermarkLayout, StampFont, PageNumberStyle } from '../types';
+import { PIPELINE_OPS } from '../services/pipelineService';
+import ToolHint from './ToolHint';
+
+interface PipelineViewProps {
+  files: PDFFile[];
+  name: string;
+  setName: (name: string) => void;
+  steps: PipelineStep[];
+  onAddStep: (op: PipelineOp) => void;
+  onUpdateStep: (step: PipelineStep) => void;
+  onMoveStep: (index: number, direction: 'up' | 'down') => void;
+  onRemoveStep: (id: string) => void;
+  onSave: () => void;
+  onLoad: (file: File) => void;
+  progress?: { current: number; total: number };
+}
+
+const STEP_LABELS: Record<PipelineOp, string> = {
+  'rotate': 'Rotate',
+  'watermark': 'Watermark',
+  'page-numbering': 'Page Numbers',
+  'extract': 'Extract Pages',
+  'merge': 'Merge All',
+};
+
+const getStepIcon = (op: PipelineOp, size = 16) => {
+  switch (op) {
+    case 'rotate': return <RotateCw size={size}/>;
+    case 'watermark': return <Stamp size={size}/>;
+    case 'page-numbering': return <Hash size={size}/>;
+    case 'extract': return <Scissors size={size}/>;
+    case 'merge': return <Layers size={size}/>;
+  }
+};
+
+const WATERMARK_ANCHORS: WatermarkAnchor[] = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+const labelClass = "text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest";
+const inputClass = "w-full bg-white border border-slate-200 px-4 py-2.5 rounded-xl font-bold text-sm focus:ring-2 focus:ring-indigo-100 focus:outline-none";
+
+const StepSettings: React.FC<{ step: PipelineStep; onChange: (step: PipelineStep) => void }> = ({ step, onChange }) => {
+  switch (step.op) {
+    case 'rotate':
+      return (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Angle</label>
+            <select value={step.rotation} onChange={e => onChange({ ...step, rotation: parseInt(e.target.value) })} className={inputClass}>
+              <option value={90}>+90°</option>
+              <option value={180}>180°</option>
+              <option value={270}>-90°</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Pages (empty for all)</label>
+            <input value={step.ranges} onChange={e => onChange({ ...step, ranges: e.target.value })} placeholder="e.g. 1-2, 5" className={inputClass}/>
+          </div>
+        </div>
+      );
+    case 'extract':
+      return (
+        <div>
+          <label className={labelClass}>Pages to keep</label>
+          <input value={step.ranges} onChange={e => onChange({ ...step, ranges: e.target.value })} placeholder="e.g. 1, 3-5" className={inputClass}/>
+        </div>
+      );
+    case 'watermark':
+      return (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="col-span-2"><label className={labelClass}>Stamp Text</label><input value={step.config.text} onChange={e => onChange({ ...step, config: { ...step.config, text: e.target.value } })} className={inputClass}/></div>
+          <div><label className={labelClass}>Size ({step.config.fontSize})</label><input type="range" min="10" max="200" value={step.config.fontSize} onChange={e => onChange({ ...step, config: { ...step.config, fontSize: parseInt(e.target.value) } })} className="w-full accent-indigo-600"/></div>
+          <div><label className={labelClass}>Opacity ({Math.round(step.config.opacity * 100)}%)</label><input type="range" min="0" max="1" step="0.1" value={step.config.opacity} onChange={e => onChange({ ...step, config: { ...step.config, opacity: parseFloat(e.target.value) } })} className="w-full accent-indigo-600"/></div>
+          <div><label className={labelClass}>Color</label><input type="color" value={step.config.color} onChange={e => onChange({ ...step, config: { ...step.config, color: e.target.value } })} className="w-full h-10 rounded-xl border-none cursor-pointer p-0"/></div>
+          <div>
+            <label className={labelClass}>Layout</label>
+            <select value={step.config.layout} onChange={e => onChange({ ...step, config: { ...step.config, layout: e.target.value as WatermarkLayout } })} className={inputClass}>
+              <option value="single">Single</option>
+              <option value="tile">Tiled</option>
+              <option value="diagonal">Diagonal</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Position</label>
+            <select value={step.config.anchor} disabled={step.config.layout !== 'single'} onChange={e => onChange({ ...step, config: { ...step.config, anchor: e.target.value as WatermarkAnchor } })} className={`${inputClass} capitalize disabled:opacity-40`}>
+              {WATERMARK_ANCHORS.map(anchor => <option key={anchor} value={anchor}>{anchor.replace('-', ' ')}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Layer</label>
+            <select value={step.config.layer} onChange={e => onChange({ ...step, config: { ...step.config, layer: e.target.value as 'over' | 'under' } })} className={inputClass}>
+              <option value="over">Over content</option>
+              <option value="under">Under content</option>
+            </select>
+          </div>
+          <div className="col-span-2"><label className={labelClass}>Pages (empty for all)</label><input value={step.config.pages} onChange={e => onChange({ ...step, config: { ...step.config, pages: e.target.value } })} placeholder="e.g. 1-2, 5" className={inputClass}/></div>
+        </div>
+      );
+    case 'page-numbering': {
+      const setSlot = (row: 'header' | 'footer', slot: 'left' | 'center' | 'right', text: string) =>
+        onChange({ ...step, config: { ...step.config, [row]: { ...step.config[row], [slot]: text } } });
+      return (
+        <div className="space-y-4">
+          {(['header', 'footer'] as const).map(row => (
+            <div key={row} className="grid grid-cols-3 gap-4">
+              {(['left', 'center', 'right'] as const).map(slot => (
+                <div key={slot}>
+                  <label className={labelClass}>{row} {slot}</label>
+                  <input value={step.config[row][slot]} onChange={e => setSlot(row, slot, e.target.value)} placeholder="{page} / {total}" className={inputClass}/>
+                </div>
+              ))}
+            </div>
+          ))}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>Font</label>
+              <select value={step.config.font} onChange={e => onChange({ ...step, config: { ...step.config, font: e.target.value as StampFont } })} className={inputClass}>
+                <option value="helvetica">Helvetica</option>
+                <option value="times">Times</option>
+                <option value="courier">Courier</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Numbers</label>
+              <select value={step.config.numberStyle} onChange={e => onChange({ ...step, config: { ...step.config, numberStyle: e.target.value as PageNumberStyle } })} className={inputClass}>
+                <option value="arabic">1, 2, 3</option>
+                <option value="roman-lower">i, ii, iii</option>
+                <option value="roman-upper">I, II, III</option>
+              </select>
+            </div>
+            <div><label className={labelClass}>Size ({step.config.fontSize})</label><input type="range" min="6" max="32" value={step.config.fontSize} onChange={e => onChange({ ...step, config: { ...step.config, fontSize: parseInt(e.target.value) } })} className="w-full accent-indigo-600"/></div>
+            <div><label className={labelClass}>Color</label><input type="color" value={step.config.color} onChange={e => onChange({ ...step, config: { ...step.config, color: e.target.value } })} className="w-full h-10 rounded-xl border-none cursor-pointer p-0"/></div>
+          </div>
+        </div>
+      );
+    }
+    case 'merge':
+      return <p className="text-xs font-medium text-slate-400">Combines every document at this point into a single PDF, in workspace order.</p>;
+  }
+};
+
+const PipelineView: React.FC<PipelineViewProps> = ({ files, name, setName, steps, onAddStep, onUpdateStep, onMoveStep, onRemoveStep, onSave, onLoad, progress }) => {
+  const loadRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<Workflow size={18}/>} title="Processing Pipeline" description="Chain operations so each output feeds the next step. Only the final result is downloaded." />
+
+      <div className="bg-slate-50 p-6 rounded-[2rem] border border-slate-200 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label className={labelClass}>Recipe Name</label>
+          <input value={name} onChange={e => setName(e.target.value)} className={inputClass}/>
+        </div>
+        <div className="flex gap-2">
+          <input type="file" accept=".json,application/json" className="hidden" ref={loadRef} onChange={e => { if (e.target.files?.[0]) onLoad(e.target.files[0]); e.target.value = ''; }}/>
+          <button onClick={() => loadRef.current?.click()} className="px-4 py-2.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex items-center gap-2"><FolderOpen size={14}/> Load JSON</button>
+          <button onClick={onSave} disabled={steps.length === 0} className="px-4 py-2.5 bg-slate-900 text-white rounded-xl text-xs font-bold flex items-center gap-2 disabled:bg-slate-200 disabled:text-slate-400"><Save size={14}/> Save JSON</button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {steps.map((step, i) => (
+          <div key={step.id} className="p-5 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-[10px] font-black text-slate-500">#{i + 1}</div>
+                <div className="p-2 rounded-xl bg-indigo-50 text-indigo-600">{getStepIcon(step.op)}</div>
+                <h4 className="font-bold text-slate-800">{STEP_LABELS[step.op]}</h4>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => onMoveStep(i, 'up')} disabled={i === 0} className="p-2 text-slate-300 hover:text-indigo-500 disabled:opacity-0 transition-all"><ChevronUp size={16}/></button>
+                <button onClick={() => onMoveStep(i, 'down')} disabled={i === steps.length - 1} className="p-2 text-slate-300 hover:text-indigo-500 disabled:opacity-0 transition-all"><ChevronDown size={16}/></button>
+                <button onClick={() => onRemoveStep(step.id)} className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all"><Trash2 size={16}/></button>
+              </div>
+            </div>
+            <StepSettings step={step} onChange={onUpdateStep}/>
+          </div>
+        ))}
+        {steps.length === 0 && (
+          <p className="text-center text-sm font-medium text-slate-400 py-6">No steps yet. Add operations below to build a recipe.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PIPELINE_OPS.map(op => (
+          <button key={op} onClick={() => onAddStep(op)} className="px-4 py-2.5 bg-white border border-slate-200 hover:border-indigo-300 hover:text-indigo-600 text-slate-600 rounded-xl text-xs font-bold flex items-center gap-2 transition-all">
+            <Plus size={12}/> {getStepIcon(op, 14)} {STEP_LABELS[op]}
+          </button>
+        ))}
+      </div>
+
+      {progress && (
+        <div className="space-y-2 animate-in fade-in">
+          <div className="flex justify-between text-[9px] font-black text-indigo-600 uppercase tracking-widest"><span>Running Step {progress.current}</span><span>{Math.round((progress.current / progress.total) * 100)}%</span></div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden border border-slate-50"><div className="h-full bg-indigo-600 transition-all duration-300" style={{ width: `${(progress.current / progress.total) * 100}%` }}></div></div>
+        </div>
+      )}
+
+      <div className="p-5 bg-white border border-slate-100 rounded-3xl shadow-sm">
+        <p className={labelClass}>Inputs ({files.length})</p>
+        <div className="flex flex-wrap gap-2">
+          {files.map(f => <span key={f.id} className="bg-slate-100 text-slate-600 text-[10px] font-bold px-2.5 py-1 rounded-full truncate max-w-[200px]">{f.name}</span>)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineView;
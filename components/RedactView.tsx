@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { EyeOff, FileText, ScanSearch, ShieldCheck, ShieldAlert, Trash2, X } from 'lucide-react';
+import { PDFFile, RedactionBox, RedactionReport } from '../types';
+import ToolHint from './ToolHint';
+import PageThumbnail from './PageThumbnail';
+import { REDACTION_PRESETS, createRedactionBox } from '../utils/redaction';
+
+interface RedactViewProps {
+  files: PDFFile[];
+  target: PDFFile | null;
+  boxes: RedactionBox[];
+  setBoxes: (boxes: RedactionBox[]) => void;
+  report: RedactionReport | null;
+  onSelectFile: (fileId: string | null) => void;
+  onAutoMark: (query: string, regex: boolean) => void;
+  onApply: () => void;
+}
+
+interface Draft {
+  pageIndex: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+/** Drags smaller than this (as a fraction of the page) are treated as clicks. */
+const MIN_BOX = 0.005;
+
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+const RedactView: React.FC<RedactViewProps> = ({ files, target, boxes, setBoxes, report, onSelectFile, onAutoMark, onApply }) => {
+  const [query, setQuery] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const pageRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  const pointAt = (pageIndex: number, e: React.PointerEvent) => {
+    const rect = pageRefs.current[pageIndex]!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const finishDraft = () => {
+    if (!draft) return;
+    const width = Math.abs(draft.x - draft.startX);
+    const height = Math.abs(draft.y - draft.startY);
+    if (width > MIN_BOX && height > MIN_BOX) {
+      setBoxes([...boxes, createRedactionBox(draft.pageIndex, Math.min(draft.x, draft.startX), Math.min(draft.y, draft.startY), width, height)]);
+    }
+    setDraft(null);
+  };
+
+  const reportPanel = report && (
+    <div className={`flex items-start gap-4 p-5 rounded-[2rem] border ${report.leakedText.length === 0 && report.remainingMatches === 0 ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'}`}>
+      {report.leakedText.length === 0 && report.remainingMatches === 0 ? <ShieldCheck size={22} className="shrink-0"/> : <ShieldAlert size={22} className="shrink-0"/>}
+      <div className="space-y-1">
+        <p className="text-sm font-extrabold">
+          {report.leakedText.length === 0 && report.remainingMatches === 0 ? 'Verified: nothing under the boxes can be extracted' : 'Verification failed: the redacted file was not kept'}
+        </p>
+        <p className="text-xs font-medium opacity-80">
+          {report.boxCount} area{report.boxCount === 1 ? '' : 's'} on {report.pageCount} page{report.pageCount === 1 ? '' : 's'} · {report.leakedText.length} text run{report.leakedText.length === 1 ? '' : 's'} under boxes · {report.remainingMatches} remaining pattern match{report.remainingMatches === 1 ? '' : 'es'}
+        </p>
+        {report.leakedText.length > 0 && <p className="text-[11px] font-mono truncate">{report.leakedText.slice(0, 5).join(' · ')}</p>}
+      </div>
+    </div>
+  );
+
+  if (!target) {
+    return (
+      <div className="space-y-6">
+        <ToolHint icon={<EyeOff size={18}/>} title="True Redaction" description="Pages with marked areas are flattened to images with the areas blacked out, so the hidden text is removed from the file, not just covered." />
+        {reportPanel}
+        <div className="grid grid-cols-1 gap-4">
+          {files.map(f => (
+            <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm tool-card-hover">
+              <div className="flex items-center gap-4 shrink-0">
+                <div className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-900 text-white"><FileText size={28}/></div>
+                <div><p className="font-extrabold text-slate-800 truncate max-w-xs">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages</p></div>
+              </div>
+              <button onClick={() => onSelectFile(f.id)} className="px-8 py-3 rounded-2xl text-xs font-black shadow-lg bg-slate-900 text-white flex items-center gap-2"><EyeOff size={16}/> Mark Redactions</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<EyeOff size={18}/>} title="True Redaction" description="Drag on a page to mark an area, or mark every match of a term. Click a box to remove it." />
+      {reportPanel}
+
+      <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-200 space-y-4">
+        <div className="flex items-center gap-2">
+          <input value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => e.key === 'Enter' && query && onAutoMark(query, useRegex)} placeholder="Term or pattern to redact everywhere" className="flex-1 px-5 py-3 rounded-2xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none"/>
+          <label className="flex items-center gap-2 px-3 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={useRegex} onChange={e => setUseRegex(e.target.checked)} className="accent-indigo-600"/> Regex
+          </label>
+          <button onClick={() => onAutoMark(query, useRegex)} disabled={!query} className="px-5 py-3 rounded-2xl text-xs font-black bg-slate-900 text-white disabled:opacity-30 flex items-center gap-2"><ScanSearch size={14}/> Mark All</button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Presets</span>
+          {REDACTION_PRESETS.map(p => (
+            <button key={p.id} onClick={() => onAutoMark(p.pattern, true)} className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 text-[10px] font-black text-slate-600 uppercase tracking-widest hover:border-indigo-300 hover:text-indigo-600">{p.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-bold text-slate-700">{target.name} <span className="text-xs font-medium text-slate-400">· {boxes.length} area{boxes.length === 1 ? '' : 's'} marked</span></p>
+        <div className="flex gap-2">
+          <button onClick={() => onSelectFile(null)} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700">Back</button>
+          <button onClick={() => setBoxes([])} disabled={boxes.length === 0} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 disabled:opacity-30 flex items-center gap-2"><Trash2 size={14}/> Clear</button>
+          <button onClick={onApply} disabled={boxes.length === 0} className="px-6 py-2.5 rounded-xl text-xs font-black bg-rose-600 text-white shadow-lg shadow-rose-100 disabled:opacity-30 flex items-center gap-2"><EyeOff size={14}/> Redact & Verify</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {Array.from({ length: target.pageCount }, (_, pageIndex) => (
+          <div key={pageIndex} className="space-y-2">
+            <div
+              ref={el => { pageRefs.current[pageIndex] = el; }}
+              className="relative rounded-2xl overflow-hidden border-2 border-slate-200 bg-white shadow-sm cursor-crosshair select-none touch-none"
+              onPointerDown={e => {
+                (e.target as HTMLElement).setPointerCapture(e.pointerId);
+                const p = pointAt(pageIndex, e);
+                setDraft({ pageIndex, startX: p.x, startY: p.y, x: p.x, y: p.y });
+              }}
+              onPointerMove={e => draft?.pageIndex === pageIndex && setDraft({ ...draft, ...pointAt(pageIndex, e) })}
+              onPointerUp={finishDraft}
+            >
+              <PageThumbnail file={target.file} pageIndex={pageIndex} imageClassName="w-full block pointer-events-none"/>
+              {boxes.filter(b => b.pageIndex === pageIndex).map(b => (
+                <div
+                  key={b.id}
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => setBoxes(boxes.filter(x => x.id !== b.id))}
+                  title="Remove"
+                  className="group absolute bg-slate-900/80 hover:bg-rose-600/80 cursor-pointer flex items-center justify-center"
+                  style={{ left: `${b.x * 100}%`, top: `${b.y * 100}%`, width: `${b.width * 100}%`, height: `${b.height * 100}%` }}
+                >
+                  <X size={12} className="text-white opacity-0 group-hover:opacity-100"/>
+                </div>
+              ))}
+              {draft?.pageIndex === pageIndex && (
+                <div
+                  className="absolute border-2 border-dashed border-rose-500 bg-rose-500/20 pointer-events-none"
+                  style={{ left: `${Math.min(draft.x, draft.startX) * 100}%`, top: `${Math.min(draft.y, draft.startY) * 100}%`, width: `${Math.abs(draft.x - draft.startX) * 100}%`, height: `${Math.abs(draft.y - draft.startY) * 100}%` }}
+                />
+              )}
+            </div>
+            <p className="text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">Page {pageIndex + 1}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RedactView;
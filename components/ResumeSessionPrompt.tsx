@@ -0,0 +1,46 @@
+import React from 'react';
+import { RotateCcw, FileText } from 'lucide-react';
+import { StoredSession } from '../services/sessionStore';
+
+interface ResumeSessionPromptProps {
+  session: StoredSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const ResumeSessionPrompt: React.FC<ResumeSessionPromptProps> = ({ session, onResume, onDiscard }) => {
+  const size = session.files.reduce((sum, f) => sum + f.size, 0);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-slate-900/30 backdrop-blur-[2px]">
+      <div className="bg-white w-full max-w-md p-8 rounded-3xl shadow-2xl border border-slate-200 space-y-5 animate-in zoom-in duration-300">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-2xl bg-indigo-50 text-indigo-600"><RotateCcw size={22}/></div>
+          <div className="truncate">
+            <h3 className="text-lg font-extrabold text-slate-900">Resume Session?</h3>
+            <p className="text-xs font-medium text-slate-500">Saved {new Date(session.savedAt).toLocaleString()} · {(size / 1024 / 1024).toFixed(2)} MB</p>
+          </div>
+        </div>
+        {session.files.length > 0 ? (
+          <ul className="max-h-48 overflow-y-auto custom-scrollbar space-y-1.5">
+            {session.files.map(f => (
+              <li key={f.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-50 text-xs font-bold text-slate-700">
+                <FileText size={14} className="text-slate-400 shrink-0"/> <span className="truncate flex-1">{f.name}</span>
+                {session.histories[f.id] && <span className="text-[10px] font-black text-indigo-500 shrink-0">{session.histories[f.id].versions.length} versions</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm font-medium text-slate-500">Your pipeline "{session.settings.pipelineName}" and tool settings were kept.</p>
+        )}
+        <p className="text-[10px] font-medium text-slate-400">The session is stored in this browser only. Starting fresh deletes it.</p>
+        <div className="flex justify-end gap-2">
+          <button onClick={onDiscard} className="px-5 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 transition-all">Start Fresh</button>
+          <button onClick={onResume} autoFocus className="px-5 py-2.5 rounded-xl text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-100">Resume</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeSessionPrompt;
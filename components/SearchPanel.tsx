@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { Search, CaseSensitive, WholeWord, Regex, X, FileText } from 'lucide-react';
+import { PDFFile } from '../types';
+import PageThumbnail from './PageThumbnail';
+import { IndexedPage, SearchHit, SearchOptions, buildSearchPattern, isHitLimitReached, searchIndex } from '../utils/textSearch';
+
+interface SearchPanelProps {
+  files: PDFFile[];
+  index: Record<string, IndexedPage[]>;
+  isIndexing: boolean;
+  onClose: () => void;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ files, index, isIndexing, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<SearchOptions>({ matchCase: false, wholeWord: false, regex: false });
+  const [activeHit, setActiveHit] = useState<SearchHit | null>(null);
+
+  const { hits, error } = useMemo(() => {
+    if (!query) return { hits: [] as SearchHit[], error: null };
+    try {
+      return { hits: searchIndex(index, buildSearchPattern(query, options)), error: null };
+    } catch (err) {
+      return { hits: [] as SearchHit[], error: 'Invalid regular expression.' };
+    }
+  }, [index, query, options]);
+
+  const optionButton = (key: keyof SearchOptions, icon: React.ReactNode, title: string) => (
+    <button
+      onClick={() => setOptions(prev => ({ ...prev, [key]: !prev[key] }))}
+      title={title}
+      className={`p-2 rounded-lg transition-all ${options[key] ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100'}`}
+    >
+      {icon}
+    </button>
+  );
+
+  const previewFile = activeHit ? files.find(f => f.id === activeHit.fileId)?.file : undefined;
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 z-[90] w-full max-w-md bg-white border-l border-slate-200 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-indigo-50 text-indigo-600"><Search size={18}/></div>
+            <div>
+              <h3 className="text-sm font-black text-slate-900 uppercase tracking-tight">Search Documents</h3>
+              <p className="text-[10px] font-medium text-slate-400">{isIndexing ? 'Indexing text…' : `${Object.keys(index).length} of ${files.length} files indexed`}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-300 hover:text-slate-700"><X size={20}/></button>
+        </div>
+        <div className="flex items-center gap-1 pl-4 pr-1 py-1 bg-slate-50 border border-slate-200 rounded-2xl focus-within:border-indigo-400 transition-all">
+          <input
+            autoFocus
+            value={query}
+            onChange={e => { setQuery(e.target.value); setActiveHit(null); }}
+            placeholder="Find in all files"
+            className="flex-1 bg-transparent py-2 text-sm font-medium text-slate-800 outline-none"
+          />
+          {optionButton('matchCase', <CaseSensitive size={16}/>, 'Match case')}
+          {optionButton('wholeWord', <WholeWord size={16}/>, 'Whole word')}
+          {optionButton('regex', <Regex size={16}/>, 'Regular expression')}
+        </div>
+        {error && <p className="text-[11px] font-bold text-rose-500">{error}</p>}
+        {query && !error && (
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {hits.length}{isHitLimitReached(hits) ? '+' : ''} match{hits.length === 1 ? '' : 'es'}
+          </p>
+        )}
+      </div>
+
+      {activeHit && previewFile && (
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <div className="relative mx-auto w-48 rounded-xl overflow-hidden border border-slate-200 bg-white shadow-lg">
+            <PageThumbnail file={previewFile} pageIndex={activeHit.pageNumber - 1}/>
+            {activeHit.rects.map((rect, i) => (
+              <div
+                key={i}
+                className="absolute bg-amber-400/50 ring-2 ring-amber-500 rounded-sm"
+                style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {files.filter(f => hits.some(h => h.fileId === f.id)).map(f => (
+          <div key={f.id} className="space-y-1">
+            <h4 className="flex items-center gap-2 px-2 text-xs font-bold text-slate-700 truncate"><FileText size={12} className="text-slate-400 shrink-0"/>{f.name}</h4>
+            {hits.filter(h => h.fileId === f.id).map((hit, i) => (
+              <button
+                key={i}
+                onClick={() => setActiveHit(hit)}
+                className={`w-full text-left flex gap-3 px-3 py-2 rounded-xl transition-all ${activeHit === hit ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+              >
+                <span className="text-[9px] font-black text-slate-400 w-8 shrink-0 pt-0.5">P{hit.pageNumber}</span>
+                <span className="text-[11px] text-slate-500 leading-relaxed line-clamp-2">
+                  {hit.before}<mark className="bg-amber-200 text-slate-900 font-bold rounded px-0.5">{hit.match}</mark>{hit.after}
+                </span>
+              </button>
+            ))}
+          </div>
+        ))}
+        {query && !error && !isIndexing && hits.length === 0 && (
+          <p className="text-center text-sm font-medium text-slate-400 py-10">No matches.</p>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default SearchPanel;
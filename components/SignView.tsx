@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { Signature, FileText, Plus, Trash2, CalendarDays, Repeat, X, Loader2 } from 'lucide-react';
+import { PDFFile, SavedSignature, SignatureKind, SignaturePlacement, DateStampFormat } from '../types';
+import ToolHint from './ToolHint';
+import SignatureCreator from './SignatureCreator';
+import PageThumbnail from './PageThumbnail';
+import { SignatureImage, formatStampDate } from '../utils/signatureImage';
+import { createId } from '../utils/ids';
+
+interface SignViewProps {
+  files: PDFFile[];
+  target: PDFFile | null;
+  pageIndex: number;
+  pageImage: string | null;
+  signatures: SavedSignature[];
+  onSaveSignature: (kind: SignatureKind, image: SignatureImage) => void;
+  onRemoveSignature: (id: string) => void;
+  placements: SignaturePlacement[];
+  setPlacements: (placements: SignaturePlacement[]) => void;
+  dateFormat: DateStampFormat;
+  setDateFormat: (format: DateStampFormat) => void;
+  onSelectFile: (fileId: string | null) => void;
+  onShowPage: (pageIndex: number) => void;
+  onApply: () => void;
+}
+
+interface Drag {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: SignaturePlacement;
+}
+
+/** Default widths as a fraction of the page width. */
+const DEFAULT_WIDTH: Record<SignatureKind | 'date', number> = { signature: 0.3, initials: 0.1, date: 0.2 };
+
+/** Height of the date stamp box relative to its width, in page points. */
+const DATE_ASPECT = 0.18;
+
+const MIN_WIDTH = 0.03;
+
+const clamp = (n: number, max: number) => Math.min(max, Math.max(0, n));
+
+const SignView: React.FC<SignViewProps> = ({
+  files, target, pageIndex, pageImage, signatures, onSaveSignature, onRemoveSignature,
+  placements, setPlacements, dateFormat, setDateFormat, onSelectFile, onShowPage, onApply
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [pageAspect, setPageAspect] = useState(1 / Math.SQRT2);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+
+  const place = (signature: SavedSignature | null) => {
+    const width = DEFAULT_WIDTH[signature?.kind ?? 'date'];
+    // Box heights are fractions of the page height, so the page's own aspect ratio enters here
+    const height = width * (signature ? signature.height / signature.width : DATE_ASPECT) * pageAspect;
+    const initials = signature?.kind === 'initials';
+    setPlacements([...placements, {
+      id: createId(),
+      pageIndex,
+      allPages: initials,
+      signatureId: signature?.id ?? null,
+      x: initials ? 0.95 - width : (1 - width) / 2,
+      y: initials ? 0.95 - height : (1 - height) / 2,
+      width,
+      height,
+    }]);
+  };
+
+  const update = (id: string, change: Partial<SignaturePlacement>) => setPlacements(placements.map(p => p.id === id ? { ...p, ...change } : p));
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !pageRef.current) return;
+    const rect = pageRef.current.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const { origin } = drag;
+    if (drag.mode === 'move') {
+      update(drag.id, { x: clamp(origin.x + dx, 1 - origin.width), y: clamp(origin.y + dy, 1 - origin.height) });
+    } else {
+      // Resizing keeps the box's aspect ratio so signatures are never stretched
+      const width = Math.max(MIN_WIDTH, Math.min(origin.width + dx, 1 - origin.x, (1 - origin.y) * origin.width / origin.height));
+      update(drag.id, { width, height: width * origin.height / origin.width });
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent, placement: SignaturePlacement, mode: Drag['mode']) => {
+    e.stopPropagation();
+    pageRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ id: placement.id, mode, startX: e.clientX, startY: e.clientY, origin: placement });
+  };
+
+  const creator = isCreating && <SignatureCreator onSave={onSaveSignature} onClose={() => setIsCreating(false)} />;
+
+  if (!target) {
+    return (
+      <div className="space-y-6">
+        <ToolHint icon={<Signature size={18}/>} title="Sign Documents" description="Place a drawn, typed or uploaded signature, initials on every page and a date stamp. Saved signatures stay in this browser for next time." />
+        <div className="grid grid-cols-1 gap-4">
+          {files.map(f => (
+            <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm tool-card-hover">
+              <div className="flex items-center gap-4 shrink-0">
+                <div className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-900 text-white"><FileText size={28}/></div>
+                <div><p className="font-extrabold text-slate-800 truncate max-w-xs">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages</p></div>
+              </div>
+              <button onClick={() => onSelectFile(f.id)} className="px-8 py-3 rounded-2xl text-xs font-black shadow-lg bg-indigo-600 text-white shadow-indigo-100 flex items-center gap-2"><Signature size={16}/> Sign</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const visible = placements.filter(p => p.allPages || p.pageIndex === pageIndex);
+
+  return (
+    <div className="space-y-6">
+      {creator}
+      <ToolHint icon={<Signature size={18}/>} title="Sign Documents" description="Click a signature to place it on this page, then drag to move it and pull the corner to resize." />
+
+      <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-200 space-y-4">
+        <div className="flex flex-wrap items-stretch gap-3">
+          {signatures.map(sig => (
+            <div key={sig.id} className="group relative">
+              <button onClick={() => place(sig)} title={`Place ${sig.kind}`} className="h-16 px-4 bg-white border border-slate-200 rounded-2xl hover:border-indigo-400 flex items-center">
+                <img src={sig.dataUrl} className="max-h-12 max-w-[10rem] object-contain" draggable={false}/>
+              </button>
+              <span className="absolute -bottom-2 left-3 px-1.5 bg-slate-50 text-[8px] font-black text-slate-400 uppercase tracking-widest">{sig.kind}</span>
+              <button onClick={() => onRemoveSignature(sig.id)} title="Delete from library" className="absolute -top-2 -right-2 p-1 rounded-full bg-white border border-slate-200 text-slate-400 hover:text-rose-600 opacity-0 group-hover:opacity-100"><Trash2 size={10}/></button>
+            </div>
+          ))}
+          <button onClick={() => setIsCreating(true)} className="h-16 px-5 rounded-2xl border-2 border-dashed border-slate-300 text-xs font-black text-slate-500 hover:border-indigo-400 hover:text-indigo-600 flex items-center gap-2"><Plus size={14}/> New</button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => place(null)} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 flex items-center gap-2"><CalendarDays size={14}/> Add Date</button>
+          <select value={dateFormat} onChange={e => setDateFormat(e.target.value as DateStampFormat)} className="px-3 py-2.5 rounded-xl border border-slate-200 text-xs font-bold text-slate-700 bg-white outline-none">
+            {(['iso', 'short', 'long'] as DateStampFormat[]).map(f => <option key={f} value={f}>{formatStampDate(f)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-bold text-slate-700 truncate">{target.name} <span className="text-xs font-medium text-slate-400">· page {pageIndex + 1} of {target.pageCount} · {placements.length} placed</span></p>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={() => onSelectFile(null)} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700">Back</button>
+          <button onClick={onApply} disabled={placements.length === 0} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white shadow-lg shadow-indigo-100 disabled:opacity-30 flex items-center gap-2"><Signature size={14}/> Apply Signatures</button>
+        </div>
+      </div>
+
+      <div className="flex gap-6">
+        <div className="w-24 shrink-0 space-y-3 max-h-[70vh] overflow-y-auto pr-1">
+          {Array.from({ length: target.pageCount }, (_, i) => (
+            <button key={i} onClick={() => onShowPage(i)} className={`relative block w-full rounded-xl overflow-hidden border-2 ${i === pageIndex ? 'border-indigo-500' : 'border-slate-200 hover:border-indigo-200'}`}>
+              <PageThumbnail file={target.file} pageIndex={i}/>
+              {placements.some(p => p.pageIndex === i && !p.allPages) && <span className="absolute top-1 right-1 w-2.5 h-2.5 rounded-full bg-indigo-500"/>}
+              <span className="absolute bottom-0 inset-x-0 bg-white/80 text-[9px] font-black text-slate-500">{i + 1}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {pageImage ? (
+            <div
+              ref={pageRef}
+              className="relative mx-auto max-w-2xl rounded-2xl overflow-hidden border-2 border-slate-200 bg-white shadow-sm select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDrag(null)}
+            >
+              <img src={pageImage} className="w-full block pointer-events-none" draggable={false} onLoad={e => setPageAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}/>
+              {visible.map(p => {
+                const signature = signatures.find(sig => sig.id === p.signatureId);
+                return (
+                  <div
+                    key={p.id}
+                    onPointerDown={e => startDrag(e, p, 'move')}
+                    className="group absolute border border-dashed border-indigo-400 hover:bg-indigo-500/5 cursor-move"
+                    style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%`, width: `${p.width * 100}%`, height: `${p.height * 100}%` }}
+                  >
+                    {signature
+                      ? <img src={signature.dataUrl} className="w-full h-full object-contain pointer-events-none" draggable={false}/>
+                      : <svg viewBox={`0 0 100 ${DATE_ASPECT * 100}`} className="w-full h-full pointer-events-none"><text x="0" y={DATE_ASPECT * 80} fontSize={DATE_ASPECT * 80} fontFamily="Helvetica, Arial, sans-serif" textLength="100" lengthAdjust="spacingAndGlyphs">{formatStampDate(dateFormat)}</text></svg>}
+                    <div className="absolute -top-8 left-0 hidden group-hover:flex gap-1" onPointerDown={e => e.stopPropagation()}>
+                      <button onClick={() => update(p.id, { allPages: !p.allPages, pageIndex })} title="Repeat on every page" className={`p-1.5 rounded-lg border text-[10px] ${p.allPages ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-500'}`}><Repeat size={12}/></button>
+                      <button onClick={() => setPlacements(placements.filter(x => x.id !== p.id))} title="Remove" className="p-1.5 rounded-lg bg-white border border-slate-200 text-slate-500 hover:text-rose-600"><X size={12}/></button>
+                    </div>
+                    <div onPointerDown={e => startDrag(e, p, 'resize')} className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-indigo-600 cursor-nwse-resize"/>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="h-96 flex items-center justify-center text-slate-300"><Loader2 size={28} className="animate-spin"/></div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignView;
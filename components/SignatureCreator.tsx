@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PenTool, Type, Upload, Eraser, X } from 'lucide-react';
+import { SignatureKind } from '../types';
+import { SignatureImage, SCRIPT_FONT_FAMILY, loadScriptFont, trimToInk, renderTypedSignature, imageToSignature } from '../utils/signatureImage';
+
+interface SignatureCreatorProps {
+  onSave: (kind: SignatureKind, image: SignatureImage) => void;
+  onClose: () => void;
+}
+
+type CreateMode = 'draw' | 'type' | 'upload';
+
+const INK_COLORS = ['#0f172a', '#1e3a8a'];
+
+const SignatureCreator: React.FC<SignatureCreatorProps> = ({ onSave, onClose }) => {
+  const [mode, setMode] = useState<CreateMode>('draw');
+  const [kind, setKind] = useState<SignatureKind>('signature');
+  const [color, setColor] = useState(INK_COLORS[0]);
+  const [typed, setTyped] = useState('');
+  const [fontReady, setFontReady] = useState(false);
+  const [hasInk, setHasInk] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    loadScriptFont().then(() => setFontReady(true), () => setError('The signature font could not be loaded.'));
+  }, []);
+
+  const pointOf = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * (canvas.width / rect.width), y: (e.clientY - rect.top) * (canvas.height / rect.height) };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx || !lastPoint.current) return;
+    const point = pointOf(e);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 4;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+    setHasInk(true);
+  };
+
+  const clearCanvas = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+  };
+
+  const save = (image: SignatureImage | null) => {
+    if (!image) { setError('Nothing to save yet.'); return; }
+    onSave(kind, image);
+    onClose();
+  };
+
+  const handleUpload = async (file: File) => {
+    try {
+      save(await imageToSignature(file));
+    } catch (err) {
+      setError('This image could not be read.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-slate-900/30 backdrop-blur-[2px] p-6">
+      <div className="bg-white w-full max-w-2xl p-8 rounded-3xl shadow-2xl border border-slate-200 space-y-6 animate-in zoom-in duration-300">
+        <div className="flex items-center justify-between">
+          <div className="flex bg-slate-100 p-1 rounded-2xl">
+            {(['signature', 'initials'] as SignatureKind[]).map(k => (
+              <button key={k} onClick={() => setKind(k)} className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${kind === k ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{k}</button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100"><X size={18}/></button>
+        </div>
+
+        <div className="flex gap-2">
+          {([['draw', PenTool, 'Draw'], ['type', Type, 'Type'], ['upload', Upload, 'Upload']] as const).map(([id, Icon, label]) => (
+            <button key={id} onClick={() => { setMode(id); setError(null); }} className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl border-2 text-xs font-black ${mode === id ? 'border-indigo-500 bg-indigo-50/50 text-indigo-600' : 'border-slate-100 text-slate-500'}`}>
+              <Icon size={14}/> {label}
+            </button>
+          ))}
+        </div>
+
+        {mode !== 'upload' && (
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Ink</span>
+            {INK_COLORS.map(c => (
+              <button key={c} onClick={() => setColor(c)} className={`w-7 h-7 rounded-full border-4 ${color === c ? 'border-indigo-200' : 'border-white'}`} style={{ backgroundColor: c }}/>
+            ))}
+          </div>
+        )}
+
+        {mode === 'draw' && (
+          <div className="space-y-3">
+            <canvas
+              ref={canvasRef}
+              width={800}
+              height={260}
+              className="w-full rounded-3xl border-2 border-dashed border-slate-200 bg-slate-50 cursor-crosshair touch-none"
+              onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); lastPoint.current = pointOf(e); }}
+              onPointerMove={e => lastPoint.current && drawTo(e)}
+              onPointerUp={() => { lastPoint.current = null; }}
+            />
+            <div className="flex justify-between">
+              <button onClick={clearCanvas} className="px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700 flex items-center gap-2"><Eraser size={14}/> Clear</button>
+              <button onClick={() => canvasRef.current && save(trimToInk(canvasRef.current))} disabled={!hasInk} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white disabled:opacity-30">Save</button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'type' && (
+          <div className="space-y-3">
+            <input value={typed} onChange={e => setTyped(e.target.value)} placeholder={kind === 'initials' ? 'Your initials' : 'Your full name'} className="w-full px-5 py-3 rounded-2xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none"/>
+            <div className="h-32 rounded-3xl border-2 border-dashed border-slate-200 bg-slate-50 flex items-center justify-center overflow-hidden px-6">
+              <span className="text-6xl truncate" style={{ fontFamily: fontReady ? `"${SCRIPT_FONT_FAMILY}"` : undefined, color }}>{typed}</span>
+            </div>
+            <div className="flex justify-end">
+              <button onClick={async () => save(await renderTypedSignature(typed.trim(), color))} disabled={!typed.trim() || !fontReady} className="px-6 py-2.5 rounded-xl text-xs font-black bg-indigo-600 text-white disabled:opacity-30">Save</button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-2 h-48 rounded-3xl border-2 border-dashed border-slate-200 bg-slate-50 cursor-pointer text-slate-400 hover:border-indigo-300">
+            <Upload size={28}/>
+            <span className="text-xs font-bold">PNG or JPG of a signature on light paper</span>
+            <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleUpload(file); }}/>
+          </label>
+        )}
+
+        {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SignatureCreator;
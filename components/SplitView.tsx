@@ -0,0 +1,138 @@
+import React from 'react';
+import { Scissors, FileText, ListOrdered, BookMarked, HardDrive, ScanLine, Copy } from 'lucide-react';
+import { PDFFile, SplitConfig, SplitStrategy, SeparatorKind } from '../types';
+import { parsePageGroups } from '../utils/pageRanges';
+import ToolHint from './ToolHint';
+
+interface SplitViewProps {
+  files: PDFFile[];
+  config: SplitConfig;
+  setConfig: (config: SplitConfig) => void;
+  progress: Record<string, { current: number; total: number }>;
+  onSplit: (fileId: string) => void;
+}
+
+const STRATEGIES: [SplitStrategy, React.ElementType, string][] = [
+  ['ranges', ListOrdered, 'Ranges'],
+  ['every', Copy, 'Every N'],
+  ['bookmarks', BookMarked, 'Bookmarks'],
+  ['size', HardDrive, 'File size'],
+  ['separator', ScanLine, 'Separators'],
+];
+
+const SEPARATORS: [SeparatorKind, string][] = [['blank', 'Blank pages'], ['barcode', 'Barcode sheets']];
+
+const DESCRIPTIONS: Record<SplitStrategy, string> = {
+  ranges: 'Each group becomes its own file. Separate groups with | or new lines and name them with a prefix such as intro:.',
+  every: 'Cut the document into parts of the same length. The last part holds whatever is left.',
+  bookmarks: 'Start a new part at every top-level bookmark. Each part is named after its bookmark and keeps the bookmarks nested under it.',
+  size: 'Pack as many consecutive pages as fit under the limit into each part. A single page over the limit gets a part of its own.',
+  separator: 'For batch scans: start a new part after every separator sheet. The separator sheets themselves are left out.',
+};
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest';
+
+const inputClass = 'w-full bg-white border border-slate-200 px-4 py-2.5 rounded-xl font-bold focus:ring-4 focus:ring-indigo-100 focus:outline-none';
+
+const RANGE_SYNTAX: [string, string][] = [['1-3 | 5 | 8-10', 'three files'], ['intro: 1-3', 'named file'], ['5-end', 'to the last page'], ['-3--1', 'last three pages'], ['end-1', 'reversed'], ['odd, 2-10 even', 'odd or even pages']];
+
+const SplitView: React.FC<SplitViewProps> = ({ files, config, setConfig, progress, onSplit }) => {
+  const set = (change: Partial<SplitConfig>) => setConfig({ ...config, ...change });
+  const ready = config.strategy === 'ranges' ? !!config.ranges.trim()
+    : config.strategy === 'every' ? config.every >= 1
+    : config.strategy === 'size' ? config.maxSizeMb > 0
+    : true;
+
+  return (
+    <div className="space-y-8">
+      <ToolHint icon={<Scissors size={18}/>} title="Extraction Config" description={DESCRIPTIONS[config.strategy]} />
+      <div className="flex bg-slate-200/50 p-1 rounded-2xl">
+        {STRATEGIES.map(([strategy, Icon, label]) => (
+          <button key={strategy} onClick={() => set({ strategy })} className={`flex-1 py-3 rounded-xl text-xs font-black flex items-center justify-center gap-2 transition-all ${config.strategy === strategy ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}><Icon size={14}/> {label}</button>
+        ))}
+      </div>
+
+      {config.strategy === 'ranges' && (
+        <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-200 space-y-4">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Defined Range</label>
+          <textarea
+            value={config.ranges}
+            onChange={(e) => set({ ranges: e.target.value })}
+            placeholder="e.g. intro: 1-3 | 5 | 8-end"
+            rows={2}
+            className="w-full bg-white border border-slate-200 px-6 py-4 rounded-2xl text-lg font-bold focus:ring-4 focus:ring-indigo-100 focus:outline-none transition-all placeholder:text-slate-300 resize-y"
+          />
+          <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+            {RANGE_SYNTAX.map(([example, meaning]) => (
+              <span key={example} className="text-[10px] font-bold text-slate-400"><code className="px-1.5 py-0.5 rounded bg-white border border-slate-200 text-slate-600">{example}</code> {meaning}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {config.strategy === 'every' && (
+        <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-200">
+          <label className={labelClass}>Pages per part</label>
+          <input type="number" min="1" value={config.every} onChange={e => set({ every: Math.max(1, parseInt(e.target.value) || 1) })} className={`${inputClass} max-w-[10rem]`}/>
+        </div>
+      )}
+
+      {config.strategy === 'size' && (
+        <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-200">
+          <label className={labelClass}>Maximum size per part (MB)</label>
+          <input type="number" min="0.1" step="0.5" value={config.maxSizeMb} onChange={e => set({ maxSizeMb: Math.max(0, parseFloat(e.target.value) || 0) })} className={`${inputClass} max-w-[10rem]`}/>
+        </div>
+      )}
+
+      {config.strategy === 'separator' && (
+        <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-200 space-y-4">
+          <div>
+            <label className={labelClass}>Separator sheets</label>
+            <div className="flex bg-slate-200/50 p-1 rounded-2xl max-w-md">
+              {SEPARATORS.map(([separator, label]) => (
+                <button key={separator} onClick={() => set({ separator })} className={`flex-1 py-2.5 rounded-xl text-xs font-black transition-all ${config.separator === separator ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}>{label}</button>
+              ))}
+            </div>
+          </div>
+          {config.separator === 'barcode' && (
+            <div>
+              <label className={labelClass}>Barcode text contains</label>
+              <input value={config.barcodeText} onChange={e => set({ barcodeText: e.target.value })} placeholder="Any barcode" className={`${inputClass} max-w-md`}/>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4">
+        {files.map(f => {
+          const prog = progress[f.id];
+          // Ranges are checked per file since `end` and negative pages depend on its length
+          const parsed = config.strategy === 'ranges' && config.ranges.trim() ? parsePageGroups(config.ranges, f.pageCount) : null;
+          const blocked = !ready || (parsed !== null && parsed.errors.length > 0);
+          return (
+            <div key={f.id} className="p-5 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 bg-indigo-50 rounded-2xl flex items-center justify-center text-indigo-500"><FileText size={24}/></div>
+                  <div className="truncate max-w-xs"><p className="text-sm font-bold text-slate-800 truncate">{f.name}</p><p className="text-xs text-slate-400">{f.pageCount} Pages</p></div>
+                </div>
+                <button onClick={() => onSplit(f.id)} disabled={blocked} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold shadow-lg shadow-indigo-100 disabled:bg-slate-200">{parsed && parsed.groups.length === 1 ? 'Extract' : 'Split to ZIP'}</button>
+              </div>
+              {parsed && parsed.errors.map((message, i) => <p key={i} className="text-xs font-bold text-rose-600">{message}</p>)}
+              {parsed && parsed.errors.length === 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {parsed.groups.map((group, i) => (
+                    <span key={i} title={group.pages.join(', ')} className="bg-indigo-600 text-white text-[9px] font-black px-2 py-0.5 rounded shadow-sm">{group.name || `#${i + 1}`} · {group.pages.length}p</span>
+                  ))}
+                </div>
+              )}
+              {prog && <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500 transition-all" style={{ width: `${(prog.current / prog.total) * 100}%` }}></div></div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SplitView;
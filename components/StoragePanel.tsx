@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Database, X, Trash2, AlertCircle } from 'lucide-react';
+import { SaveReport, StoragePreferences } from '../services/sessionStore';
+
+interface StoragePanelProps {
+  preferences: StoragePreferences;
+  setPreferences: (preferences: StoragePreferences) => void;
+  report: SaveReport | null;
+  saveError: string | null;
+  onWipe: () => void;
+  onClose: () => void;
+}
+
+const QUOTAS_MB = [100, 250, 500, 1000, 2000];
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ preferences, setPreferences, report, saveError, onWipe, onClose }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [confirmWipe, setConfirmWipe] = useState(false);
+  const quotaBytes = preferences.quotaMb * 1024 * 1024;
+  const evicted = report ? report.evictedFiles + report.evictedVersions : 0;
+
+  useEffect(() => {
+    navigator.storage?.estimate?.().then(setEstimate).catch(() => setEstimate(null));
+  }, [report]);
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 z-[90] w-full max-w-sm bg-white border-l border-slate-200 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-indigo-50 text-indigo-600"><Database size={18}/></div>
+          <div>
+            <h3 className="text-sm font-black text-slate-900 uppercase tracking-tight">Local Storage</h3>
+            <p className="text-[10px] font-medium text-slate-400">Files never leave this browser</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="text-slate-300 hover:text-slate-700"><X size={20}/></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+        <label className="flex items-start gap-3 p-4 rounded-3xl border border-slate-100 cursor-pointer">
+          <input type="checkbox" checked={preferences.enabled} onChange={e => setPreferences({ ...preferences, enabled: e.target.checked })} className="accent-indigo-600 mt-0.5"/>
+          <span>
+            <span className="block text-sm font-bold text-slate-800">Keep my session across reloads</span>
+            <span className="block text-[10px] font-medium text-slate-400">Loaded files, version history, extracted text and tool settings are saved. Passwords and decrypted copies of protected files are not.</span>
+          </span>
+        </label>
+
+        {preferences.enabled && (
+          <div className="space-y-3 p-4 rounded-3xl border border-slate-100">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Storage quota</span>
+              <select value={preferences.quotaMb} onChange={e => setPreferences({ ...preferences, quotaMb: parseInt(e.target.value) })} className="px-3 py-1.5 rounded-xl border border-slate-200 text-xs font-bold text-slate-700 outline-none">
+                {QUOTAS_MB.map(mb => <option key={mb} value={mb}>{formatSize(mb * 1024 * 1024)}</option>)}
+              </select>
+            </div>
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.min(100, ((report?.storedBytes ?? 0) / quotaBytes) * 100)}%` }}></div>
+            </div>
+            <p className="text-[10px] font-medium text-slate-400">{formatSize(report?.storedBytes ?? 0)} of {formatSize(quotaBytes)} used by this session{estimate?.quota ? ` · browser allows ${formatSize(estimate.quota)}` : ''}</p>
+            {evicted > 0 && (
+              <p className="text-[10px] font-bold text-amber-600">
+                Over quota: {report!.evictedVersions > 0 && `${report!.evictedVersions} older version${report!.evictedVersions === 1 ? '' : 's'}`}
+                {report!.evictedVersions > 0 && report!.evictedFiles > 0 && ' and '}
+                {report!.evictedFiles > 0 && `${report!.evictedFiles} file${report!.evictedFiles === 1 ? '' : 's'}`} will not be restored.
+              </p>
+            )}
+            {saveError && <p className="flex items-center gap-1.5 text-[10px] font-bold text-rose-600"><AlertCircle size={12}/> {saveError}</p>}
+          </div>
+        )}
+
+        <div className="space-y-3 p-4 rounded-3xl border border-rose-100 bg-rose-50/30">
+          <p className="text-xs font-medium text-slate-500">Removes the saved session, saved signatures and these preferences from this browser, and clears the workspace. Saving stays off until you turn it back on.</p>
+          {confirmWipe ? (
+            <div className="flex gap-2">
+              <button onClick={() => setConfirmWipe(false)} className="flex-1 px-4 py-2.5 rounded-xl text-xs font-bold bg-white border border-slate-200 text-slate-700">Cancel</button>
+              <button onClick={() => { setConfirmWipe(false); onWipe(); }} className="flex-1 px-4 py-2.5 rounded-xl text-xs font-black bg-rose-600 text-white shadow-lg shadow-rose-100">Wipe Everything</button>
+            </div>
+          ) : (
+            <button onClick={() => setConfirmWipe(true)} className="w-full px-4 py-2.5 rounded-xl text-xs font-black bg-white border border-rose-200 text-rose-600 hover:bg-rose-50 flex items-center justify-center gap-2"><Trash2 size={14}/> Wipe All Local Data</button>
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default StoragePanel;
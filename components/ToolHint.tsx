@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface ToolHintProps {
+  icon: React.ReactNode;
+  title: string;
+  description: string;
+}
+
+const ToolHint: React.FC<ToolHintProps> = ({ icon, title, description }) => (
+  <div className="flex items-start gap-4 p-5 bg-indigo-50/50 border border-indigo-100 rounded-3xl">
+    <div className="bg-white p-2 rounded-xl text-indigo-600 shadow-sm">{icon}</div>
+    <div className="space-y-0.5">
+      <h4 className="text-sm font-black text-indigo-900 uppercase tracking-tight">{title}</h4>
+      <p className="text-xs font-medium text-indigo-700 leading-relaxed">{description}</p>
+    </div>
+  </div>
+);
+
+export default ToolHint;
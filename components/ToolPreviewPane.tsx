@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { PDFFile, ToolPreview } from '../types';
+import { renderPreview, isJobCancelled } from '../services/pdfService';
+
+interface ToolPreviewPaneProps {
+  files: PDFFile[];
+  /** The operation as currently configured, or null while it is not ready to run. */
+  preview: ToolPreview | null;
+  notReadyMessage?: string;
+}
+
+/** Settings are usually dragged or typed; wait for a pause before rendering. */
+const RENDER_DELAY = 300;
+
+const ToolPreviewPane: React.FC<ToolPreviewPaneProps> = ({ files, preview, notReadyMessage = '' }) => {
+  const pdfFiles = files.filter(f => f.type === 'pdf');
+  const [fileId, setFileId] = useState<string | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+
+  const target = pdfFiles.find(f => f.id === fileId) ?? pdfFiles[0];
+  const page = target ? Math.min(pageIndex, target.pageCount - 1) : 0;
+
+  useEffect(() => {
+    if (!target || !preview) return;
+    // Newer settings replace this render, so the worker stops on it rather than finishing unseen
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsRendering(true);
+      renderPreview(target.file, preview, page, controller.signal)
+        .then(blob => {
+          if (controller.signal.aborted) return;
+          setUrl(URL.createObjectURL(blob));
+          setError(null);
+        })
+        .catch(err => {
+          if (controller.signal.aborted || isJobCancelled(err)) return;
+          setError(err instanceof Error ? err.message : 'The preview could not be rendered.');
+        })
+        .finally(() => { if (!controller.signal.aborted) setIsRendering(false); });
+    }, RENDER_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [target?.file, preview, page]);
+
+  // Each new image replaces the last; revoke the old one once it is off screen
+  useEffect(() => () => { if (url) URL.revokeObjectURL(url); }, [url]);
+
+  if (!target) return null;
+
+  return (
+    <div className="xl:sticky xl:top-24 p-5 bg-white border border-slate-100 rounded-3xl shadow-sm space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 rounded-xl bg-indigo-50 text-indigo-600"><Eye size={16}/></div>
+        <div>
+          <h4 className="text-sm font-black text-slate-900 uppercase tracking-tight">Live Preview</h4>
+          <p className="text-[10px] font-medium text-slate-400">Nothing is changed until you apply</p>
+        </div>
+      </div>
+
+      {pdfFiles.length > 1 && (
+        <select value={target.id} onChange={e => { setFileId(e.target.value); setPageIndex(0); }} className="w-full px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold text-slate-700 outline-none">
+          {pdfFiles.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+      )}
+
+      <div className="relative rounded-2xl overflow-hidden border border-slate-200 bg-slate-50 min-h-[12rem] flex items-center justify-center">
+        {!preview ? (
+          <p className="p-6 text-center text-xs font-medium text-slate-400">{notReadyMessage}</p>
+        ) : error ? (
+          <p className="p-6 text-center text-xs font-bold text-rose-600">{error}</p>
+        ) : url ? (
+          <img src={url} className="w-full block" draggable={false}/>
+        ) : null}
+        {preview && isRendering && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/40"><Loader2 size={24} className="animate-spin text-indigo-500"/></div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button onClick={() => setPageIndex(page - 1)} disabled={page === 0} className="p-2 rounded-xl text-slate-500 hover:bg-slate-100 disabled:opacity-30"><ChevronLeft size={16}/></button>
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Page {page + 1} of {target.pageCount}</span>
+        <button onClick={() => setPageIndex(page + 1)} disabled={page >= target.pageCount - 1} className="p-2 rounded-xl text-slate-500 hover:bg-slate-100 disabled:opacity-30"><ChevronRight size={16}/></button>
+      </div>
+    </div>
+  );
+};
+
+export default ToolPreviewPane;
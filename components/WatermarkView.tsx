@@ -0,0 +1,149 @@
+import React from 'react';
+import { Stamp, Type, Image as ImageIcon, Layers } from 'lucide-react';
+import { PDFFile, WatermarkConfig, WatermarkAnchor, WatermarkImage, WatermarkLayout } from '../types';
+import { WATERMARK_VARIABLES } from '../utils/textTemplate';
+import ToolHint from './ToolHint';
+
+interface WatermarkViewProps {
+  files: PDFFile[];
+  config: WatermarkConfig;
+  setConfig: (config: WatermarkConfig) => void;
+  onApply: (fileId: string) => void;
+}
+
+const ANCHORS: WatermarkAnchor[] = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+const LAYOUTS: [WatermarkLayout, string][] = [['single', 'Single'], ['tile', 'Tiled'], ['diagonal', 'Diagonal']];
+
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase mb-2 block tracking-widest';
+
+const inputClass = 'w-full px-5 py-3 rounded-2xl border border-slate-200 font-bold focus:ring-4 focus:ring-indigo-100 outline-none';
+
+const readImage = (file: File): Promise<WatermarkImage> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      const img = new Image();
+      img.onload = () => resolve({ dataUrl, width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = () => reject(new Error('This image could not be read.'));
+      img.src = dataUrl;
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const WatermarkView: React.FC<WatermarkViewProps> = ({ files, config, setConfig, onApply }) => {
+  const set = (change: Partial<WatermarkConfig>) => setConfig({ ...config, ...change });
+  const ready = config.kind === 'image' ? !!config.image : !!config.text.trim();
+
+  const handleImage = async (file: File) => {
+    try {
+      set({ image: await readImage(file) });
+    } catch {
+      set({ image: null });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ToolHint icon={<Stamp size={18}/>} title="Stamping Logic" description="Overlay text or a logo on the pages you choose, once or repeated across the page. Placing it under the content keeps text readable but hides it behind opaque scans." />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-8 bg-slate-50 rounded-[2.5rem] border border-slate-200">
+        <div className="space-y-4">
+          <div className="flex bg-slate-200/50 p-1 rounded-2xl">
+            {([['text', Type, 'Text'], ['image', ImageIcon, 'Image']] as const).map(([kind, Icon, label]) => (
+              <button key={kind} onClick={() => set({ kind })} className={`flex-1 py-3 rounded-xl text-xs font-black flex items-center justify-center gap-2 transition-all ${config.kind === kind ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}><Icon size={14}/> {label}</button>
+            ))}
+          </div>
+
+          {config.kind === 'text' ? (
+            <>
+              <div>
+                <label className={labelClass}>Stamp Text</label>
+                <input value={config.text} onChange={e => set({ text: e.target.value })} className={inputClass}/>
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {WATERMARK_VARIABLES.map(name => (
+                    <button key={name} onClick={() => set({ text: `${config.text}{${name}}` })} className="px-2 py-1 rounded-lg bg-white border border-slate-200 text-[10px] font-bold text-slate-500 hover:border-indigo-300 hover:text-indigo-600">{`{${name}}`}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-4">
+                <div className="flex-1"><label className={labelClass}>Size ({config.fontSize})</label><input type="range" min="10" max="200" value={config.fontSize} onChange={e => set({ fontSize: parseInt(e.target.value) })} className="w-full accent-indigo-600"/></div>
+                <div className="flex-1"><label className={labelClass}>Color</label><input type="color" value={config.color} onChange={e => set({ color: e.target.value })} className="w-full h-8 rounded-xl border-none cursor-pointer p-0"/></div>
+              </div>
+            </>
+          ) : (
+            <>
+              <label className="flex items-center justify-center gap-3 h-28 rounded-2xl border-2 border-dashed border-slate-300 bg-white cursor-pointer text-slate-400 hover:border-indigo-300 overflow-hidden">
+                {config.image
+                  ? <img src={config.image.dataUrl} className="max-h-24 max-w-full object-contain"/>
+                  : <><ImageIcon size={20}/><span className="text-xs font-bold">PNG (transparency kept) or JPG</span></>}
+                <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImage(file); }}/>
+              </label>
+              <div><label className={labelClass}>Width ({Math.round(config.imageScale * 100)}% of page)</label><input type="range" min="0.05" max="1" step="0.05" value={config.imageScale} onChange={e => set({ imageScale: parseFloat(e.target.value) })} className="w-full accent-indigo-600"/></div>
+            </>
+          )}
+
+          <div className="flex gap-4">
+            <div className="flex-1"><label className={labelClass}>Opacity ({Math.round(config.opacity * 100)}%)</label><input type="range" min="0" max="1" step="0.1" value={config.opacity} onChange={e => set({ opacity: parseFloat(e.target.value) })} className="w-full accent-indigo-600"/></div>
+            <div className="flex-1"><label className={labelClass}>Rotation ({config.rotation}°)</label><input type="range" min="-180" max="180" value={config.rotation} onChange={e => set({ rotation: parseInt(e.target.value) })} className="w-full accent-indigo-600"/></div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Layout</label>
+            <div className="flex bg-slate-200/50 p-1 rounded-2xl">
+              {LAYOUTS.map(([layout, label]) => (
+                <button key={layout} onClick={() => set({ layout })} className={`flex-1 py-3 rounded-xl text-xs font-black transition-all ${config.layout === layout ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}>{label}</button>
+              ))}
+            </div>
+          </div>
+
+          {config.layout === 'single' ? (
+            <div className="flex gap-6 items-end">
+              <div>
+                <label className={labelClass}>Position</label>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-slate-200/50 rounded-xl w-24">
+                  {ANCHORS.map(anchor => (
+                    <button key={anchor} onClick={() => set({ anchor })} title={anchor.replace('-', ' ')} className={`h-6 rounded-md transition-all ${config.anchor === anchor ? 'bg-indigo-600' : 'bg-white hover:bg-indigo-100'}`}/>
+                  ))}
+                </div>
+              </div>
+              <div className="flex-1"><label className={labelClass}>Margin ({config.margin} pt)</label><input type="range" min="0" max="144" step="6" value={config.margin} onChange={e => set({ margin: parseInt(e.target.value) })} className="w-full accent-indigo-600"/></div>
+            </div>
+          ) : (
+            <div><label className={labelClass}>Spacing ({config.spacing} pt)</label><input type="range" min="0" max="300" step="10" value={config.spacing} onChange={e => set({ spacing: parseInt(e.target.value) })} className="w-full accent-indigo-600"/></div>
+          )}
+
+          <div>
+            <label className={labelClass}>Pages</label>
+            <input value={config.pages} onChange={e => set({ pages: e.target.value })} placeholder="All pages, or e.g. 1, 3-5" className={inputClass}/>
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label className={labelClass}>Layer</label>
+              <div className="flex bg-slate-200/50 p-1 rounded-2xl">
+                {(['over', 'under'] as const).map(layer => (
+                  <button key={layer} onClick={() => set({ layer })} className={`flex-1 py-2.5 rounded-xl text-xs font-black capitalize flex items-center justify-center gap-1.5 transition-all ${config.layer === layer ? 'bg-white shadow-lg text-indigo-600' : 'text-slate-500'}`}><Layers size={12}/> {layer}</button>
+                ))}
+              </div>
+            </div>
+            {config.kind === 'text' && config.text.includes('{user}') && (
+              <div className="flex-1"><label className={labelClass}>{'{user}'}</label><input value={config.user} onChange={e => set({ user: e.target.value })} placeholder="Your name" className="w-full px-4 py-2.5 rounded-2xl border border-slate-200 font-bold text-sm focus:ring-4 focus:ring-indigo-100 outline-none"/></div>
+            )}
+          </div>
+        </div>
+      </div>
+      {files.map(f => (
+        <div key={f.id} className="p-6 bg-white border border-slate-100 rounded-3xl flex items-center justify-between shadow-sm">
+          <h4 className="font-bold text-slate-800 truncate max-w-sm">{f.name}</h4>
+          <button onClick={() => onApply(f.id)} disabled={!ready} className="px-6 py-2.5 bg-indigo-600 text-white rounded-2xl text-xs font-black shadow-lg disabled:opacity-30">Apply Stamp</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WatermarkView;
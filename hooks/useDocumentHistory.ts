@@ -0,0 +1,87 @@
+import { useState, useCallback, useMemo, Dispatch, SetStateAction } from 'react';
+import { PDFFile, DocumentHistory, DocumentVersion } from '../types';
+import { bytesToFile, getPageCount } from '../services/pdfService';
+import { createId } from '../utils/ids';
+
+const MAX_VERSIONS = 30;
+
+/** Drops the oldest edits past the limit, always keeping the uploaded original at index 0. */
+const trimVersions = (versions: DocumentVersion[]) =>
+  versions.length > MAX_VERSIONS ? [versions[0], ...versions.slice(versions.length - MAX_VERSIONS + 1)] : versions;
+
+const toVersion = (file: File, pageCount: number, label: string, removesContent = false): DocumentVersion => ({
+  id: createId(),
+  label,
+  file,
+  size: file.size,
+  pageCount,
+  createdAt: Date.now(),
+  removesContent,
+});
+
+/**
+ * Keeps a version list per workspace file. The entry in `files` always mirrors the selected
+ * version, so every tool keeps reading `PDFFile.file` and automatically works on the latest copy.
+ * Committing after stepping back discards the versions ahead of the cursor, like any editor.
+ */
+export const useDocumentHistory = (files: PDFFile[], setFiles: Dispatch<SetStateAction<PDFFile[]>>) => {
+  const [histories, setHistories] = useState<Record<string, DocumentHistory>>({});
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+
+  const showVersion = useCallback((fileId: string, version: DocumentVersion) => {
+    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, file: version.file, size: version.size, pageCount: version.pageCount } : f));
+    setActiveFileId(fileId);
+  }, [setFiles]);
+
+  const commit = useCallback(async (fileId: string, data: Uint8Array, label: string, removesContent = false) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target) return;
+    const file = bytesToFile(data, target.name);
+    const version = toVersion(file, await getPageCount(file), label, removesContent);
+    setHistories(prev => {
+      const current = prev[fileId] ?? { versions: [toVersion(target.file, target.pageCount, 'Original')], index: 0 };
+      const versions = trimVersions([...current.versions.slice(0, current.index + 1), version]);
+      return { ...prev, [fileId]: { versions, index: versions.length - 1 } };
+    });
+    showVersion(fileId, version);
+  }, [files, showVersion]);
+
+  const checkout = useCallback((fileId: string, index: number) => {
+    const history = histories[fileId];
+    if (!history || index < 0 || index >= history.versions.length || index === history.index) return;
+    setHistories(prev => ({ ...prev, [fileId]: { ...history, index } }));
+    showVersion(fileId, history.versions[index]);
+  }, [histories, showVersion]);
+
+  const undo = useCallback((fileId: string) => {
+    const history = histories[fileId];
+    if (history) checkout(fileId, history.index - 1);
+  }, [histories, checkout]);
+
+  const redo = useCallback((fileId: string) => {
+    const history = histories[fileId];
+    if (history) checkout(fileId, history.index + 1);
+  }, [histories, checkout]);
+
+  const forget = useCallback((fileId: string) => {
+    setHistories(prev => { const next = { ...prev }; delete next[fileId]; return next; });
+    setActiveFileId(prev => prev === fileId ? null : prev);
+  }, []);
+
+  const clear = useCallback(() => {
+    setHistories({});
+    setActiveFileId(null);
+  }, []);
+
+  /** Replaces all histories, e.g. with a restored session. The files must already show each current version. */
+  const restore = useCallback((restored: Record<string, DocumentHistory>) => {
+    setHistories(restored);
+    setActiveFileId(null);
+  }, []);
+
+  // Stable between renders so consumers can list it as an effect dependency
+  return useMemo(
+    () => ({ histories, activeFileId, commit, checkout, undo, redo, forget, clear, restore }),
+    [histories, activeFileId, commit, checkout, undo, redo, forget, clear, restore]
+  );
+};
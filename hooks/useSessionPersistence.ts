@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  SessionSnapshot, StoredSession, SaveReport, StoragePreferences, isStorageAvailable, loadSession, saveSession, discardSession,
+  wipeLocalData, loadPreferences, savePreferences
+} from '../services/sessionStore';
+
+/** Saves are batched so a burst of edits (typing in a config field) writes once. */
+const SAVE_DELAY = 1000;
+
+type Status = 'loading' | 'pending' | 'ready';
+
+/**
+ * Keeps the workbench in IndexedDB. A session found on startup is held back until the user resumes or
+ * discards it; nothing is saved before then, so an empty start cannot overwrite it.
+ */
+export const useSessionPersistence = (snapshot: SessionSnapshot, onRestore: (session: StoredSession) => void) => {
+  const [preferences, setPreferencesState] = useState<StoragePreferences>(loadPreferences);
+  const [status, setStatus] = useState<Status>(isStorageAvailable() && preferences.enabled ? 'loading' : 'ready');
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  const [report, setReport] = useState<SaveReport | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== 'loading') return;
+    loadSession()
+      .then(session => {
+        const hasContent = !!session && (session.files.length > 0 || session.settings.pipelineSteps.length > 0);
+        // Settings alone are not worth a prompt; they are simply carried over
+        if (session && !hasContent) onRestore(session);
+        setPendingSession(hasContent ? session : null);
+        setStatus(hasContent ? 'pending' : 'ready');
+      })
+      .catch(() => setStatus('ready'));
+    // Runs once on startup; onRestore only calls state setters
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'ready' || !preferences.enabled || !isStorageAvailable()) return;
+    const timer = setTimeout(() => {
+      saveSession(snapshot, preferences.quotaMb)
+        .then(result => { setReport(result); setSaveError(null); })
+        .catch(err => setSaveError(err instanceof Error && err.name === 'QuotaExceededError'
+          ? 'The browser refused to store more data. Lower the quota or free up disk space.'
+          : 'The session could not be saved in this browser.'));
+    }, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [snapshot, preferences, status]);
+
+  const resume = useCallback(() => {
+    if (pendingSession) onRestore(pendingSession);
+    setPendingSession(null);
+    setStatus('ready');
+  }, [pendingSession, onRestore]);
+
+  const discard = useCallback(async () => {
+    setPendingSession(null);
+    await discardSession().catch(() => undefined);
+    setStatus('ready');
+  }, []);
+
+  const setPreferences = useCallback(async (next: StoragePreferences) => {
+    savePreferences(next);
+    setPreferencesState(next);
+    // Turning saving off should not leave the last session behind to be offered again
+    if (!next.enabled) {
+      await discardSession().catch(() => undefined);
+      setReport(null);
+    }
+  }, []);
+
+  /** Deletes everything stored and stops saving until the user turns it back on. */
+  const wipe = useCallback(async () => {
+    await wipeLocalData();
+    const next = { ...loadPreferences(), enabled: false };
+    savePreferences(next);
+    setPreferencesState(next);
+    setReport(null);
+    setSaveError(null);
+  }, []);
+
+  return { status, pendingSession, resume, discard, preferences, setPreferences, report, saveError, wipe };
+};
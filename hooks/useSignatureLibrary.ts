@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect } from 'react';
+import { SavedSignature, SignatureKind } from '../types';
+import { createId } from '../utils/ids';
+
+const STORAGE_KEY = 'pdf-tools.signatures';
+
+const load = (): SavedSignature[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Signatures and initials saved in this browser, so they can be placed again in later sessions.
+ * Writes are best effort: when storage is full or disabled the library still works for the session.
+ */
+export const useSignatureLibrary = () => {
+  const [signatures, setSignatures] = useState<SavedSignature[]>(load);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(signatures));
+    } catch {
+      // Quota exceeded or storage blocked; keep the in-memory copy
+    }
+  }, [signatures]);
+
+  const add = useCallback((kind: SignatureKind, image: { dataUrl: string; width: number; height: number }) => {
+    const signature: SavedSignature = { id: createId(), kind, ...image, createdAt: Date.now() };
+    setSignatures(prev => [signature, ...prev]);
+    return signature;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setSignatures(prev => prev.filter(sig => sig.id !== id));
+  }, []);
+
+  const clear = useCallback(() => setSignatures([]), []);
+
+  return { signatures, add, remove, clear };
+};
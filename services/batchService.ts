@@ -0,0 +1,91 @@
+import { PDFFile } from '../types';
+import { createZip, isJobCancelled } from './pdfService';
+import { POOL_SIZE } from './workerPool';
+
+export interface BatchEntry {
+  name: string;
+  data: Uint8Array | Blob | string;
+}
+
+export interface BatchResult {
+  fileId: string;
+  name: string;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+export type BatchTask = (
+  file: File,
+  onProgress: (current: number, total: number) => void
+) => Promise<BatchEntry[]>;
+
+export const uniqueName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let n = 2;
+  while (taken.has(`${base}_${n}${ext}`)) n++;
+  return `${base}_${n}${ext}`;
+};
+
+const buildSummary = (results: BatchResult[]): string => {
+  const succeeded = results.filter(r => r.status === 'success');
+  const lines = [
+    `Batch run: ${succeeded.length} of ${results.length} files succeeded`,
+    '',
+    ...results.map(r => r.status === 'success' ? `OK      ${r.name}` : `FAILED  ${r.name}: ${r.error}`),
+  ];
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Runs a single-file task over every file, several at a time so the worker pool stays busy.
+ * A failing file is recorded and skipped so the rest of the run still completes; all outputs
+ * plus a summary are packed into one ZIP in workspace order. Cancellation aborts the whole run.
+ */
+export const runBatch = async (
+  files: PDFFile[],
+  task: BatchTask,
+  onProgress?: (fileId: string, current: number, total: number) => void,
+  onResult?: (result: BatchResult) => void
+): Promise<{ zip: Blob | null; results: BatchResult[] }> => {
+  const outputs: BatchEntry[][] = [];
+  const results: BatchResult[] = [];
+  let cursor = 0;
+  let cancelled: unknown = null;
+
+  const next = async () => {
+    while (cursor < files.length && !cancelled) {
+      const index = cursor++;
+      const f = files[index];
+      onProgress?.(f.id, 0, 1);
+      try {
+        outputs[index] = await task(f.file, (current, total) => onProgress?.(f.id, current, total));
+        results[index] = { fileId: f.id, name: f.name, status: 'success' };
+      } catch (err) {
+        if (isJobCancelled(err)) {
+          cancelled = err;
+          return;
+        }
+        results[index] = { fileId: f.id, name: f.name, status: 'failed', error: err instanceof Error ? err.message : String(err) };
+      }
+      onResult?.(results[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(POOL_SIZE, files.length) }, next));
+  if (cancelled) throw cancelled;
+
+  const taken = new Set<string>();
+  const entries: BatchEntry[] = [];
+  outputs.forEach(fileOutputs => fileOutputs?.forEach(entry => {
+    const name = uniqueName(entry.name, taken);
+    taken.add(name);
+    entries.push({ ...entry, name });
+  }));
+
+  if (entries.length === 0) return { zip: null, results };
+  entries.push({ name: 'batch_summary.txt', data: buildSummary(results) });
+  return { zip: await createZip(entries), results };
+};
@@ -0,0 +1,262 @@
+import { PDFDocument, PDFFont, PDFPage, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { ComparisonResult, DiffOp, PageComparison } from '../types';
+import { openPdfJsRange, ProgressCallback, renderPageLuminance } from './pdfCore';
+import { alignPages, condenseSegments, describePagePair, diffWords, isPageChanged, summarizeComparison, tokenize } from '../utils/documentDiff';
+import { drawableTextFilter, isoDate } from '../utils/textTemplate';
+
+// Compares two documents page by page: pages are paired by their text, then each pair is diffed
+// word by word and rendered at the same width for a pixel overlay. The reports are built here too,
+// so exporting a large comparison does not block the UI.
+
+/** Pages are compared at this width in pixels, enough to show a changed comma. */
+const COMPARE_WIDTH = 1000;
+
+/** Luminance difference below which two pixels count as the same; absorbs anti-aliasing noise. */
+const PIXEL_THRESHOLD = 48;
+
+/** How strongly unchanged content shows in the overlay, so the coloured changes stand out. */
+const BASE_OPACITY = 0.25;
+
+const REMOVED_COLOR = [220, 38, 38];
+const ADDED_COLOR = [22, 163, 74];
+
+/** Unchanged words kept either side of a change in the reports. */
+const REPORT_CONTEXT_WORDS = 12;
+
+const UNCHANGED_TEXT_NOTE = 'The text is unchanged; only the rendered page differs.';
+
+const pageWords = async (pdf: PDFDocumentProxy) => {
+  const pages: string[][] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    // Marked-content items carry no text; the rest are pdf.js TextItems
+    pages.push(tokenize(textContent.items.map(item => 'str' in item ? item.str : '').join(' ')));
+    page.cleanup();
+  }
+  return pages;
+};
+
+/**
+ * Renders both pages at the same width and paints the differences over a faded copy of the
+ * original. Pages of different heights are compared against white below the shorter one.
+ */
+const diffPageImages = async (left: PDFPageProxy, right: PDFPageProxy) => {
+  const a = await renderPageLuminance(left, COMPARE_WIDTH);
+  const b = await renderPageLuminance(right, COMPARE_WIDTH);
+  const width = Math.max(a.width, b.width);
+  const height = Math.max(a.height, b.height);
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not create canvas context');
+  const image = context.createImageData(width, height);
+  const { data } = image;
+  let changed = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const before = x < a.width && y < a.height ? a.luminance[y * a.width + x] : 255;
+      const after = x < b.width && y < b.height ? b.luminance[y * b.width + x] : 255;
+      const o = (y * width + x) * 4;
+      if (Math.abs(before - after) > PIXEL_THRESHOLD) {
+        changed++;
+        const color = before < after ? REMOVED_COLOR : ADDED_COLOR;
+        data[o] = color[0];
+        data[o + 1] = color[1];
+        data[o + 2] = color[2];
+      } else {
+        data[o] = data[o + 1] = data[o + 2] = 255 - (255 - Math.min(before, after)) * BASE_OPACITY;
+      }
+      data[o + 3] = 255;
+    }
+  }
+  let overlay: Blob | null = null;
+  if (changed > 0) {
+    context.putImageData(image, 0, 0);
+    overlay = await canvas.convertToBlob({ type: 'image/png' });
+  }
+  canvas.width = 0;
+  canvas.height = 0;
+  return { pixelChange: changed / (width * height), overlay };
+};
+
+/** Compares the revised document against the original. Progress counts page pairs. */
+export const compareDocuments = async (left: Blob, right: Blob, onProgress?: ProgressCallback): Promise<PageComparison[]> => {
+  const [original, revised] = await Promise.all([openPdfJsRange(left), openPdfJsRange(right)]);
+  try {
+    const leftWords = await pageWords(original);
+    const rightWords = await pageWords(revised);
+    const pairs = alignPages(leftWords, rightWords);
+    const pages: PageComparison[] = [];
+    for (const [leftIndex, rightIndex] of pairs) {
+      const segments = diffWords(leftIndex === null ? [] : leftWords[leftIndex], rightIndex === null ? [] : rightWords[rightIndex]);
+      let pixels: { pixelChange: number; overlay: Blob | null } = { pixelChange: 1, overlay: null };
+      if (leftIndex !== null && rightIndex !== null) {
+        const leftPage = await original.getPage(leftIndex + 1);
+        const rightPage = await revised.getPage(rightIndex + 1);
+        pixels = await diffPageImages(leftPage, rightPage);
+        leftPage.cleanup();
+        rightPage.cleanup();
+      }
+      pages.push({ leftIndex, rightIndex, segments, ...pixels });
+      if (onProgress) onProgress(pages.length, pairs.length);
+    }
+    return pages;
+  } finally {
+    await Promise.all([original.destroy(), revised.destroy()]);
+  }
+};
+
+const summaryLines = (result: ComparisonResult) => {
+  const summary = summarizeComparison(result.pages);
+  return [
+    `${summary.changed} of ${summary.pages} pages differ (${summary.added} added, ${summary.removed} removed).`,
+    `${summary.wordsInserted} words inserted, ${summary.wordsDeleted} words deleted.`,
+  ];
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toDataUrl = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked, since spreading a whole image into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${blob.type};base64,${btoa(binary)}`;
+};
+
+const HTML_TAGS: Record<DiffOp, [string, string]> = { equal: ['', ''], insert: ['<ins>', '</ins>'], delete: ['<del>', '</del>'] };
+
+const REPORT_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #64748b; margin: 0.25rem 0; }
+  section { border-top: 1px solid #e2e8f0; padding: 1.5rem 0; }
+  img { max-width: 100%; border: 1px solid #e2e8f0; }
+  .text { line-height: 1.7; }
+  ins { background: #dcfce7; color: #166534; text-decoration: none; }
+  del { background: #fee2e2; color: #991b1b; }
+`;
+
+/** A standalone HTML page listing every changed page with its overlay and word diff. */
+export const buildComparisonReportHtml = async (result: ComparisonResult): Promise<string> => {
+  const sections: string[] = [];
+  for (const page of result.pages.filter(isPageChanged)) {
+    const image = page.overlay ? `<img src="${await toDataUrl(page.overlay)}" alt="Differences on this page">` : '';
+    const text = page.segments.some(s => s.op !== 'equal')
+      ? condenseSegments(page.segments, REPORT_CONTEXT_WORDS).map(s => `${HTML_TAGS[s.op][0]}${escapeHtml(s.text)}${HTML_TAGS[s.op][1]}`).join(' ')
+      : UNCHANGED_TEXT_NOTE;
+    sections.push(`<section><h2>${escapeHtml(describePagePair(page))}</h2>${image}<p class="text">${text}</p></section>`);
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Comparison of ${escapeHtml(result.leftName)} and ${escapeHtml(result.rightName)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>Comparison report</h1>
+<p class="meta">Original: ${escapeHtml(result.leftName)}</p>
+<p class="meta">Revised: ${escapeHtml(result.rightName)}</p>
+<p class="meta">Created ${isoDate()}</p>
+${summaryLines(result).map(line => `<p>${line}</p>`).join('\n')}
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+const REPORT_MARGIN = 48;
+const REPORT_TITLE_SIZE = 20;
+const REPORT_HEADING_SIZE = 13;
+const REPORT_TEXT_SIZE = 10;
+const REPORT_LINE_HEIGHT = 15;
+/** Overlays are scaled down to at most this height so a heading and some text fit beside them. */
+const REPORT_MAX_IMAGE_HEIGHT = 420;
+
+const REPORT_COLORS: Record<DiffOp, ReturnType<typeof rgb>> = {
+  equal: rgb(0.2, 0.25, 0.33),
+  insert: rgb(0.09, 0.5, 0.24),
+  delete: rgb(0.75, 0.12, 0.12),
+};
+
+/** The same report as a PDF, drawn with the standard fonts so it needs nothing embedded. */
+export const buildComparisonReportPdf = async (result: ComparisonResult): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  // Extracted text can hold anything; the standard fonts only cover WinAnsi
+  const clean = drawableTextFilter(font);
+
+  const [width, height] = PageSizes.A4;
+  const right = width - REPORT_MARGIN;
+  let page: PDFPage = pdfDoc.addPage([width, height]);
+  let y = height - REPORT_MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed >= REPORT_MARGIN) return;
+    page = pdfDoc.addPage([width, height]);
+    y = height - REPORT_MARGIN;
+  };
+
+  const line = (text: string, size: number, lineFont: PDFFont, gap = REPORT_LINE_HEIGHT) => {
+    ensureSpace(gap);
+    y -= gap;
+    page.drawText(clean(text), { x: REPORT_MARGIN, y, size, font: lineFont, color: REPORT_COLORS.equal, maxWidth: right - REPORT_MARGIN });
+  };
+
+  line('Comparison report', REPORT_TITLE_SIZE, bold, REPORT_TITLE_SIZE);
+  y -= 8;
+  line(`Original: ${result.leftName}`, REPORT_TEXT_SIZE, font);
+  line(`Revised: ${result.rightName}`, REPORT_TEXT_SIZE, font);
+  line(`Created ${isoDate()}`, REPORT_TEXT_SIZE, font);
+  y -= 6;
+  summaryLines(result).forEach(text => line(text, REPORT_TEXT_SIZE, bold));
+
+  for (const comparison of result.pages.filter(isPageChanged)) {
+    y -= 18;
+    line(describePagePair(comparison), REPORT_HEADING_SIZE, bold, REPORT_HEADING_SIZE + 6);
+    y -= 6;
+
+    if (comparison.overlay) {
+      const image = await pdfDoc.embedPng(await comparison.overlay.arrayBuffer());
+      const scale = Math.min((right - REPORT_MARGIN) / image.width, REPORT_MAX_IMAGE_HEIGHT / image.height);
+      const size = { width: image.width * scale, height: image.height * scale };
+      ensureSpace(size.height);
+      y -= size.height;
+      page.drawImage(image, { x: REPORT_MARGIN + (right - REPORT_MARGIN - size.width) / 2, y, ...size });
+      y -= 6;
+    }
+
+    if (!comparison.segments.some(s => s.op !== 'equal')) {
+      line(UNCHANGED_TEXT_NOTE, REPORT_TEXT_SIZE, font);
+      continue;
+    }
+
+    // Words flow like a paragraph; each keeps the colour of its segment
+    let x = right;
+    const space = font.widthOfTextAtSize(' ', REPORT_TEXT_SIZE);
+    for (const segment of condenseSegments(comparison.segments, REPORT_CONTEXT_WORDS)) {
+      for (const word of tokenize(clean(segment.text))) {
+        const wordWidth = font.widthOfTextAtSize(word, REPORT_TEXT_SIZE);
+        if (x + wordWidth > right) {
+          ensureSpace(REPORT_LINE_HEIGHT);
+          y -= REPORT_LINE_HEIGHT;
+          x = REPORT_MARGIN;
+        }
+        const color = REPORT_COLORS[segment.op];
+        page.drawText(word, { x, y, size: REPORT_TEXT_SIZE, font, color });
+        if (segment.op === 'delete') {
+          page.drawLine({ start: { x, y: y + REPORT_TEXT_SIZE * 0.3 }, end: { x: x + wordWidth, y: y + REPORT_TEXT_SIZE * 0.3 }, thickness: 0.7, color });
+        } else if (segment.op === 'insert') {
+          page.drawLine({ start: { x, y: y - 1.5 }, end: { x: x + wordWidth, y: y - 1.5 }, thickness: 0.7, color });
+        }
+        x += wordWidth + space;
+      }
+    }
+  }
+
+  return await pdfDoc.save();
+};
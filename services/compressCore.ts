@@ -0,0 +1,199 @@
+import { PDFArray, PDFContext, PDFDict, PDFDocument, PDFName, PDFNumber, PDFObject, PDFRawStream, PDFRef, PDFStream, decodePDFRawStream } from 'pdf-lib';
+import type { CompressionPreset } from '../types';
+import type { ProgressCallback } from './pdfCore';
+
+// Size reduction in three passes: re-encode oversized images as JPEG, merge byte-identical
+// streams (fonts and images embedded once per merged file), then drop objects nothing points to.
+// The result is written with object streams so the remaining small objects share compression.
+
+export const COMPRESSION_PRESETS: Record<CompressionPreset, { label: string; description: string; dpi: number; quality: number }> = {
+  screen: { label: 'Screen', description: '72 DPI images, smallest files for on-screen reading', dpi: 72, quality: 0.5 },
+  ebook: { label: 'eBook', description: '150 DPI images, a good balance for most documents', dpi: 150, quality: 0.7 },
+  print: { label: 'Print', description: '300 DPI images, keeps detail for printing', dpi: 300, quality: 0.85 },
+};
+
+const name = (value: string) => PDFName.of(value);
+
+const numberOf = (dict: PDFDict, key: string) => {
+  const value = dict.get(name(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const filtersOf = (dict: PDFDict): string[] => {
+  const filter = dict.get(name('Filter'));
+  if (filter instanceof PDFName) return [filter.asString()];
+  if (filter instanceof PDFArray) return filter.asArray().map(f => (f as PDFName).asString());
+  return [];
+};
+
+/**
+ * Number of colour channels for the colour spaces we can decode without a colour management step.
+ * ICC-based images are left alone: re-encoding them as DeviceRGB would drop the profile.
+ */
+const channelsOf = (context: PDFContext, dict: PDFDict): 1 | 3 | null => {
+  const space = context.lookup(dict.get(name('ColorSpace')));
+  if (space === name('DeviceRGB')) return 3;
+  if (space === name('DeviceGray')) return 1;
+  return null;
+};
+
+/**
+ * pdf-lib's decoders ignore /DecodeParms, so PNG and TIFF predicted data would come out as garbled
+ * pixels of the right length. Such images are kept as they are.
+ */
+const usesPredictor = (context: PDFContext, dict: PDFDict) => {
+  const parms = context.lookup(dict.get(name('DecodeParms')));
+  const entries = parms instanceof PDFArray ? parms.asArray().map(entry => context.lookup(entry)) : [parms];
+  return entries.some(entry => entry instanceof PDFDict && (numberOf(entry, 'Predictor') ?? 1) > 1);
+};
+
+const decodeToBitmap = async (context: PDFContext, stream: PDFRawStream): Promise<ImageBitmap | null> => {
+  const { dict } = stream;
+  const filters = filtersOf(dict);
+  const channels = channelsOf(context, dict);
+  // Masks, palettes, CMYK and custom decode ranges would change appearance if naively converted. A
+  // /Mask colour key matches exact sample values, which JPEG does not keep
+  if (!channels || dict.get(name('ImageMask')) || dict.get(name('Mask')) || dict.get(name('Decode')) || numberOf(dict, 'BitsPerComponent') !== 8) return null;
+
+  if (filters.length === 1 && filters[0] === '/DCTDecode') {
+    return await createImageBitmap(new Blob([new Uint8Array(stream.contents)], { type: 'image/jpeg' }));
+  }
+  if (filters.some(f => f === '/DCTDecode' || f === '/JPXDecode' || f === '/JBIG2Decode' || f === '/CCITTFaxDecode')) return null;
+  if (usesPredictor(context, dict)) return null;
+
+  const width = numberOf(dict, 'Width')!;
+  const height = numberOf(dict, 'Height')!;
+  const pixels = filters.length > 0 ? decodePDFRawStream(stream).decode() : stream.contents;
+  if (pixels.length < width * height * channels) return null;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    rgba[i * 4] = pixels[p];
+    rgba[i * 4 + 1] = pixels[channels === 3 ? p + 1 : p];
+    rgba[i * 4 + 2] = pixels[channels === 3 ? p + 2 : p];
+    rgba[i * 4 + 3] = 255;
+  }
+  return await createImageBitmap(new ImageData(rgba, width, height));
+};
+
+/**
+ * Re-encodes each image whose pixel size exceeds what the target DPI needs at the document's largest
+ * page size. The image is kept only when the JPEG is actually smaller.
+ */
+const recompressImages = async (pdfDoc: PDFDocument, dpi: number, quality: number, onProgress?: ProgressCallback) => {
+  const context = pdfDoc.context;
+  const largestSide = Math.max(...pdfDoc.getPages().map(p => Math.max(p.getWidth(), p.getHeight())));
+  const maxPixels = Math.ceil((largestSide / 72) * dpi);
+  const images = context.enumerateIndirectObjects().filter(
+    (entry): entry is [PDFRef, PDFRawStream] => entry[1] instanceof PDFRawStream && entry[1].dict.get(name('Subtype')) === name('Image')
+  );
+
+  for (let i = 0; i < images.length; i++) {
+    const [ref, stream] = images[i];
+    const bitmap = await decodeToBitmap(context, stream).catch(() => null);
+    if (bitmap) {
+      const scale = Math.min(1, maxPixels / Math.max(bitmap.width, bitmap.height));
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        const jpeg = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/jpeg', quality })).arrayBuffer());
+        if (jpeg.length < stream.contents.length) {
+          const replacement = context.stream(jpeg, {
+            Type: 'XObject',
+            Subtype: 'Image',
+            Width: width,
+            Height: height,
+            ColorSpace: 'DeviceRGB',
+            BitsPerComponent: 8,
+            Filter: 'DCTDecode',
+          });
+          // Soft masks are separate images scaled to the same unit square, so they carry over as they are,
+          // as do the rendering hints
+          for (const key of ['SMask', 'Intent', 'Interpolate']) {
+            const value = stream.dict.get(name(key));
+            if (value) replacement.dict.set(name(key), value);
+          }
+          context.assign(ref, replacement);
+        }
+      }
+      bitmap.close();
+    }
+    if (onProgress) onProgress(i + 1, images.length);
+  }
+};
+
+const hashBytes = (bytes: Uint8Array) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) hash = Math.imul(hash ^ bytes[i], 0x01000193);
+  return (hash >>> 0).toString(16);
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Replaces every reference in `object` according to `replacements`, recursing into containers.
+ */
+const remapRefs = (object: PDFObject | undefined, replacements: Map<string, PDFRef>): void => {
+  if (object instanceof PDFStream) return remapRefs(object.dict, replacements);
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      if (value instanceof PDFRef && replacements.has(value.tag)) object.set(key, replacements.get(value.tag)!);
+      else remapRefs(value, replacements);
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      const value = object.get(i);
+      if (value instanceof PDFRef && replacements.has(value.tag)) object.set(i, replacements.get(value.tag)!);
+      else remapRefs(value, replacements);
+    }
+  }
+};
+
+const mergeDuplicateStreams = (context: PDFContext) => {
+  const seen = new Map<string, [PDFRef, PDFRawStream][]>();
+  const replacements = new Map<string, PDFRef>();
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const dict = object.dict.clone(context);
+    dict.delete(name('Length'));
+    const key = `${hashBytes(object.contents)}:${object.contents.length}:${dict.toString()}`;
+    const candidates = seen.get(key) ?? [];
+    const original = candidates.find(([, other]) => sameBytes(other.contents, object.contents));
+    if (original) replacements.set(ref.tag, original[0]);
+    else seen.set(key, [...candidates, [ref, object]]);
+  }
+  if (replacements.size === 0) return;
+  for (const [, object] of context.enumerateIndirectObjects()) remapRefs(object, replacements);
+  for (const [ref] of context.enumerateIndirectObjects()) if (replacements.has(ref.tag)) context.delete(ref);
+};
+
+export const removeUnreachableObjects = (context: PDFContext) => {
+  const reachable = new Set<string>();
+  const visit = (object: PDFObject | undefined) => {
+    if (object instanceof PDFRef) {
+      if (reachable.has(object.tag)) return;
+      reachable.add(object.tag);
+      visit(context.lookup(object));
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    } else if (object instanceof PDFDict) {
+      for (const [, value] of object.entries()) visit(value);
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(visit);
+    }
+  };
+  visit(context.trailerInfo.Root);
+  visit(context.trailerInfo.Info);
+  for (const [ref] of context.enumerateIndirectObjects()) if (!reachable.has(ref.tag)) context.delete(ref);
+};
+
+export const compressPDF = async (bytes: ArrayBuffer, preset: CompressionPreset, onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  const { dpi, quality } = COMPRESSION_PRESETS[preset];
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  await recompressImages(pdfDoc, dpi, quality, onProgress);
+  mergeDuplicateStreams(pdfDoc.context);
+  removeUnreachableObjects(pdfDoc.context);
+  return await pdfDoc.save({ useObjectStreams: true });
+};
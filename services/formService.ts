@@ -0,0 +1,117 @@
+import { FormFieldInfo, FormFieldValue } from '../types';
+import { createZip, fillForm, isJobCancelled } from './pdfService';
+import { POOL_SIZE } from './workerPool';
+import { uniqueName } from './batchService';
+
+export type DataRow = Record<string, string>;
+
+/** Column that, when present, names each filled file. */
+const FILE_NAME_COLUMN = 'filename';
+
+const TRUTHY = new Set(['true', 'yes', 'y', '1', 'x', 'on', 'checked']);
+
+/**
+ * RFC 4180 style: quoted cells may contain commas, doubled quotes and line breaks.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+/**
+ * Reads a CSV with a header row, or a JSON array of flat objects, into one record per output file.
+ */
+export const parseDataRows = (text: string, fileName: string): DataRow[] => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error('JSON data must be an array of objects.');
+    return data.map(item => Object.fromEntries(Object.entries(item ?? {}).map(([k, v]) => [k, Array.isArray(v) ? v.join(';') : String(v ?? '')])));
+  }
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  if (!header) throw new Error('The data file is empty.');
+  return rows.map(cells => Object.fromEntries(header.map((key, i) => [key.trim(), cells[i] ?? ''])));
+};
+
+/**
+ * Converts a row's strings into typed values for the fields it names. Columns without a matching field are ignored.
+ */
+export const rowToValues = (fields: FormFieldInfo[], row: DataRow): Record<string, FormFieldValue> => {
+  const values: Record<string, FormFieldValue> = {};
+  for (const field of fields) {
+    if (!(field.name in row)) continue;
+    const raw = row[field.name].trim();
+    if (field.type === 'checkbox') values[field.name] = TRUTHY.has(raw.toLowerCase());
+    else if (field.type === 'option-list') values[field.name] = raw.split(/\s*;\s*/).filter(Boolean);
+    else values[field.name] = raw;
+  }
+  return values;
+};
+
+/**
+ * Fills the form once per row, several rows at a time, and zips the results. Rows that fail are
+ * listed in a summary inside the ZIP instead of stopping the run.
+ */
+export const fillFormRows = async (
+  file: File,
+  baseName: string,
+  fields: FormFieldInfo[],
+  rows: DataRow[],
+  flatten: boolean,
+  onProgress?: (current: number, total: number) => void
+): Promise<{ zip: Blob; failed: number }> => {
+  const outputs: { name: string; data: Uint8Array }[] = [];
+  const failures: string[] = [];
+  const taken = new Set<string>();
+  let cursor = 0;
+  let done = 0;
+  let cancelled: unknown = null;
+
+  const next = async () => {
+    while (cursor < rows.length && !cancelled) {
+      const index = cursor++;
+      const row = rows[index];
+      const requested = row[FILE_NAME_COLUMN]?.trim().replace(/[\\/:*?"<>|]/g, '_');
+      const name = `${requested ? requested.replace(/\.pdf$/i, '') : `${baseName}_${index + 1}`}.pdf`;
+      try {
+        outputs[index] = { name, data: await fillForm(file, rowToValues(fields, row), flatten) };
+      } catch (err) {
+        if (isJobCancelled(err)) { cancelled = err; return; }
+        failures.push(`Row ${index + 1}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      onProgress?.(++done, rows.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(POOL_SIZE, rows.length) }, next));
+  if (cancelled) throw cancelled;
+  if (failures.length === rows.length) throw new Error(failures[0]);
+
+  const entries: { name: string; data: Uint8Array | string }[] = outputs.filter(Boolean).map(entry => {
+    const name = uniqueName(entry.name, taken);
+    taken.add(name);
+    return { ...entry, name };
+  });
+  if (failures.length > 0) entries.push({ name: 'fill_summary.txt', data: failures.join('\n') + '\n' });
+  return { zip: await createZip(entries), failed: failures.length };
+};
@@ -0,0 +1,62 @@
+import {
+  PDFDocument, PDFField, PDFTextField, PDFCheckBox, PDFRadioGroup, PDFDropdown, PDFOptionList, PDFSignature, PDFButton
+} from 'pdf-lib';
+import type { FormFieldInfo, FormFieldValue } from '../types';
+
+const describeField = (field: PDFField): FormFieldInfo => {
+  const base = { name: field.getName(), options: [] as string[], multiline: false, readOnly: field.isReadOnly(), required: field.isRequired() };
+  if (field instanceof PDFTextField) {
+    return { ...base, type: 'text', value: field.getText() ?? '', multiline: field.isMultiline(), maxLength: field.getMaxLength() };
+  }
+  if (field instanceof PDFCheckBox) return { ...base, type: 'checkbox', value: field.isChecked() };
+  if (field instanceof PDFRadioGroup) return { ...base, type: 'radio', value: field.getSelected() ?? '', options: field.getOptions() };
+  if (field instanceof PDFDropdown) return { ...base, type: 'dropdown', value: field.getSelected()[0] ?? '', options: field.getOptions() };
+  if (field instanceof PDFOptionList) return { ...base, type: 'option-list', value: field.getSelected(), options: field.getOptions() };
+  if (field instanceof PDFSignature) return { ...base, type: 'signature', value: '' };
+  return { ...base, type: 'button', value: '' };
+};
+
+export const getFormFields = async (bytes: ArrayBuffer): Promise<FormFieldInfo[]> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  return pdfDoc.getForm().getFields().map(describeField);
+};
+
+const applyValue = (field: PDFField, value: FormFieldValue) => {
+  if (field instanceof PDFTextField) {
+    const text = String(value);
+    text ? field.setText(text) : field.setText(undefined);
+  } else if (field instanceof PDFCheckBox) {
+    value ? field.check() : field.uncheck();
+  } else if (field instanceof PDFRadioGroup) {
+    if (value) field.select(String(value));
+    else field.clear();
+  } else if (field instanceof PDFDropdown) {
+    if (value) field.select(String(value));
+    else field.clear();
+  } else if (field instanceof PDFOptionList) {
+    const selected = Array.isArray(value) ? value : String(value).split(/\s*;\s*/).filter(Boolean);
+    if (selected.length > 0) field.select(selected);
+    else field.clear();
+  }
+  // Signatures and push buttons carry no fillable value
+};
+
+/**
+ * Writes values by field name; names that are not in the form are ignored so one data file can
+ * serve several form revisions. Flattening bakes the values into the page content and removes the fields.
+ */
+export const fillForm = async (bytes: ArrayBuffer, values: Record<string, FormFieldValue>, flatten: boolean): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const form = pdfDoc.getForm();
+  for (const field of form.getFields()) {
+    const name = field.getName();
+    if (!(name in values) || field instanceof PDFSignature || field instanceof PDFButton) continue;
+    try {
+      applyValue(field, values[name]);
+    } catch (err) {
+      throw new Error(`Field "${name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  if (flatten) form.flatten();
+  return await pdfDoc.save();
+};
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFContext, PDFDict, PDFDocument, PDFName, PDFObject, PDFRawStream, PDFRef, PDFString, decodePDFRawStream } from 'pdf-lib';
+import { readMetadata, sanitizePDF, writeMetadata } from './metadataCore';
+
+const latin1 = new TextDecoder('latin1');
+
+const toBuffer = (bytes: Uint8Array) => bytes.slice().buffer;
+
+interface Layers {
+  shown: PDFRef;
+  hidden: PDFRef;
+}
+
+/**
+ * One page with a layer that is on and one that is off when the document opens. Each drawing in
+ * `content` is a rectangle with its own coordinates, so the tests can tell which survived.
+ */
+const createLayeredFixture = async (content: string[], properties: (layers: Layers, context: PDFContext) => Record<string, PDFObject>) => {
+  const pdfDoc = await PDFDocument.create();
+  const { context } = pdfDoc;
+  const page = pdfDoc.addPage([300, 400]);
+  const layers = {
+    shown: context.register(context.obj({ Type: 'OCG', Name: PDFString.of('Shown') })),
+    hidden: context.register(context.obj({ Type: 'OCG', Name: PDFString.of('Hidden') })),
+  };
+  pdfDoc.catalog.set(PDFName.of('OCProperties'), context.obj({ OCGs: [layers.shown, layers.hidden], D: { OFF: [layers.hidden] } }));
+  page.node.Resources()!.set(PDFName.of('Properties'), context.obj(properties(layers, context)));
+  page.node.set(PDFName.of('Contents'), context.register(context.flateStream(content.join('\n'))));
+  return toBuffer(await pdfDoc.save());
+};
+
+const pageContent = async (bytes: Uint8Array) => {
+  const pdfDoc = await PDFDocument.load(bytes);
+  const stream = pdfDoc.context.lookup(pdfDoc.getPage(0).node.get(PDFName.of('Contents')));
+  if (!(stream instanceof PDFRawStream)) throw new Error('Expected a single content stream');
+  return { pdfDoc, content: latin1.decode(decodePDFRawStream(stream).decode()) };
+};
+
+describe('metadataCore', () => {
+  it('removes the content of a hidden layer together with the layer definitions', async () => {
+    const fixture = await createLayeredFixture(
+      ['10 10 50 50 re f', '/OC /MC0 BDC 20 20 5 5 re f EMC', '/OC /MC1 BDC 111 111 11 11 re f EMC'],
+      ({ shown, hidden }) => ({ MC0: shown, MC1: hidden })
+    );
+    expect((await readMetadata(fixture)).findings.hiddenLayers).toBe(1);
+
+    const { data, report } = await sanitizePDF(fixture);
+    expect(report.hiddenLayers).toBe(1);
+    const { pdfDoc, content } = await pageContent(data);
+    expect(content).toContain('10 10 50 50 re');
+    expect(content).toContain('20 20 5 5 re');
+    expect(content).not.toContain('111 111 11 11 re');
+    expect(pdfDoc.catalog.has(PDFName.of('OCProperties'))).toBe(false);
+  });
+
+  it('evaluates membership policies and visibility expressions', async () => {
+    const fixture = await createLayeredFixture(
+      [
+        '/OC /AllOn BDC 101 0 1 1 re f EMC',
+        '/OC /AnyOn BDC 102 0 1 1 re f EMC',
+        '/OC/AnyOff BDC 103 0 1 1 re f EMC',
+        '/OC /AllOff BDC 104 0 1 1 re f EMC',
+        '/OC /NotShown BDC 105 0 1 1 re f EMC',
+        '/OC /ShownOrHidden BDC 106 0 1 1 re f EMC',
+      ],
+      ({ shown, hidden }, context) => ({
+        AllOn: context.obj({ Type: 'OCMD', OCGs: [shown, hidden], P: 'AllOn' }),
+        AnyOn: context.obj({ Type: 'OCMD', OCGs: [shown, hidden] }),
+        AnyOff: context.obj({ Type: 'OCMD', OCGs: [shown, hidden], P: 'AnyOff' }),
+        AllOff: context.obj({ Type: 'OCMD', OCGs: shown, P: 'AllOff' }),
+        NotShown: context.obj({ Type: 'OCMD', OCGs: [hidden], VE: ['Not', shown] }),
+        ShownOrHidden: context.obj({ Type: 'OCMD', VE: ['Or', shown, hidden] }),
+      })
+    );
+    const { pdfDoc, content } = await pageContent((await sanitizePDF(fixture)).data);
+    const kept = [101, 102, 103, 104, 105, 106].filter(x => content.includes(`${x} 0 1 1 re`));
+    expect(kept).toEqual([102, 103, 106]);
+    expect(pdfDoc.catalog.has(PDFName.of('OCProperties'))).toBe(false);
+  });
+
+  it('keeps the layer definitions when a section cannot be resolved', async () => {
+    const fixture = await createLayeredFixture(
+      ['/OC /MC1 BDC 111 111 11 11 re f EMC', '/OC /Missing BDC 122 122 12 12 re f EMC', '/OC << /Type /OCMD >> BDC 133 133 13 13 re f EMC'],
+      ({ hidden }) => ({ MC1: hidden })
+    );
+    const { pdfDoc, content } = await pageContent((await sanitizePDF(fixture)).data);
+    expect(content).not.toContain('111 111 11 11 re');
+    // Still marked as optional content, so readers keep hiding what could not be placed
+    expect(content).toContain('/OC /Missing BDC 122 122 12 12 re');
+    expect(content).toContain('133 133 13 13 re');
+    expect(pdfDoc.catalog.has(PDFName.of('OCProperties'))).toBe(true);
+  });
+
+  it('removes scripts chained through an array of /Next actions', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const { context } = pdfDoc;
+    pdfDoc.addPage([300, 400]);
+    pdfDoc.catalog.set(PDFName.of('OpenAction'), context.obj({
+      S: 'URI',
+      URI: PDFString.of('https://example.com/'),
+      Next: [context.obj({ S: 'JavaScript', JS: PDFString.of('app.alert(1)') }), context.obj({ S: 'Named', N: 'NextPage' })],
+    }));
+    const fixture = toBuffer(await pdfDoc.save());
+    expect((await readMetadata(fixture)).findings.scripts).toBe(1);
+
+    const sanitized = await PDFDocument.load((await sanitizePDF(fixture)).data);
+    const openAction = sanitized.catalog.lookup(PDFName.of('OpenAction'), PDFDict);
+    const next = openAction.lookup(PDFName.of('Next'), PDFArray);
+    expect(next.size()).toBe(1);
+    expect(next.lookup(0, PDFDict).get(PDFName.of('S'))).toBe(PDFName.of('Named'));
+  });
+
+  it('updates the XMP packet in place and keeps the properties it does not edit', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([300, 400]);
+    pdfDoc.setTitle('Old title');
+    const packet = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/" pdfaid:part="1" pdfaid:conformance="B"/>
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/">
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Old title</rdf:li></rdf:Alt></dc:title>
+<xmpMM:DocumentID>uuid:fixture-document</xmpMM:DocumentID>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+    const metadata = pdfDoc.context.stream(new TextEncoder().encode(packet), { Type: 'Metadata', Subtype: 'XML' });
+    pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(metadata));
+
+    const updated = await writeMetadata(toBuffer(await pdfDoc.save()), { title: 'New title' });
+    const { metadata: info, xmp } = await readMetadata(toBuffer(updated));
+    expect(info.title).toBe('New title');
+    expect(xmp).toContain('pdfaid:part="1"');
+    expect(xmp).toContain('pdfaid:conformance="B"');
+    expect(xmp).toContain('<xmpMM:DocumentID>uuid:fixture-document</xmpMM:DocumentID>');
+    expect(xmp).toContain('New title');
+    expect(xmp).not.toContain('Old title');
+  });
+});
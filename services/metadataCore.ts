@@ -0,0 +1,546 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNull, PDFObject, PDFRawStream, PDFRef, PDFStream, decodePDFRawStream } from 'pdf-lib';
+import type { DocumentMetadata, MetadataInspection, SanitizeReport } from '../types';
+import { removeUnreachableObjects } from './compressCore';
+
+// Document information and everything else a file carries besides its pages. Files are loaded with
+// `updateMetadata: false`, otherwise pdf-lib stamps its own producer and dates over what we read or write.
+
+const name = (value: string) => PDFName.of(value);
+
+const METADATA_FIELDS: (keyof DocumentMetadata)[] = ['title', 'author', 'subject', 'keywords', 'creator', 'producer', 'creationDate', 'modificationDate'];
+
+const INFO_KEYS: Record<keyof DocumentMetadata, string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+  producer: 'Producer',
+  creationDate: 'CreationDate',
+  modificationDate: 'ModDate',
+};
+
+const loadForMetadata = (bytes: ArrayBuffer) => PDFDocument.load(bytes, { updateMetadata: false });
+
+const infoDict = (pdfDoc: PDFDocument) => {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  return info instanceof PDFDict ? info : null;
+};
+
+const readInfo = (pdfDoc: PDFDocument): DocumentMetadata => ({
+  title: pdfDoc.getTitle() ?? '',
+  author: pdfDoc.getAuthor() ?? '',
+  subject: pdfDoc.getSubject() ?? '',
+  keywords: pdfDoc.getKeywords() ?? '',
+  creator: pdfDoc.getCreator() ?? '',
+  producer: pdfDoc.getProducer() ?? '',
+  creationDate: pdfDoc.getCreationDate()?.toISOString() ?? null,
+  modificationDate: pdfDoc.getModificationDate()?.toISOString() ?? null,
+});
+
+/** Writes every field; empty ones are removed from the dictionary rather than stored blank. */
+const writeInfo = (pdfDoc: PDFDocument, metadata: DocumentMetadata) => {
+  if (metadata.title) pdfDoc.setTitle(metadata.title);
+  if (metadata.author) pdfDoc.setAuthor(metadata.author);
+  if (metadata.subject) pdfDoc.setSubject(metadata.subject);
+  // One entry, so the keywords are stored exactly as typed instead of re-joined with spaces
+  if (metadata.keywords) pdfDoc.setKeywords([metadata.keywords]);
+  if (metadata.creator) pdfDoc.setCreator(metadata.creator);
+  if (metadata.producer) pdfDoc.setProducer(metadata.producer);
+  if (metadata.creationDate) pdfDoc.setCreationDate(new Date(metadata.creationDate));
+  if (metadata.modificationDate) pdfDoc.setModificationDate(new Date(metadata.modificationDate));
+  const info = infoDict(pdfDoc);
+  if (!info) return;
+  METADATA_FIELDS.forEach(field => { if (!metadata[field]) info.delete(name(INFO_KEYS[field])); });
+};
+
+const decodeStream = (stream: PDFRawStream) =>
+  stream.dict.has(name('Filter')) ? decodePDFRawStream(stream).decode() : stream.contents;
+
+const readXmp = (pdfDoc: PDFDocument) => {
+  const stream = pdfDoc.catalog.lookup(name('Metadata'));
+  if (!(stream instanceof PDFRawStream)) return null;
+  try {
+    return new TextDecoder().decode(decodeStream(stream));
+  } catch {
+    return null;
+  }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const XMP_NAMESPACES = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  pdf: 'http://ns.adobe.com/pdf/1.3/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+};
+
+/** The XMP properties kept in step with the information dictionary, by namespace and local name. */
+const EDITED_XMP_PROPERTIES: [keyof typeof XMP_NAMESPACES, string][] = [
+  ['dc', 'title'], ['dc', 'creator'], ['dc', 'description'], ['pdf', 'Keywords'], ['pdf', 'Producer'],
+  ['xmp', 'CreatorTool'], ['xmp', 'CreateDate'], ['xmp', 'ModifyDate'],
+];
+
+/** One description holding the edited properties. It declares its own namespaces, so it fits into any packet. */
+const buildXmpDescription = (metadata: DocumentMetadata) => {
+  const text = (tag: string, value: string) => value ? `<${tag}>${escapeXml(value)}</${tag}>` : '';
+  const alt = (tag: string, value: string) => value ? `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>` : '';
+  const creator = metadata.author ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>` : '';
+  const namespaces = Object.entries(XMP_NAMESPACES).map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`).join(' ');
+  return `<rdf:Description rdf:about="" ${namespaces}>
+${alt('dc:title', metadata.title)}${creator}${alt('dc:description', metadata.subject)}${text('pdf:Keywords', metadata.keywords)}${text('pdf:Producer', metadata.producer)}${text('xmp:CreatorTool', metadata.creator)}${text('xmp:CreateDate', metadata.creationDate ?? '')}${text('xmp:ModifyDate', metadata.modificationDate ?? '')}
+</rdf:Description>`;
+};
+
+/** A fresh XMP packet, for when the file's own packet cannot be edited. */
+const buildXmpPacket = (metadata: DocumentMetadata) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="${XMP_NAMESPACES.rdf}">
+${buildXmpDescription(metadata)}
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Swaps the edited properties of an existing packet for the new values and keeps everything else,
+ * such as the PDF/A identification and the document IDs. The packet is worked on as text because
+ * workers have no XML parser. Returns null when it has no RDF body to add to.
+ */
+const updateXmpPacket = (packet: string, metadata: DocumentMetadata) => {
+  // Packets may bind the namespaces to prefixes of their own
+  const prefixesOf = (uri: string) =>
+    [...packet.matchAll(new RegExp(`xmlns:([\\w.-]+)\\s*=\\s*["']${escapeRegExp(uri)}["']`, 'g'))].map(match => match[1]);
+  const rdf = prefixesOf(XMP_NAMESPACES.rdf)[0];
+  if (!rdf || !packet.includes(`</${rdf}:RDF>`)) return null;
+  let updated = packet;
+  for (const [namespace, property] of EDITED_XMP_PROPERTIES) {
+    for (const prefix of prefixesOf(XMP_NAMESPACES[namespace])) {
+      const tag = escapeRegExp(`${prefix}:${property}`);
+      updated = updated
+        .replace(new RegExp(`<${tag}(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</${tag}\\s*>)`, 'g'), '')
+        .replace(new RegExp(`\\s${tag}\\s*=\\s*(?:"[^"]*"|'[^']*')`, 'g'), '');
+    }
+  }
+  const end = updated.lastIndexOf(`</${rdf}:RDF>`);
+  return `${updated.slice(0, end)}${buildXmpDescription(metadata)}\n${updated.slice(end)}`;
+};
+
+/** Calls `visit` for every dictionary in the file, direct or indirect, including stream dictionaries. */
+const forEachDict = (pdfDoc: PDFDocument, visit: (dict: PDFDict) => void) => {
+  const seen = new Set<PDFObject>();
+  const walk = (object: PDFObject | undefined) => {
+    if (!object || seen.has(object)) return;
+    seen.add(object);
+    if (object instanceof PDFStream) {
+      walk(object.dict);
+    } else if (object instanceof PDFDict) {
+      visit(object);
+      for (const [, value] of object.entries()) walk(value);
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(walk);
+    }
+  };
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) walk(object);
+};
+
+/** Number of leaf entries in a name tree. */
+const countNameTree = (node: PDFObject | undefined, lookup: (o: PDFObject | undefined) => PDFObject | undefined, depth = 0): number => {
+  const dict = lookup(node);
+  if (!(dict instanceof PDFDict) || depth > 32) return 0;
+  const names = lookup(dict.get(name('Names')));
+  const kids = lookup(dict.get(name('Kids')));
+  return (names instanceof PDFArray ? Math.floor(names.size() / 2) : 0)
+    + (kids instanceof PDFArray ? kids.asArray().reduce((sum: number, kid) => sum + countNameTree(kid, lookup, depth + 1), 0) : 0);
+};
+
+const isJavaScriptAction = (pdfDoc: PDFDocument, value: PDFObject | undefined) => {
+  const action = pdfDoc.context.lookup(value);
+  return action instanceof PDFDict && action.get(name('S')) === name('JavaScript');
+};
+
+/** Removes script actions held under `key`, either one action or an array of them as /Next allows. */
+const removeScriptActions = (pdfDoc: PDFDocument, dict: PDFDict, key: string, dryRun: boolean) => {
+  const value = dict.get(name(key));
+  if (isJavaScriptAction(pdfDoc, value)) {
+    if (!dryRun) dict.delete(name(key));
+    return 1;
+  }
+  const actions = pdfDoc.context.lookup(value);
+  if (!(actions instanceof PDFArray)) return 0;
+  let count = 0;
+  for (let i = actions.size() - 1; i >= 0; i--) {
+    if (!isJavaScriptAction(pdfDoc, actions.get(i))) continue;
+    count++;
+    if (!dryRun) actions.remove(i);
+  }
+  if (!dryRun && count > 0 && actions.size() === 0) dict.delete(name(key));
+  return count;
+};
+
+/**
+ * Removes document-level scripts, script actions on links, fields and pages along with those chained
+ * after them through /Next, every additional-actions (/AA) trigger and XFA forms, which carry their
+ * own scripts. Returns how many were found.
+ */
+const removeScripts = (pdfDoc: PDFDocument, dryRun: boolean) => {
+  const lookup = (o: PDFObject | undefined) => pdfDoc.context.lookup(o);
+  let count = 0;
+  const names = lookup(pdfDoc.catalog.get(name('Names')));
+  if (names instanceof PDFDict && names.has(name('JavaScript'))) {
+    count += Math.max(1, countNameTree(names.get(name('JavaScript')), lookup));
+    if (!dryRun) names.delete(name('JavaScript'));
+  }
+  const acroForm = lookup(pdfDoc.catalog.get(name('AcroForm')));
+  if (acroForm instanceof PDFDict && acroForm.has(name('XFA'))) {
+    count++;
+    if (!dryRun) acroForm.delete(name('XFA'));
+  }
+  forEachDict(pdfDoc, dict => {
+    if (dict.has(name('AA'))) {
+      count++;
+      if (!dryRun) dict.delete(name('AA'));
+    }
+    for (const key of ['A', 'OpenAction', 'Next']) count += removeScriptActions(pdfDoc, dict, key, dryRun);
+  });
+  return count;
+};
+
+const removeFromAnnots = (pdfDoc: PDFDocument, shouldRemove: (annot: PDFDict) => boolean, dryRun: boolean) => {
+  let count = 0;
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+    for (let i = annots.size() - 1; i >= 0; i--) {
+      const annot = annots.lookup(i);
+      if (!(annot instanceof PDFDict) || !shouldRemove(annot)) continue;
+      count++;
+      if (!dryRun) annots.remove(i);
+    }
+  }
+  return count;
+};
+
+/** Removes embedded files, both the document-level list and file attachment annotations. */
+const removeAttachments = (pdfDoc: PDFDocument, dryRun: boolean) => {
+  const lookup = (o: PDFObject | undefined) => pdfDoc.context.lookup(o);
+  let count = 0;
+  const names = lookup(pdfDoc.catalog.get(name('Names')));
+  if (names instanceof PDFDict && names.has(name('EmbeddedFiles'))) {
+    count += countNameTree(names.get(name('EmbeddedFiles')), lookup);
+    if (!dryRun) names.delete(name('EmbeddedFiles'));
+  }
+  // Associated files (PDF/A-3) point at file specifications too
+  if (!dryRun) pdfDoc.catalog.delete(name('AF'));
+  count += removeFromAnnots(pdfDoc, annot => annot.get(name('Subtype')) === name('FileAttachment'), dryRun);
+  return count;
+};
+
+interface OptionalContent {
+  /** Every group the document declares. */
+  groups: Set<PDFRef>;
+  /** Groups that are off when the document opens. */
+  hidden: Set<PDFRef>;
+}
+
+/** The document's optional content groups, or null when it declares none. */
+const optionalContent = (pdfDoc: PDFDocument): OptionalContent | null => {
+  const lookup = (o: PDFObject | undefined) => pdfDoc.context.lookup(o);
+  const properties = lookup(pdfDoc.catalog.get(name('OCProperties')));
+  if (!(properties instanceof PDFDict)) return null;
+  const list = lookup(properties.get(name('OCGs')));
+  const groups = new Set(list instanceof PDFArray ? list.asArray().filter((o): o is PDFRef => o instanceof PDFRef) : []);
+  const hidden = new Set<PDFRef>();
+  const config = lookup(properties.get(name('D')));
+  if (!(config instanceof PDFDict)) return { groups, hidden };
+  const refsIn = (key: string) => {
+    const refs = lookup(config.get(name(key)));
+    return refs instanceof PDFArray ? refs.asArray().filter((o): o is PDFRef => o instanceof PDFRef) : [];
+  };
+  if (config.get(name('BaseState')) === name('OFF')) {
+    const on = new Set(refsIn('ON'));
+    groups.forEach(ref => { if (!on.has(ref)) hidden.add(ref); });
+  } else {
+    refsIn('OFF').forEach(ref => hidden.add(ref));
+  }
+  return { groups, hidden };
+};
+
+type Visibility = 'visible' | 'hidden' | 'unknown';
+
+// Keyed by the /P name; names are interned, so the entry's own object finds its policy
+const OCMD_POLICIES = new Map<PDFObject, (states: boolean[]) => boolean>([
+  [name('AllOn'), states => states.every(on => on)],
+  [name('AnyOn'), states => states.some(on => on)],
+  [name('AnyOff'), states => states.some(on => !on)],
+  [name('AllOff'), states => states.every(on => !on)],
+]);
+
+/**
+ * Whether content tagged with an /OC entry shows when the document opens. The entry is either a
+ * group or a membership dictionary, decided by its /VE expression or, without one, by its /P
+ * policy over /OCGs. Anything that cannot be resolved to groups is unknown.
+ */
+const ocVisibility = (pdfDoc: PDFDocument, value: PDFObject | undefined, layers: OptionalContent): Visibility => {
+  const lookup = (o: PDFObject | undefined) => pdfDoc.context.lookup(o);
+  const isGroup = (ref: PDFRef) => {
+    const group = lookup(ref);
+    return layers.groups.has(ref) || (group instanceof PDFDict && group.get(name('Type')) === name('OCG'));
+  };
+  // true when on, null when the expression names something other than groups
+  const evaluate = (expression: PDFObject | undefined, depth: number): boolean | null => {
+    if (expression instanceof PDFRef && isGroup(expression)) return !layers.hidden.has(expression);
+    const list = lookup(expression);
+    if (!(list instanceof PDFArray) || list.size() < 2 || depth > 32) return null;
+    const [operator, ...operands] = list.asArray();
+    const states = operands.map(operand => evaluate(operand, depth + 1));
+    if (states.some(state => state === null)) return null;
+    if (operator === name('And')) return states.every(on => on);
+    if (operator === name('Or')) return states.some(on => on);
+    if (operator === name('Not') && states.length === 1) return !states[0];
+    return null;
+  };
+
+  if (value instanceof PDFRef && isGroup(value)) return layers.hidden.has(value) ? 'hidden' : 'visible';
+  const dict = lookup(value);
+  if (!(dict instanceof PDFDict) || dict.get(name('Type')) !== name('OCMD')) return 'unknown';
+
+  let on: boolean | null;
+  if (dict.has(name('VE'))) {
+    on = evaluate(dict.get(name('VE')), 0);
+  } else {
+    const members = dict.get(name('OCGs'));
+    const list = lookup(members);
+    const refs = list instanceof PDFArray ? list.asArray() : members === undefined ? [] : [members];
+    const policy = OCMD_POLICIES.get(dict.get(name('P')) ?? name('AnyOn'));
+    // Null entries stand for deleted groups and are skipped; a dictionary without groups has no effect
+    const present = refs.filter(ref => { const target = lookup(ref); return target !== undefined && target !== PDFNull; });
+    if (!policy || present.some(ref => !(ref instanceof PDFRef) || !isGroup(ref))) on = null;
+    else on = present.length === 0 || policy(present.map(ref => !layers.hidden.has(ref as PDFRef)));
+  }
+  return on === null ? 'unknown' : on ? 'visible' : 'hidden';
+};
+
+const DELIMITERS = '()<>[]{}/%';
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\f' || ch === '\0';
+
+/**
+ * Cuts marked-content sections tagged with a hidden layer, and XObjects drawn from one, out of a
+ * content stream. `isHiddenSection` gets the property list operand of each /OC section: a name, or
+ * the opening delimiter of anything else. The stream is handled as Latin-1 text so binary inline
+ * image data passes through.
+ */
+const stripHiddenContent = (content: string, isHiddenSection: (properties: string) => boolean, hiddenXObjects: Set<string>) => {
+  const cuts: [number, number][] = [];
+  const sections: boolean[] = [];
+  let hiddenFrom: number | null = null;
+  let operands: { start: number; value: string }[] = [];
+  let i = 0;
+
+  const skipString = () => {
+    let depth = 0;
+    for (; i < content.length; i++) {
+      const ch = content[i];
+      if (ch === '\\') i++;
+      else if (ch === '(') depth++;
+      else if (ch === ')' && --depth === 0) { i++; return; }
+    }
+  };
+  // Arrays and dictionaries are skipped whole; only their extent matters here
+  const skipNested = (open: string, close: string) => {
+    let depth = 0;
+    while (i < content.length) {
+      if (content[i] === '(') { skipString(); continue; }
+      if (content.startsWith(open, i)) { depth++; i += open.length; continue; }
+      if (content.startsWith(close, i)) { i += close.length; if (--depth === 0) return; continue; }
+      i++;
+    }
+  };
+
+  while (i < content.length) {
+    const ch = content[i];
+    const start = i;
+    if (isWhitespace(ch)) { i++; continue; }
+    if (ch === '%') { while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++; continue; }
+    if (ch === '(') { skipString(); operands.push({ start, value: '(' }); continue; }
+    if (ch === '[') { skipNested('[', ']'); operands.push({ start, value: '[' }); continue; }
+    if (content.startsWith('<<', i)) { skipNested('<<', '>>'); operands.push({ start, value: '<<' }); continue; }
+    if (ch === '<') { i = content.indexOf('>', i) + 1 || content.length; operands.push({ start, value: '<' }); continue; }
+    i++;
+    while (i < content.length && !isWhitespace(content[i]) && !DELIMITERS.includes(content[i])) i++;
+    const token = content.slice(start, i);
+    if (ch === '/' || /^[+\-.\d]/.test(token) || token === 'true' || token === 'false' || token === 'null') {
+      operands.push({ start, value: token });
+      continue;
+    }
+
+    const from = operands.length > 0 ? operands[0].start : start;
+    if (token === 'BI') {
+      // Inline image data is binary; it ends at the first EI that stands alone
+      const match = /\sEI(?=[\s]|$)/g;
+      match.lastIndex = content.indexOf('ID', i) + 2;
+      const found = match.exec(content);
+      i = found ? found.index + found[0].length : content.length;
+    } else if (token === 'BMC' || token === 'BDC') {
+      // The tag and property list are the last two operands, whatever came before them
+      const [tag, properties] = operands.slice(-2).map(operand => operand.value);
+      const hidden = token === 'BDC' && operands.length >= 2 && tag === '/OC' && isHiddenSection(properties);
+      if (hidden && hiddenFrom === null) hiddenFrom = from;
+      sections.push(hidden);
+    } else if (token === 'EMC') {
+      if (sections.pop() && hiddenFrom !== null && !sections.includes(true)) {
+        cuts.push([hiddenFrom, i]);
+        hiddenFrom = null;
+      }
+    } else if (token === 'Do' && hiddenFrom === null && operands.length > 0 && hiddenXObjects.has(operands[operands.length - 1].value)) {
+      cuts.push([from, i]);
+    }
+    operands = [];
+  }
+
+  if (cuts.length === 0) return null;
+  let result = '';
+  let last = 0;
+  for (const [from, to] of cuts) {
+    result += content.slice(last, from);
+    last = to;
+  }
+  return result + content.slice(last);
+};
+
+const toLatin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+const fromLatin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0));
+
+/** Which /OC sections and XObjects of content drawn with `resources` are hidden. */
+const resourceVisibility = (pdfDoc: PDFDocument, resources: PDFDict | undefined, visibilityOf: (value: PDFObject | undefined) => Visibility) => {
+  const properties = pdfDoc.context.lookup(resources?.get(name('Properties')));
+  const entries = new Map(properties instanceof PDFDict ? properties.entries().map(([key, value]) => [key.asString(), value]) : []);
+  // An /OC section names its membership in the Properties resources; an inline dictionary cannot hold the references
+  const isHiddenSection = (operand: string) => visibilityOf(entries.get(operand)) === 'hidden';
+
+  const hiddenXObjects = new Set<string>();
+  const xObjectDict = pdfDoc.context.lookup(resources?.get(name('XObject')));
+  if (xObjectDict instanceof PDFDict) {
+    for (const [key, value] of xObjectDict.entries()) {
+      const xObject = pdfDoc.context.lookup(value);
+      if (xObject instanceof PDFStream && xObject.dict.has(name('OC')) && visibilityOf(xObject.dict.get(name('OC'))) === 'hidden') {
+        hiddenXObjects.add(key.asString());
+      }
+    }
+  }
+  return { isHiddenSection, hiddenXObjects };
+};
+
+/**
+ * Deletes the content of layers that are hidden when the document opens, then the layer definitions,
+ * so what remains is exactly what a reader showed. When some /OC entry cannot be resolved the
+ * definitions stay, so content that could not be placed stays hidden. Returns the number of hidden layers.
+ */
+const removeHiddenLayers = (pdfDoc: PDFDocument, dryRun: boolean) => {
+  const layers = optionalContent(pdfDoc);
+  if (!layers) return 0;
+  if (dryRun) return layers.hidden.size;
+  const { context } = pdfDoc;
+  let unresolved = false;
+  const visibilityOf = (value: PDFObject | undefined) => {
+    const visibility = ocVisibility(pdfDoc, value, layers);
+    if (visibility === 'unknown') unresolved = true;
+    return visibility;
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    const { isHiddenSection, hiddenXObjects } = resourceVisibility(pdfDoc, page.node.Resources(), visibilityOf);
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray ? contents.asArray().map(o => context.lookup(o)) : [contents];
+    const text = streams.filter((s): s is PDFRawStream => s instanceof PDFRawStream).map(s => toLatin1(decodeStream(s))).join('\n');
+    const stripped = stripHiddenContent(text, isHiddenSection, hiddenXObjects);
+    if (stripped !== null) page.node.set(name('Contents'), context.register(context.flateStream(fromLatin1(stripped))));
+  }
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || object.dict.get(name('Subtype')) !== name('Form')) continue;
+    const resources = context.lookup(object.dict.get(name('Resources')));
+    const { isHiddenSection, hiddenXObjects } = resourceVisibility(pdfDoc, resources instanceof PDFDict ? resources : undefined, visibilityOf);
+    const stripped = stripHiddenContent(toLatin1(decodeStream(object)), isHiddenSection, hiddenXObjects);
+    if (stripped === null) continue;
+    const dict = object.dict.clone(context);
+    dict.delete(name('Filter'));
+    dict.delete(name('DecodeParms'));
+    context.assign(ref, PDFRawStream.of(dict, fromLatin1(stripped)));
+  }
+  removeFromAnnots(pdfDoc, annot => annot.has(name('OC')) && visibilityOf(annot.get(name('OC'))) === 'hidden', false);
+  // Visible layers merge into the page: without /OCProperties readers ignore the /OC markers
+  if (!unresolved) pdfDoc.catalog.delete(name('OCProperties'));
+  return layers.hidden.size;
+};
+
+/** Removes the information dictionary, XMP streams and private application data. */
+const removeMetadata = (pdfDoc: PDFDocument, dryRun: boolean) => {
+  const info = infoDict(pdfDoc);
+  const fields = info ? info.keys().length : 0;
+  let xmpStreams = 0;
+  forEachDict(pdfDoc, dict => {
+    if (dict.has(name('Metadata'))) {
+      xmpStreams++;
+      if (!dryRun) dict.delete(name('Metadata'));
+    }
+    if (!dryRun) dict.delete(name('PieceInfo'));
+  });
+  if (!dryRun) pdfDoc.context.trailerInfo.Info = undefined;
+  return { fields, xmpStreams };
+};
+
+const scan = (pdfDoc: PDFDocument, dryRun: boolean): SanitizeReport => {
+  const { fields, xmpStreams } = removeMetadata(pdfDoc, dryRun);
+  return {
+    metadataFields: fields,
+    xmpStreams,
+    scripts: removeScripts(pdfDoc, dryRun),
+    attachments: removeAttachments(pdfDoc, dryRun),
+    hiddenLayers: removeHiddenLayers(pdfDoc, dryRun),
+  };
+};
+
+export const readMetadata = async (bytes: ArrayBuffer): Promise<MetadataInspection> => {
+  const pdfDoc = await loadForMetadata(bytes);
+  return { metadata: readInfo(pdfDoc), xmp: readXmp(pdfDoc), findings: scan(pdfDoc, true) };
+};
+
+/**
+ * Updates the given fields and leaves the rest as they are. An existing XMP packet is updated to
+ * match, so every reader shows the same values.
+ */
+export const writeMetadata = async (bytes: ArrayBuffer, changes: Partial<DocumentMetadata>): Promise<Uint8Array> => {
+  const pdfDoc = await loadForMetadata(bytes);
+  const metadata = { ...readInfo(pdfDoc), ...changes };
+  writeInfo(pdfDoc, metadata);
+  const current = pdfDoc.catalog.get(name('Metadata'));
+  if (current) {
+    const existing = readXmp(pdfDoc);
+    const packet = (existing && updateXmpPacket(existing, metadata)) ?? buildXmpPacket(metadata);
+    const xmp = pdfDoc.context.stream(new TextEncoder().encode(packet), { Type: 'Metadata', Subtype: 'XML' });
+    // Replaced under the same reference, so the old values are not left behind in an orphaned object
+    if (current instanceof PDFRef) pdfDoc.context.assign(current, xmp);
+    else pdfDoc.catalog.set(name('Metadata'), pdfDoc.context.register(xmp));
+  }
+  return await pdfDoc.save();
+};
+
+/**
+ * Strips everything that is not page content before a file is shared: document information, XMP,
+ * scripts, attachments and hidden layers. Objects left unreferenced are dropped as well, otherwise
+ * the removed data would still be written into the file.
+ */
+export const sanitizePDF = async (bytes: ArrayBuffer): Promise<{ data: Uint8Array; report: SanitizeReport }> => {
+  const pdfDoc = await loadForMetadata(bytes);
+  const report = scan(pdfDoc, false);
+  removeUnreachableObjects(pdfDoc.context);
+  return { data: await pdfDoc.save({ useObjectStreams: true }), report };
+};
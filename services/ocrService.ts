@@ -0,0 +1,76 @@
+import { createWorker, OEM, Worker as OcrWorker, Block } from 'tesseract.js';
+import ocrWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import ocrCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { OcrPage, OcrWord } from '../types';
+import { pdfToImages } from './pdfService';
+import { createCancelledError } from './workerPool';
+import type { ProgressCallback } from './pdfCore';
+
+// Tesseract runs in its own worker, separate from the PDF pool. The engine, its worker script and the
+// English model are bundled with the app and served from our own origin, so OCR never touches the network.
+
+// Tesseract resolves "<langPath>/eng.traineddata.gz", so it needs the folder, not the file
+const langPath = engDataUrl.slice(0, engDataUrl.lastIndexOf('/'));
+
+let ocrWorker: Promise<OcrWorker> | null = null;
+let generation = 0;
+
+const getOcrWorker = () => {
+  if (!ocrWorker) {
+    ocrWorker = createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: ocrWorkerUrl,
+      corePath: ocrCoreUrl,
+      langPath,
+      workerBlobURL: false,
+    });
+    ocrWorker.catch(() => { ocrWorker = null; });
+  }
+  return ocrWorker;
+};
+
+/**
+ * Stops any OCR run in progress. The engine is torn down and reloaded on the next run.
+ */
+export const cancelOcr = () => {
+  generation++;
+  const pending = ocrWorker;
+  ocrWorker = null;
+  pending?.then(worker => worker.terminate()).catch(() => {});
+};
+
+const collectWords = (blocks: Block[] | null, width: number, height: number): OcrWord[] =>
+  (blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines.flatMap(line => line.words)))
+    .filter(word => word.text.trim())
+    .map(({ text, bbox }) => ({
+      text: text.trim(),
+      x0: bbox.x0 / width,
+      y0: bbox.y0 / height,
+      x1: bbox.x1 / width,
+      y1: bbox.y1 / height,
+    }));
+
+/**
+ * Rasterizes every page through the same renderer as PDF → Image, then recognises each image.
+ * Progress counts rendering and recognition as one pass each.
+ */
+export const recognizePdf = async (file: File, onProgress?: ProgressCallback): Promise<OcrPage[]> => {
+  const run = generation;
+  const images = await pdfToImages(file, 'png', (current, total) => onProgress?.(current, total * 2));
+  const worker = await getOcrWorker();
+  const pages: OcrPage[] = [];
+  for (let i = 0; i < images.length; i++) {
+    if (run !== generation) throw createCancelledError();
+    const bitmap = await createImageBitmap(images[i].data);
+    const { width, height } = bitmap;
+    bitmap.close();
+    const { data } = await worker.recognize(images[i].data, {}, { text: true, blocks: true });
+    if (run !== generation) throw createCancelledError();
+    pages.push({ text: data.text.trim(), words: collectWords(data.blocks, width, height) });
+    onProgress?.(images.length + i + 1, images.length * 2);
+  }
+  return pages;
+};
+
+export const ocrPagesToText = (pages: OcrPage[]): string =>
+  pages.map((page, i) => `--- PAGE ${i + 1} ---\n${page.text}\n\n`).join('');
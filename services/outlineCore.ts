@@ -0,0 +1,244 @@
+import {
+  PDFArray, PDFDict, PDFDocument, PDFFont, PDFHexString, PDFName, PDFNull, PDFNumber, PDFObject, PDFRef, PDFString,
+  PageSizes, StandardFonts, rgb
+} from 'pdf-lib';
+import type { OutlineItem } from '../types';
+import { createId } from '../utils/ids';
+import { drawableTextFilter } from '../utils/textTemplate';
+
+// Bookmarks are read into a plain tree of titles and page indices, edited as data, and written back
+// as a fresh outline. Destinations are stored by page index so they survive copying pages between documents.
+
+/** Outlines deeper than this are cut off; real documents stay far below it and it guards against cycles. */
+const MAX_DEPTH = 32;
+
+const decodeText = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+
+/** Looks a key up in a name tree (the /Names /Dests form of named destinations). */
+const lookupNameTree = (node: PDFDict, key: string, depth = 0): PDFObject | undefined => {
+  if (depth > MAX_DEPTH) return undefined;
+  const names = node.lookup(PDFName.of('Names'));
+  if (names instanceof PDFArray) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      if (decodeText(names.lookup(i)) === key) return names.lookup(i + 1);
+    }
+  }
+  const kids = node.lookup(PDFName.of('Kids'));
+  if (kids instanceof PDFArray) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (!(kid instanceof PDFDict)) continue;
+      const found = lookupNameTree(kid, key, depth + 1);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+const createDestinationResolver = (pdfDoc: PDFDocument) => {
+  const pageIndices = new Map<PDFRef, number>();
+  pdfDoc.getPages().forEach((page, i) => pageIndices.set(page.ref, i));
+  const catalog = pdfDoc.catalog;
+
+  const named = (name: string): PDFObject | undefined => {
+    const legacy = catalog.lookup(PDFName.of('Dests'));
+    if (legacy instanceof PDFDict) {
+      const found = legacy.lookup(PDFName.of(name));
+      if (found) return found;
+    }
+    const names = catalog.lookup(PDFName.of('Names'));
+    const tree = names instanceof PDFDict ? names.lookup(PDFName.of('Dests')) : undefined;
+    return tree instanceof PDFDict ? lookupNameTree(tree, name) : undefined;
+  };
+
+  const resolve = (dest: PDFObject | undefined, depth = 0): number | null => {
+    if (!dest || depth > 2) return null;
+    if (dest instanceof PDFArray) {
+      const target = dest.get(0);
+      if (target instanceof PDFRef) return pageIndices.get(target) ?? null;
+      return null;
+    }
+    if (dest instanceof PDFDict) return resolve(dest.lookup(PDFName.of('D')), depth + 1);
+    if (dest instanceof PDFName) return resolve(named(dest.decodeText()), depth + 1);
+    if (dest instanceof PDFString || dest instanceof PDFHexString) return resolve(named(dest.decodeText()), depth + 1);
+    return null;
+  };
+
+  return (item: PDFDict): number | null => {
+    const dest = item.lookup(PDFName.of('Dest'));
+    if (dest) return resolve(dest);
+    const action = item.lookup(PDFName.of('A'));
+    if (action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) return resolve(action.lookup(PDFName.of('D')));
+    return null;
+  };
+};
+
+/** Visits every outline item reference in document order, stopping at loops. */
+const walkOutline = (
+  pdfDoc: PDFDocument,
+  visit: (ref: PDFRef, item: PDFDict, children: () => void) => void
+) => {
+  const root = pdfDoc.catalog.lookup(PDFName.of('Outlines'));
+  if (!(root instanceof PDFDict)) return;
+  const seen = new Set<PDFRef>();
+  const walk = (parent: PDFDict, depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    let ref = parent.get(PDFName.of('First'));
+    while (ref instanceof PDFRef && !seen.has(ref)) {
+      seen.add(ref);
+      const item = pdfDoc.context.lookup(ref);
+      if (!(item instanceof PDFDict)) return;
+      visit(ref, item, () => walk(item, depth + 1));
+      ref = item.get(PDFName.of('Next'));
+    }
+  };
+  walk(root, 0);
+};
+
+export const readOutline = (pdfDoc: PDFDocument): OutlineItem[] => {
+  const resolveDestination = createDestinationResolver(pdfDoc);
+  const stack: OutlineItem[][] = [[]];
+  walkOutline(pdfDoc, (_, item, children) => {
+    const entry: OutlineItem = { id: createId(), title: decodeText(item.lookup(PDFName.of('Title'))), pageIndex: resolveDestination(item), children: [] };
+    stack[stack.length - 1].push(entry);
+    stack.push(entry.children);
+    children();
+    stack.pop();
+  });
+  return stack[0];
+};
+
+/**
+ * Replaces the document outline. Items without a valid page are written without a destination
+ * rather than dropped, so their children stay reachable.
+ */
+export const writeOutline = (pdfDoc: PDFDocument, items: OutlineItem[]) => {
+  const { context, catalog } = pdfDoc;
+  const pages = pdfDoc.getPages();
+  const stale: PDFRef[] = [];
+  walkOutline(pdfDoc, (ref, _, children) => { stale.push(ref); children(); });
+  const oldRoot = catalog.get(PDFName.of('Outlines'));
+  if (oldRoot instanceof PDFRef) stale.push(oldRoot);
+  stale.forEach(ref => context.delete(ref));
+
+  if (items.length === 0) {
+    catalog.delete(PDFName.of('Outlines'));
+    return;
+  }
+
+  // Returns the number of visible descendants, which becomes the parent's /Count
+  const writeLevel = (list: OutlineItem[], parentRef: PDFRef, parent: PDFDict): number => {
+    const refs = list.map(() => context.nextRef());
+    let visible = 0;
+    list.forEach((item, i) => {
+      const dict = context.obj({}) as PDFDict;
+      dict.set(PDFName.of('Title'), PDFHexString.fromText(item.title));
+      dict.set(PDFName.of('Parent'), parentRef);
+      if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < refs.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+      const page = item.pageIndex === null ? undefined : pages[item.pageIndex];
+      if (page) dict.set(PDFName.of('Dest'), context.obj([page.ref, PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull]));
+      if (item.children.length > 0) {
+        const count = writeLevel(item.children, refs[i], dict);
+        dict.set(PDFName.of('Count'), PDFNumber.of(count));
+        visible += count;
+      }
+      context.assign(refs[i], dict);
+      visible++;
+    });
+    parent.set(PDFName.of('First'), refs[0]);
+    parent.set(PDFName.of('Last'), refs[refs.length - 1]);
+    return visible;
+  };
+
+  const rootRef = context.nextRef();
+  const root = context.obj({ Type: 'Outlines' }) as PDFDict;
+  root.set(PDFName.of('Count'), PDFNumber.of(writeLevel(items, rootRef, root)));
+  context.assign(rootRef, root);
+  catalog.set(PDFName.of('Outlines'), rootRef);
+  catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+export const shiftOutline = (items: OutlineItem[], offset: number): OutlineItem[] =>
+  items.map(item => ({ ...item, pageIndex: item.pageIndex === null ? null : item.pageIndex + offset, children: shiftOutline(item.children, offset) }));
+
+export const getOutline = async (bytes: ArrayBuffer): Promise<OutlineItem[]> =>
+  readOutline(await PDFDocument.load(bytes, { ignoreEncryption: true }));
+
+export const setOutline = async (bytes: ArrayBuffer, items: OutlineItem[]): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  writeOutline(pdfDoc, items);
+  return await pdfDoc.save();
+};
+
+const TOC_MARGIN = 72;
+const TOC_TITLE_SIZE = 20;
+const TOC_ENTRY_SIZE = 11;
+const TOC_LINE_HEIGHT = 20;
+const TOC_INDENT = 18;
+
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  let fitted = drawableTextFilter(font)(text);
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}...`;
+};
+
+/**
+ * Inserts contents pages at the front listing the top two outline levels, each line a link to its page,
+ * and returns the outline shifted past the inserted pages with a bookmark for the contents itself.
+ */
+export const addTableOfContents = async (pdfDoc: PDFDocument, items: OutlineItem[]): Promise<OutlineItem[]> => {
+  const entries = items.flatMap(item => [
+    { item, level: 0 },
+    ...item.children.map(child => ({ item: child, level: 1 })),
+  ]).filter(entry => entry.item.pageIndex !== null);
+  if (entries.length === 0) return items;
+
+  const [width, height] = PageSizes.A4;
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const firstPageLines = Math.floor((height - 2 * TOC_MARGIN - TOC_TITLE_SIZE * 2) / TOC_LINE_HEIGHT);
+  const otherPageLines = Math.floor((height - 2 * TOC_MARGIN) / TOC_LINE_HEIGHT);
+  const tocPageCount = 1 + Math.max(0, Math.ceil((entries.length - firstPageLines) / otherPageLines));
+  const tocPages = Array.from({ length: tocPageCount }, (_, i) => pdfDoc.insertPage(i, [width, height]));
+  const contentPages = pdfDoc.getPages();
+
+  tocPages[0].drawText('Contents', { x: TOC_MARGIN, y: height - TOC_MARGIN - TOC_TITLE_SIZE, size: TOC_TITLE_SIZE, font: bold, color: rgb(0, 0, 0) });
+  let pageIndex = 0;
+  let y = height - TOC_MARGIN - TOC_TITLE_SIZE * 2 - TOC_LINE_HEIGHT;
+  let linesLeft = firstPageLines;
+  for (const { item, level } of entries) {
+    if (linesLeft === 0) {
+      pageIndex++;
+      y = height - TOC_MARGIN - TOC_LINE_HEIGHT;
+      linesLeft = otherPageLines;
+    }
+    const page = tocPages[pageIndex];
+    const targetIndex = item.pageIndex! + tocPageCount;
+    const label = String(targetIndex + 1);
+    const entryFont = level === 0 ? bold : font;
+    const x = TOC_MARGIN + level * TOC_INDENT;
+    const labelWidth = font.widthOfTextAtSize(label, TOC_ENTRY_SIZE);
+    const title = fitText(item.title, entryFont, TOC_ENTRY_SIZE, width - TOC_MARGIN - x - labelWidth - TOC_INDENT);
+    page.drawText(title, { x, y, size: TOC_ENTRY_SIZE, font: entryFont, color: rgb(0, 0, 0) });
+    page.drawText(label, { x: width - TOC_MARGIN - labelWidth, y, size: TOC_ENTRY_SIZE, font, color: rgb(0, 0, 0) });
+
+    const target = contentPages[targetIndex];
+    if (target) {
+      const link = pdfDoc.context.register(pdfDoc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [x, y - 4, width - TOC_MARGIN, y + TOC_ENTRY_SIZE + 2],
+        Border: [0, 0, 0],
+        Dest: [target.ref, 'XYZ', null, null, null],
+      }));
+      page.node.addAnnot(link);
+    }
+    y -= TOC_LINE_HEIGHT;
+    linesLeft--;
+  }
+
+  return [{ id: createId(), title: 'Contents', pageIndex: 0, children: [] }, ...shiftOutline(items, tocPageCount)];
+};
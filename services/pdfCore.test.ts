@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { Canvas } from '@napi-rs/canvas';
+import { PDFDocument, PDFRawStream, StandardFonts, decodePDFRawStream } from 'pdf-lib';
+import { redactPDF } from './pdfCore';
+
+const latin1 = new TextDecoder('latin1');
+
+/** The part of OffscreenCanvas that page rendering uses, drawn by the canvas package pdf.js itself uses under Node. */
+class NodeOffscreenCanvas {
+  private readonly canvas: Canvas;
+
+  constructor(width: number, height: number) {
+    this.canvas = new Canvas(width, height);
+  }
+
+  get width() { return this.canvas.width; }
+  set width(value: number) { this.canvas.width = value; }
+  get height() { return this.canvas.height; }
+  set height(value: number) { this.canvas.height = value; }
+
+  getContext() {
+    return this.canvas.getContext('2d');
+  }
+
+  async convertToBlob() {
+    return new Blob([new Uint8Array(await this.canvas.encode('png'))], { type: 'image/png' });
+  }
+}
+
+const toHex = (text: string) => [...text].map(ch => ch.charCodeAt(0).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/** Every stream of a saved file, decoded, so text is found wherever it is kept. */
+const decodedStreams = async (bytes: Uint8Array) => {
+  const pdfDoc = await PDFDocument.load(bytes);
+  return pdfDoc.context.enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter((object): object is PDFRawStream => object instanceof PDFRawStream)
+    .map(stream => latin1.decode(decodePDFRawStream(stream).decode()))
+    .join('\n');
+};
+
+describe('redactPDF', () => {
+  beforeAll(() => {
+    vi.stubGlobal('OffscreenCanvas', NodeOffscreenCanvas);
+  });
+
+  it('leaves no trace of a redacted page in the saved file', async () => {
+    const source = await PDFDocument.create();
+    const font = await source.embedFont(StandardFonts.Helvetica);
+    source.addPage([300, 400]).drawText('CONFIDENTIAL', { x: 40, y: 340, size: 14, font });
+    source.addPage([300, 400]).drawText('PUBLIC', { x: 40, y: 340, size: 14, font });
+    const bytes = (await source.save()).slice().buffer;
+
+    const redacted = await redactPDF(bytes, [{ id: 'box', pageIndex: 0, x: 0.1, y: 0.1, width: 0.5, height: 0.1 }]);
+    const streams = await decodedStreams(redacted);
+    expect(streams).not.toContain(toHex('CONFIDENTIAL'));
+    expect(streams).toContain(toHex('PUBLIC'));
+    expect((await PDFDocument.load(redacted)).getPageCount()).toBe(2);
+  });
+});
@@ -0,0 +1,830 @@
+import {
+  PDFDocument, PDFPage, PDFImage, PDFArray, degrees, rgb, StandardFonts, PageSizes, TextRenderingMode,
+  pushGraphicsState, popGraphicsState, beginText, endText, setFontAndSize, setTextRenderingMode,
+  setTextMatrix, setCharacterSqueeze, showText
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import JSZip from 'jszip';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { PagePlanEntry } from '../utils/pagePlan';
+import type {
+  HeaderFooterSlots, MergeOptions, OcrPage, OutlineItem, PageNumberConfig, PositionedText, RedactionBox, SignaturePlacement, StampFont, StructuredPage,
+  WatermarkAnchor, WatermarkConfig
+} from '../types';
+import { analyzeLayout } from '../utils/textLayout';
+import { addTableOfContents, readOutline, shiftOutline, writeOutline } from './outlineCore';
+import { parsePageRanges } from '../utils/pageRanges';
+import { drawableTextFilter, expandTemplate, formatBatesNumber, formatPageNumber, isoDate } from '../utils/textTemplate';
+
+// Pure document operations on raw bytes. Nothing here touches the DOM, so the same code
+// runs inside the worker pool and, as a fallback, on the main thread.
+
+// Use a dynamic import or static URL for the worker in a Vite environment
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+
+export type ProgressCallback = (current: number, total: number) => void;
+
+export type ImageToPdfLayout = 'original' | 'A4_PORTRAIT' | 'A4_LANDSCAPE';
+
+export interface ImageSource {
+  name: string;
+  type: string;
+  bytes: ArrayBuffer;
+}
+
+/**
+ * pdf.js defaults to document.createElement('canvas'); workers only have OffscreenCanvas.
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+export const loadPdfJsDocument = (bytes: ArrayBuffer) =>
+  pdfjsLib.getDocument({
+    data: bytes,
+    CanvasFactory: OffscreenCanvasFactory,
+    isOffscreenCanvasSupported: true,
+    disableFontFace: typeof document === 'undefined',
+  }).promise;
+
+/** Large enough that a typical page needs only a few reads, small enough that a thumbnail skips most of the file. */
+const RANGE_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Feeds pdf.js slices of a Blob on demand, so only the cross-reference data and the objects of the
+ * pages actually rendered are read into memory instead of the whole file.
+ */
+class BlobRangeTransport extends pdfjsLib.PDFDataRangeTransport {
+  private readonly blob: Blob;
+
+  /** pdf.js has no way to hear that a range could not be read, so the opener decides what to do. */
+  onReadError: (err: unknown) => void = () => {};
+
+  constructor(blob: Blob) {
+    super(blob.size, null);
+    this.blob = blob;
+  }
+
+  requestDataRange(begin: number, end: number) {
+    this.blob.slice(begin, end).arrayBuffer()
+      .then(chunk => this.onDataRange(begin, new Uint8Array(chunk)))
+      .catch(err => this.onReadError(err));
+  }
+}
+
+/**
+ * Opens a document for reading without loading it in full. Callers must destroy it when done,
+ * since pdf.js keeps every range it has fetched. A failed read, such as a file deleted from disk
+ * meanwhile, destroys the document so that nothing waits forever on the missing range.
+ */
+export const openPdfJsRange = (blob: Blob): Promise<PDFDocumentProxy> => {
+  const range = new BlobRangeTransport(blob);
+  const task = pdfjsLib.getDocument({
+    range,
+    rangeChunkSize: RANGE_CHUNK_SIZE,
+    disableAutoFetch: true,
+    disableStream: true,
+    CanvasFactory: OffscreenCanvasFactory,
+    isOffscreenCanvasSupported: true,
+    disableFontFace: typeof document === 'undefined',
+  });
+  const readFailed = new Promise<never>((_, reject) => {
+    range.onReadError = err => {
+      task.destroy();
+      reject(err);
+    };
+  });
+  return Promise.race([task.promise, readFailed]);
+};
+
+export const renderPageToBlob = async (
+  page: PDFPageProxy,
+  scale: number,
+  type: string,
+  quality: number,
+  paintOver?: (context: OffscreenCanvasRenderingContext2D, width: number, height: number) => void
+): Promise<Blob> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not create canvas context');
+  await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+  if (paintOver) paintOver(context, canvas.width, canvas.height);
+  const blob = await canvas.convertToBlob({ type, quality });
+  canvas.width = 0;
+  canvas.height = 0;
+  return blob;
+};
+
+/** Renders a page to a grayscale buffer of the given width. */
+export const renderPageLuminance = async (page: PDFPageProxy, width: number) => {
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not create canvas context');
+  await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const luminance = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  const size = { width: canvas.width, height: canvas.height };
+  canvas.width = 0;
+  canvas.height = 0;
+  return { luminance, ...size };
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const parseHexColor = (color: string) => {
+  const hex = color.replace('#', '');
+  const r = parseInt(hex.substring(0, 2), 16) / 255;
+  const g = parseInt(hex.substring(2, 4), 16) / 255;
+  const b = parseInt(hex.substring(4, 6), 16) / 255;
+  return rgb(r, g, b);
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+
+const isPng = (bytes: ArrayBuffer) => {
+  const head = new Uint8Array(bytes, 0, Math.min(bytes.byteLength, PNG_SIGNATURE.length));
+  return PNG_SIGNATURE.every((b, i) => head[i] === b);
+};
+
+/** Reads only the trailer and page tree, so counting the pages of a large file stays cheap. */
+export const getPageCount = async (file: Blob): Promise<number> => {
+  const pdf = await openPdfJsRange(file);
+  try {
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/** Thumbnails are rendered at 29 DPI. */
+const THUMBNAIL_SCALE = 0.4;
+
+/**
+ * Renders only the requested pages, as JPEG blobs in the order asked for. Grids ask for the pages
+ * scrolled into view, so a long document is never rendered in full.
+ */
+export const renderThumbnails = async (file: Blob, pageIndices: number[]): Promise<Blob[]> => {
+  const pdf = await openPdfJsRange(file);
+  try {
+    const thumbnails: Blob[] = [];
+    for (const pageIndex of pageIndices) {
+      const page = await pdf.getPage(pageIndex + 1);
+      thumbnails.push(await renderPageToBlob(page, THUMBNAIL_SCALE, 'image/jpeg', 0.7));
+      page.cleanup();
+    }
+    return thumbnails;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * A single page at a caller-chosen scale, for views that need more detail than a thumbnail.
+ */
+export const renderPageImage = async (file: Blob, pageIndex: number, scale: number): Promise<string> => {
+  const pdf = await openPdfJsRange(file);
+  try {
+    return await blobToDataUrl(await renderPageToBlob(await pdf.getPage(pageIndex + 1), scale, 'image/jpeg', 0.85));
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+export type WatermarkOptions = Omit<WatermarkConfig, 'image'>;
+
+/** Horizontal and vertical position of each anchor as fractions of the free space, y pointing up. */
+const ANCHOR_POSITIONS: Record<WatermarkAnchor, [number, number]> = {
+  'top-left': [0, 1], 'top': [0.5, 1], 'top-right': [1, 1],
+  'left': [0, 0.5], 'center': [0.5, 0.5], 'right': [1, 0.5],
+  'bottom-left': [0, 0], 'bottom': [0.5, 0], 'bottom-right': [1, 0],
+};
+
+/**
+ * Moves the content stream pdf-lib has just drawn into from the end of the page's content to the start,
+ * so the existing content paints over it.
+ */
+const sendLastContentStreamToBack = (page: PDFPage) => {
+  const contents = page.node.Contents();
+  if (!(contents instanceof PDFArray) || contents.size() < 2) return;
+  const last = contents.get(contents.size() - 1);
+  contents.remove(contents.size() - 1);
+  contents.insert(0, last);
+};
+
+/**
+ * Stamps text or an image on the selected pages. Positions, tiling and rotation are worked out on the
+ * page as displayed, so a watermark on a rotated page looks the same as on an upright one.
+ */
+export const applyWatermarkToPDF = async (
+  bytes: ArrayBuffer,
+  config: WatermarkOptions,
+  image: ArrayBuffer | null,
+  fileName: string
+): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  await stampWatermark(pdfDoc, config, image, fileName);
+  return await pdfDoc.save();
+};
+
+/** Draws the watermark into a loaded document; `onlyPage` limits drawing to one page, for previews. */
+const stampWatermark = async (pdfDoc: PDFDocument, config: WatermarkOptions, image: ArrayBuffer | null, fileName: string, onlyPage?: number) => {
+  if (config.kind === 'image' && !image) throw new Error('Choose an image for the watermark.');
+  const pages = pdfDoc.getPages();
+  const selected = config.pages.trim() ? new Set(parsePageRanges(config.pages)) : null;
+  if (selected && !pages.some((_, i) => selected.has(i + 1))) throw new Error('None of the selected pages exist in this document.');
+
+  const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const drawable = drawableTextFilter(font);
+  const embedded = config.kind === 'image' && image
+    ? await (isPng(image) ? pdfDoc.embedPng(image) : pdfDoc.embedJpg(image))
+    : null;
+  const color = parseHexColor(config.color);
+  const angle = (config.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const date = isoDate();
+
+  pages.forEach((page, i) => {
+    if ((selected && !selected.has(i + 1)) || (onlyPage !== undefined && i !== onlyPage)) return;
+    const { rotation, shownWidth, shownHeight, toUserSpace } = displayGeometry(page);
+    const text = drawable(expandTemplate(config.text, { filename: fileName, date, page: i + 1, total: pages.length, user: config.user }));
+    if (!embedded && !text.trim()) return;
+
+    // Size of the watermark before rotation, and the baseline offset text needs above its bottom edge
+    const width = embedded ? config.imageScale * shownWidth : font.widthOfTextAtSize(text, config.fontSize);
+    const height = embedded ? width * embedded.height / embedded.width : font.heightAtSize(config.fontSize);
+    const baseline = embedded ? 0 : height - font.heightAtSize(config.fontSize, { descender: false });
+    const boundsWidth = Math.abs(width * cos) + Math.abs(height * sin);
+    const boundsHeight = Math.abs(width * sin) + Math.abs(height * cos);
+
+    const centers: [number, number][] = [];
+    if (config.layout === 'single') {
+      const [fx, fy] = ANCHOR_POSITIONS[config.anchor];
+      centers.push([
+        config.margin + boundsWidth / 2 + fx * (shownWidth - 2 * config.margin - boundsWidth),
+        config.margin + boundsHeight / 2 + fy * (shownHeight - 2 * config.margin - boundsHeight),
+      ]);
+    } else {
+      // Rows and columns spread out from the page centre until the page is covered
+      const stepX = boundsWidth + config.spacing;
+      const stepY = boundsHeight + config.spacing;
+      const rows = Math.ceil(shownHeight / 2 / stepY) + 1;
+      const columns = Math.ceil(shownWidth / 2 / stepX) + 1;
+      for (let row = -rows; row <= rows; row++) {
+        const shift = config.layout === 'diagonal' && Math.abs(row) % 2 === 1 ? 0.5 : 0;
+        for (let column = -columns; column <= columns; column++) {
+          centers.push([shownWidth / 2 + (column + shift) * stepX, shownHeight / 2 + row * stepY]);
+        }
+      }
+    }
+
+    for (const [cx, cy] of centers) {
+      // pdf-lib rotates around the drawing origin, so find where the bottom-left corner ends up
+      const dx = -width / 2;
+      const dy = -height / 2 + baseline;
+      const [x, y] = toUserSpace((cx + dx * cos - dy * sin) / shownWidth, 1 - (cy + dx * sin + dy * cos) / shownHeight);
+      const rotate = degrees(config.rotation + rotation);
+      if (embedded) page.drawImage(embedded, { x, y, width, height, opacity: config.opacity, rotate });
+      else page.drawText(text, { x, y, size: config.fontSize, font, color, opacity: config.opacity, rotate });
+    }
+    if (config.layer === 'under') sendLastContentStreamToBack(page);
+  });
+};
+
+export type PageNumberOptions = Omit<PageNumberConfig, 'customFont'>;
+
+const STANDARD_STAMP_FONTS: Record<Exclude<StampFont, 'custom'>, StandardFonts> = {
+  helvetica: StandardFonts.Helvetica,
+  times: StandardFonts.TimesRoman,
+  courier: StandardFonts.Courier,
+};
+
+/**
+ * Fills the header and footer slots on every page from their templates. `batesOffset` is the number of
+ * pages that came before this document in a batch, so Bates numbers continue from one file to the next.
+ */
+export const addPageNumbersToPDF = async (
+  bytes: ArrayBuffer,
+  config: PageNumberOptions,
+  customFont: ArrayBuffer | null,
+  fileName: string,
+  batesOffset = 0
+): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  await stampPageNumbers(pdfDoc, config, customFont, fileName, batesOffset);
+  return await pdfDoc.save();
+};
+
+/** Fills the slots in a loaded document; `onlyPage` limits drawing to one page, for previews. */
+const stampPageNumbers = async (
+  pdfDoc: PDFDocument,
+  config: PageNumberOptions,
+  customFont: ArrayBuffer | null,
+  fileName: string,
+  batesOffset: number,
+  onlyPage?: number
+) => {
+  const slots = [config.header, config.footer].flatMap(slot => [slot.left, slot.center, slot.right]);
+  if (slots.every(text => !text.trim())) throw new Error('Enter text for at least one header or footer slot.');
+  if (config.font === 'custom' && !customFont) throw new Error('Choose a font file.');
+  const pages = pdfDoc.getPages();
+  let font;
+  if (config.font === 'custom' && customFont) {
+    pdfDoc.registerFontkit(fontkit);
+    font = await pdfDoc.embedFont(customFont, { subset: true });
+  } else {
+    font = await pdfDoc.embedFont(STANDARD_STAMP_FONTS[config.font === 'custom' ? 'helvetica' : config.font]);
+  }
+  const drawable = drawableTextFilter(font);
+  const color = parseHexColor(config.color);
+  const size = config.fontSize;
+  const ascent = font.heightAtSize(size, { descender: false });
+  const date = isoDate();
+  const total = formatPageNumber(pages.length, config.numberStyle);
+
+  pages.forEach((page, i) => {
+    if (i < config.skipFirst || (onlyPage !== undefined && i !== onlyPage)) return;
+    const { rotation, shownWidth, shownHeight, toUserSpace } = displayGeometry(page);
+    const values = {
+      page: formatPageNumber(i + 1, config.numberStyle),
+      total,
+      filename: fileName,
+      date,
+      bates: formatBatesNumber(config.bates, config.bates.start + batesOffset + i),
+    };
+    const mirrored = config.mirrorEven && (i + 1) % 2 === 0;
+    const rows: [HeaderFooterSlots, number][] = [
+      [config.header, shownHeight - config.margin - ascent],
+      [config.footer, config.margin],
+    ];
+    for (const [row, baseline] of rows) {
+      const cells: [string, 'left' | 'center' | 'right'][] = [
+        [mirrored ? row.right : row.left, 'left'],
+        [row.center, 'center'],
+        [mirrored ? row.left : row.right, 'right'],
+      ];
+      for (const [template, align] of cells) {
+        const text = drawable(expandTemplate(template, values));
+        if (!text.trim()) continue;
+        const width = font.widthOfTextAtSize(text, size);
+        const x = align === 'left' ? config.margin : align === 'center' ? (shownWidth - width) / 2 : shownWidth - config.margin - width;
+        const [ux, uy] = toUserSpace(x / shownWidth, 1 - baseline / shownHeight);
+        page.drawText(text, { x: ux, y: uy, size, font, color, rotate: degrees(rotation) });
+      }
+    }
+  });
+};
+
+/**
+ * Appends the documents in order. Source bookmarks are carried over and re-targeted at the merged pages;
+ * with `fileBookmarks` each input also gets a top-level bookmark, named from `titles`, holding its own.
+ */
+export const mergePDFs = async (
+  documents: ArrayBuffer[],
+  titles: string[] = [],
+  options: MergeOptions = { fileBookmarks: false, keepOutlines: true, tableOfContents: false }
+): Promise<Uint8Array> => {
+  const mergedPdf = await PDFDocument.create();
+  let outline: OutlineItem[] = [];
+  for (let i = 0; i < documents.length; i++) {
+    const pdfDoc = await PDFDocument.load(documents[i], { ignoreEncryption: true });
+    const offset = mergedPdf.getPageCount();
+    const sourceOutline = options.keepOutlines ? shiftOutline(readOutline(pdfDoc), offset) : [];
+    const copiedPages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
+    copiedPages.forEach((page) => mergedPdf.addPage(page));
+    if (options.fileBookmarks) {
+      outline.push({ id: `file-${i}`, title: titles[i] ?? `Document ${i + 1}`, pageIndex: offset, children: sourceOutline });
+    } else {
+      outline.push(...sourceOutline);
+    }
+  }
+  if (options.tableOfContents) outline = await addTableOfContents(mergedPdf, outline);
+  writeOutline(mergedPdf, outline);
+  return await mergedPdf.save();
+};
+
+const toPngBytes = async (source: ImageSource): Promise<ArrayBuffer> => {
+  const bitmap = await createImageBitmap(new Blob([source.bytes], { type: source.type }));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return await blob.arrayBuffer();
+};
+
+export const imagesToPDF = async (images: ImageSource[], layout: ImageToPdfLayout = 'original'): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+
+  for (const source of images) {
+    let image;
+
+    try {
+      if (source.type === 'image/jpeg' || source.type === 'image/jpg') {
+        image = await pdfDoc.embedJpg(source.bytes);
+      } else if (source.type === 'image/png') {
+        image = await pdfDoc.embedPng(source.bytes);
+      } else {
+        image = await pdfDoc.embedPng(await toPngBytes(source));
+      }
+
+      const imgDims = image.scale(1);
+      let pageWidth: number, pageHeight: number;
+
+      if (layout === 'A4_PORTRAIT') {
+        [pageWidth, pageHeight] = PageSizes.A4;
+      } else if (layout === 'A4_LANDSCAPE') {
+        pageHeight = PageSizes.A4[0];
+        pageWidth = PageSizes.A4[1];
+      } else {
+        pageWidth = imgDims.width;
+        pageHeight = imgDims.height;
+      }
+
+      const page = pdfDoc.addPage([pageWidth, pageHeight]);
+      const scale = Math.min(pageWidth / imgDims.width, pageHeight / imgDims.height);
+      const drawWidth = imgDims.width * scale;
+      const drawHeight = imgDims.height * scale;
+
+      page.drawImage(image, {
+        x: (pageWidth - drawWidth) / 2,
+        y: (pageHeight - drawHeight) / 2,
+        width: drawWidth,
+        height: drawHeight,
+      });
+    } catch (e) {
+      console.error('Error embedding image:', source.name, e);
+    }
+  }
+  return await pdfDoc.save();
+};
+
+export const splitPDF = async (bytes: ArrayBuffer, pages: number[]): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const newPdf = await PDFDocument.create();
+  const indices = pages.map(p => p - 1).filter(idx => idx >= 0 && idx < pdfDoc.getPageCount());
+  const copiedPages = await newPdf.copyPages(pdfDoc, indices);
+  copiedPages.forEach((page) => newPdf.addPage(page));
+  return await newPdf.save();
+};
+
+export const rotatePDF = async (bytes: ArrayBuffer, rotation: number, pageNumbers?: number[]): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const pages = pdfDoc.getPages();
+  const indicesToRotate = pageNumbers
+    ? pageNumbers.map(n => n - 1).filter(idx => idx >= 0 && idx < pages.length)
+    : pages.map((_, i) => i);
+  indicesToRotate.forEach((idx) => {
+    const page = pages[idx];
+    const currentRotation = page.getRotation().angle;
+    page.setRotation(degrees((currentRotation + rotation) % 360));
+  });
+  return await pdfDoc.save();
+};
+
+export type PreviewOperation =
+  | { kind: 'watermark'; config: WatermarkOptions; image: ArrayBuffer | null }
+  | { kind: 'page-numbers'; config: PageNumberOptions; font: ArrayBuffer | null; batesOffset: number }
+  | { kind: 'rotate'; rotation: number; pageNumbers?: number[] };
+
+/** Previews are rendered at 72 DPI, about the width of the preview pane. */
+const PREVIEW_SCALE = 1;
+
+/**
+ * Renders one page as the operation would leave it. The page is stamped in place in the full document,
+ * so page numbers, totals and page ranges resolve exactly as in a real run, and then copied out alone
+ * so only that page is saved and rendered.
+ */
+export const renderOperationPreview = async (
+  bytes: ArrayBuffer,
+  operation: PreviewOperation,
+  pageIndex: number,
+  fileName: string
+): Promise<Blob> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  if (pageIndex < 0 || pageIndex >= pdfDoc.getPageCount()) throw new Error('This page does not exist in the document.');
+  if (operation.kind === 'watermark') {
+    await stampWatermark(pdfDoc, operation.config, operation.image, fileName, pageIndex);
+  } else if (operation.kind === 'page-numbers') {
+    await stampPageNumbers(pdfDoc, operation.config, operation.font, fileName, operation.batesOffset, pageIndex);
+  } else if (!operation.pageNumbers || operation.pageNumbers.includes(pageIndex + 1)) {
+    const page = pdfDoc.getPage(pageIndex);
+    page.setRotation(degrees((page.getRotation().angle + operation.rotation) % 360));
+  }
+  const single = await PDFDocument.create();
+  const [copied] = await single.copyPages(pdfDoc, [pageIndex]);
+  single.addPage(copied);
+  const saved = await single.save();
+  const pdf = await loadPdfJsDocument(saved.buffer as ArrayBuffer);
+  try {
+    return await renderPageToBlob(await pdf.getPage(1), PREVIEW_SCALE, 'image/jpeg', 0.85);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Generalises reorder, delete and rotate: builds a new document from an ordered page plan
+ * that may draw on several source documents, repeat pages and insert blank ones.
+ * Blank pages take the size of the page before them (or A4 when first).
+ */
+export const composePDFPages = async (documents: ArrayBuffer[], plan: PagePlanEntry[]): Promise<Uint8Array> => {
+  if (plan.length === 0) throw new Error("Cannot delete all pages.");
+  const srcDocs = await Promise.all(documents.map(bytes => PDFDocument.load(bytes, { ignoreEncryption: true })));
+  const newPdf = await PDFDocument.create();
+
+  // Copy each source's pages in one call so shared fonts and images are embedded once
+  const copied = await Promise.all(srcDocs.map((doc, source) => {
+    const indices = Array.from(new Set(plan.flatMap(e => e.source === source ? [e.pageIndex] : [])));
+    return newPdf.copyPages(doc, indices).then(pages => new Map(indices.map((idx, i) => [idx, pages[i]])));
+  }));
+  const used = new Set<PDFPage>();
+
+  for (const entry of plan) {
+    let page: PDFPage;
+    if (entry.source === null) {
+      const previous = newPdf.getPageCount() > 0 ? newPdf.getPage(newPdf.getPageCount() - 1).getSize() : null;
+      page = newPdf.addPage(previous ? [previous.width, previous.height] : PageSizes.A4);
+    } else {
+      const cached = copied[entry.source].get(entry.pageIndex);
+      if (!cached) throw new Error(`Page ${entry.pageIndex + 1} does not exist.`);
+      // A page object can only sit in the tree once, so repeats need a fresh copy
+      page = used.has(cached) ? (await newPdf.copyPages(srcDocs[entry.source], [entry.pageIndex]))[0] : cached;
+      used.add(page);
+      newPdf.addPage(page);
+    }
+    if (entry.rotation) page.setRotation(degrees((page.getRotation().angle + entry.rotation) % 360));
+  }
+  return await newPdf.save();
+};
+
+export const extractTextFromPdf = async (bytes: ArrayBuffer, onProgress?: ProgressCallback): Promise<string> => {
+  const pdf = await loadPdfJsDocument(bytes);
+  const numPages = pdf.numPages;
+  let fullText = '';
+  for (let i = 1; i <= numPages; i++) {
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const pageText = textContent.items.map((item: any) => item.str).join(' ');
+    fullText += `--- PAGE ${i} ---\n${pageText}\n\n`;
+    if (onProgress) onProgress(i, numPages);
+  }
+  return fullText;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Like extractTextFromPdf, but keeps the position and size pdf.js reports for every run
+ * and groups the runs into headings, paragraphs and tables.
+ */
+export const extractStructuredText = async (bytes: ArrayBuffer, onProgress?: ProgressCallback): Promise<StructuredPage[]> => {
+  const pdf = await loadPdfJsDocument(bytes);
+  try {
+    const numPages = pdf.numPages;
+    const pages = [];
+    for (let i = 1; i <= numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+      const items: PositionedText[] = [];
+      for (const item of textContent.items) {
+        if (!('str' in item) || !item.str) continue;
+        // Map into viewport space so /Rotate and the crop box are already accounted for
+        const [a, b, c, d, e, f] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+        const fontSize = Math.hypot(c, d);
+        const scale = Math.hypot(a, b) / (Math.hypot(item.transform[0], item.transform[1]) || 1);
+        items.push({
+          text: item.str,
+          x: round(e),
+          y: round(f - fontSize),
+          width: round(item.width * scale),
+          height: round(fontSize),
+          fontSize: round(fontSize),
+          fontName: item.fontName,
+        });
+      }
+      pages.push({ pageNumber: i, width: round(viewport.width), height: round(viewport.height), items });
+      if (onProgress) onProgress(i, numPages);
+    }
+    return analyzeLayout(pages);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * How a page appears once rendered, i.e. after the crop box and /Rotate are applied. `toUserSpace`
+ * maps a point on the rendered image (fractions, top-left origin) back to user space, and content
+ * drawn with the `cos`/`sin` rotation reads upright there.
+ */
+const displayGeometry = (page: PDFPage) => {
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation === 90 || rotation === 270;
+  const toUserSpace = (u: number, v: number): [number, number] => {
+    switch (rotation) {
+      case 90: return [box.x + v * box.width, box.y + u * box.height];
+      case 180: return [box.x + (1 - u) * box.width, box.y + v * box.height];
+      case 270: return [box.x + (1 - v) * box.width, box.y + (1 - u) * box.height];
+      default: return [box.x + u * box.width, box.y + (1 - v) * box.height];
+    }
+  };
+  return {
+    rotation,
+    shownWidth: sideways ? box.height : box.width,
+    shownHeight: sideways ? box.width : box.height,
+    toUserSpace,
+    cos: Math.round(Math.cos((rotation * Math.PI) / 180)),
+    sin: Math.round(Math.sin((rotation * Math.PI) / 180)),
+  };
+};
+
+/**
+ * Writes OCR results back as invisible text (render mode 3) positioned over each word, which makes
+ * scanned pages searchable and selectable without changing how they look.
+ */
+export const addTextLayerToPDF = async (bytes: ArrayBuffer, pages: OcrPage[]): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const drawable = drawableTextFilter(font);
+  pdfDoc.getPages().forEach((page, i) => {
+    const words = pages[i]?.words ?? [];
+    if (words.length === 0) return;
+    const fontName = page.node.newFontDictionary(font.name, font.ref);
+    const { shownWidth, shownHeight, toUserSpace, cos, sin } = displayGeometry(page);
+
+    const operators = [pushGraphicsState(), beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+    for (const word of words) {
+      const text = drawable(word.text);
+      const size = (word.y1 - word.y0) * shownHeight;
+      if (!text || size <= 0) continue;
+      // Stretch each word horizontally so a selection covers exactly the word on the image
+      const naturalWidth = font.widthOfTextAtSize(text, size);
+      const squeeze = naturalWidth > 0 ? ((word.x1 - word.x0) * shownWidth / naturalWidth) * 100 : 100;
+      const [x, y] = toUserSpace(word.x0, word.y1);
+      operators.push(
+        setFontAndSize(fontName, size),
+        setCharacterSqueeze(squeeze),
+        setTextMatrix(cos, sin, -sin, cos, x, y),
+        showText(font.encodeText(text)),
+      );
+    }
+    operators.push(endText(), popGraphicsState());
+    page.pushOperators(...operators);
+  });
+  return await pdfDoc.save();
+};
+
+export interface StampImage {
+  id: string;
+  bytes: ArrayBuffer;
+}
+
+/**
+ * Draws signature images and date stamps into their boxes, upright as the page is shown. Images keep
+ * their aspect ratio and are centred in the box; the date is sized to the box height, or smaller if
+ * it would not fit the width.
+ */
+export const stampSignatures = async (
+  bytes: ArrayBuffer,
+  images: StampImage[],
+  placements: SignaturePlacement[],
+  dateText: string
+): Promise<Uint8Array> => {
+  if (placements.length === 0) throw new Error('Place at least one signature or date stamp.');
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const stampText = drawableTextFilter(font)(dateText).trim();
+  const embedded = new Map<string, PDFImage>();
+  for (const image of images) embedded.set(image.id, await pdfDoc.embedPng(image.bytes));
+
+  pdfDoc.getPages().forEach((page, i) => {
+    const { rotation, shownWidth, shownHeight, toUserSpace, cos, sin } = displayGeometry(page);
+    for (const placement of placements) {
+      if (!placement.allPages && placement.pageIndex !== i) continue;
+      const boxWidth = placement.width * shownWidth;
+      const boxHeight = placement.height * shownHeight;
+      const [x, y] = toUserSpace(placement.x, placement.y + placement.height);
+      // Offsets within the box are taken along the rotated axes
+      const at = (dx: number, dy: number) => ({ x: x + dx * cos - dy * sin, y: y + dx * sin + dy * cos });
+
+      if (placement.signatureId === null) {
+        const size = Math.min(boxHeight / font.heightAtSize(1), boxWidth / (font.widthOfTextAtSize(stampText, 1) || 1));
+        const descent = font.heightAtSize(size) - font.heightAtSize(size, { descender: false });
+        page.drawText(stampText, { ...at(0, descent + (boxHeight - font.heightAtSize(size)) / 2), size, font, color: rgb(0, 0, 0), rotate: degrees(rotation) });
+        continue;
+      }
+      const image = embedded.get(placement.signatureId);
+      if (!image) throw new Error('A placed signature is no longer available.');
+      const scale = Math.min(boxWidth / image.width, boxHeight / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      page.drawImage(image, { ...at((boxWidth - width) / 2, (boxHeight - height) / 2), width, height, rotate: degrees(rotation) });
+    }
+  });
+  return await pdfDoc.save();
+};
+
+/** Pages with redactions are rasterized at 144 DPI. */
+const REDACTION_SCALE = 2;
+
+/**
+ * Removes everything under the boxes by replacing each affected page with a flattened image
+ * of itself, with the boxes burned in. Text, vector content and annotations on those pages
+ * are gone from the output, not merely covered; untouched pages are copied as they are.
+ */
+export const redactPDF = async (bytes: ArrayBuffer, boxes: RedactionBox[], onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  if (boxes.length === 0) throw new Error('Mark at least one area to redact.');
+  // pdf.js may take ownership of the buffer, so pdf-lib reads it first
+  const srcDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const pdf = await loadPdfJsDocument(bytes);
+  try {
+    const newPdf = await PDFDocument.create();
+    const affected = Array.from(new Set(boxes.map(b => b.pageIndex))).sort((a, b) => a - b);
+    // Only untouched pages are copied: pdf-lib saves every object it holds, referenced or not, so a
+    // copied redacted page would carry its original content into the output
+    const copied = await newPdf.copyPages(srcDoc, srcDoc.getPageIndices().filter(i => !affected.includes(i)));
+    let nextCopied = 0;
+
+    for (let i = 0; i < srcDoc.getPageCount(); i++) {
+      const pageBoxes = boxes.filter(b => b.pageIndex === i);
+      if (pageBoxes.length === 0) {
+        newPdf.addPage(copied[nextCopied++]);
+        continue;
+      }
+      const page = await pdf.getPage(i + 1);
+      const image = await renderPageToBlob(page, REDACTION_SCALE, 'image/png', 1, (context, width, height) => {
+        context.fillStyle = '#000000';
+        pageBoxes.forEach(b => context.fillRect(b.x * width, b.y * height, b.width * width, b.height * height));
+      });
+      const embedded = await newPdf.embedPng(await image.arrayBuffer());
+      const { width, height } = page.getViewport({ scale: 1 });
+      newPdf.addPage([width, height]).drawImage(embedded, { x: 0, y: 0, width, height });
+      if (onProgress) onProgress(affected.indexOf(i) + 1, affected.length);
+    }
+    return await newPdf.save();
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+export const pdfToImages = async (
+  bytes: ArrayBuffer,
+  format: 'png' | 'jpeg',
+  onProgress?: ProgressCallback
+): Promise<{ name: string, data: Blob }[]> => {
+  const pdf = await loadPdfJsDocument(bytes);
+  const numPages = pdf.numPages;
+  const images = [];
+  for (let i = 1; i <= numPages; i++) {
+    const page = await pdf.getPage(i);
+    images.push({ name: `page_${i}.${format}`, data: await renderPageToBlob(page, 2.0, `image/${format}`, 0.9) });
+    if (onProgress) onProgress(i, numPages);
+  }
+  return images;
+};
+
+export const createZip = async (entries: { name: string; data: Uint8Array | Blob | string }[]): Promise<Blob> => {
+  const zip = new JSZip();
+  entries.forEach(entry => zip.file(entry.name, entry.data));
+  return await zip.generateAsync({ type: 'blob' });
+};
+
+export const pdfToImagesZip = async (
+  bytes: ArrayBuffer,
+  format: 'png' | 'jpeg',
+  onProgress?: ProgressCallback
+): Promise<Blob> => {
+  return await createZip(await pdfToImages(bytes, format, onProgress));
+};
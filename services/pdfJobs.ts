@@ -0,0 +1,89 @@
+import * as core from './pdfCore';
+import * as security from './securityCore';
+import * as compression from './compressCore';
+import * as forms from './formsCore';
+import * as signatures from './signatureCore';
+import * as outlines from './outlineCore';
+import * as splitting from './splitCore';
+import * as comparing from './compareCore';
+import * as metadata from './metadataCore';
+import type { ComparisonResult, CompressionPreset, DigitalSignatureDetails, DocumentMetadata, EncryptionConfig, FormFieldValue, MergeOptions, OcrPage, OutlineItem, RedactionBox, SignaturePlacement, SplitConfig } from '../types';
+import type { PagePlanEntry } from '../utils/pagePlan';
+import { ImageSource, ImageToPdfLayout, ProgressCallback, StampImage, PageNumberOptions, PreviewOperation, WatermarkOptions } from './pdfCore';
+
+/**
+ * Every operation the worker pool can run, keyed by job name. Payloads and results must be
+ * structured-cloneable; input ArrayBuffers are transferred rather than copied. Jobs that only read
+ * part of a document take the Blob itself, which crosses to the worker without copying its data.
+ */
+export const pdfJobs = {
+  'page-count': (p: { file: Blob }) => core.getPageCount(p.file),
+  'thumbnails': (p: { file: Blob; pageIndices: number[] }) => core.renderThumbnails(p.file, p.pageIndices),
+  'page-image': (p: { file: Blob; pageIndex: number; scale: number }) => core.renderPageImage(p.file, p.pageIndex, p.scale),
+  'preview': (p: { bytes: ArrayBuffer; operation: PreviewOperation; pageIndex: number; fileName: string }) =>
+    core.renderOperationPreview(p.bytes, p.operation, p.pageIndex, p.fileName),
+  'watermark': (p: { bytes: ArrayBuffer; config: WatermarkOptions; image: ArrayBuffer | null; fileName: string }) =>
+    core.applyWatermarkToPDF(p.bytes, p.config, p.image, p.fileName),
+  'page-numbers': (p: { bytes: ArrayBuffer; config: PageNumberOptions; font: ArrayBuffer | null; fileName: string; batesOffset: number }) =>
+    core.addPageNumbersToPDF(p.bytes, p.config, p.font, p.fileName, p.batesOffset),
+  'merge': (p: { documents: ArrayBuffer[]; titles: string[]; options?: MergeOptions }) => core.mergePDFs(p.documents, p.titles, p.options),
+  'get-outline': (p: { bytes: ArrayBuffer }) => outlines.getOutline(p.bytes),
+  'set-outline': (p: { bytes: ArrayBuffer; items: OutlineItem[] }) => outlines.setOutline(p.bytes, p.items),
+  'images-to-pdf': (p: { images: ImageSource[]; layout: ImageToPdfLayout }) => core.imagesToPDF(p.images, p.layout),
+  'split': (p: { bytes: ArrayBuffer; pages: number[] }) => core.splitPDF(p.bytes, p.pages),
+  'split-document': (p: { bytes: ArrayBuffer; config: SplitConfig; fileName: string }, onProgress: ProgressCallback) =>
+    splitting.splitDocument(p.bytes, p.config, p.fileName, onProgress),
+  'compose': (p: { documents: ArrayBuffer[]; plan: PagePlanEntry[] }) => core.composePDFPages(p.documents, p.plan),
+  'rotate': (p: { bytes: ArrayBuffer; rotation: number; pageNumbers?: number[] }) => core.rotatePDF(p.bytes, p.rotation, p.pageNumbers),
+  'text-layer': (p: { bytes: ArrayBuffer; pages: OcrPage[] }) => core.addTextLayerToPDF(p.bytes, p.pages),
+  'form-fields': (p: { bytes: ArrayBuffer }) => forms.getFormFields(p.bytes),
+  'fill-form': (p: { bytes: ArrayBuffer; values: Record<string, FormFieldValue>; flatten: boolean }) => forms.fillForm(p.bytes, p.values, p.flatten),
+  'compress': (p: { bytes: ArrayBuffer; preset: CompressionPreset }, onProgress: ProgressCallback) => compression.compressPDF(p.bytes, p.preset, onProgress),
+  'redact': (p: { bytes: ArrayBuffer; boxes: RedactionBox[] }, onProgress: ProgressCallback) => core.redactPDF(p.bytes, p.boxes, onProgress),
+  'sign': (p: { bytes: ArrayBuffer; images: StampImage[]; placements: SignaturePlacement[]; dateText: string }) =>
+    core.stampSignatures(p.bytes, p.images, p.placements, p.dateText),
+  'certificate-info': (p: { p12: ArrayBuffer; password: string }) => signatures.describeCertificate(p.p12, p.password),
+  'digital-sign': (p: { bytes: ArrayBuffer; p12: ArrayBuffer; password: string; details: DigitalSignatureDetails }) =>
+    signatures.signPDFDigitally(p.bytes, p.p12, p.password, p.details),
+  'verify-signatures': (p: { bytes: ArrayBuffer }) => signatures.verifyPDFSignatures(p.bytes),
+  'compare': (p: { left: Blob; right: Blob }, onProgress: ProgressCallback) => comparing.compareDocuments(p.left, p.right, onProgress),
+  'compare-report-html': (p: { result: ComparisonResult }) => comparing.buildComparisonReportHtml(p.result),
+  'compare-report-pdf': (p: { result: ComparisonResult }) => comparing.buildComparisonReportPdf(p.result),
+  'read-metadata': (p: { bytes: ArrayBuffer }) => metadata.readMetadata(p.bytes),
+  'write-metadata': (p: { bytes: ArrayBuffer; changes: Partial<DocumentMetadata> }) => metadata.writeMetadata(p.bytes, p.changes),
+  'sanitize': (p: { bytes: ArrayBuffer }) => metadata.sanitizePDF(p.bytes),
+  'extract-structured': (p: { bytes: ArrayBuffer }, onProgress: ProgressCallback) => core.extractStructuredText(p.bytes, onProgress),
+  'extract-text': (p: { bytes: ArrayBuffer }, onProgress: ProgressCallback) => core.extractTextFromPdf(p.bytes, onProgress),
+  'pdf-to-images': (p: { bytes: ArrayBuffer; format: 'png' | 'jpeg' }, onProgress: ProgressCallback) => core.pdfToImages(p.bytes, p.format, onProgress),
+  'pdf-to-images-zip': (p: { bytes: ArrayBuffer; format: 'png' | 'jpeg' }, onProgress: ProgressCallback) => core.pdfToImagesZip(p.bytes, p.format, onProgress),
+  'is-encrypted': (p: { file: Blob }) => security.isPdfEncrypted(p.file),
+  'decrypt': (p: { bytes: ArrayBuffer; password: string }) => security.decryptPDF(p.bytes, p.password),
+  'encrypt': (p: { bytes: ArrayBuffer; config: EncryptionConfig }) => security.encryptPDF(p.bytes, p.config),
+};
+
+export type PdfJobType = keyof typeof pdfJobs;
+export type PdfJobPayload<T extends PdfJobType> = Parameters<typeof pdfJobs[T]>[0];
+export type PdfJobResult<T extends PdfJobType> = Awaited<ReturnType<typeof pdfJobs[T]>>;
+
+export type WorkerRequest<T extends PdfJobType = PdfJobType> = { id: number; type: T; payload: PdfJobPayload<T> };
+
+export type WorkerResponse<T extends PdfJobType = PdfJobType> =
+  | { id: number; kind: 'progress'; current: number; total: number }
+  | { id: number; kind: 'result'; result: PdfJobResult<T> }
+  | { id: number; kind: 'error'; message: string };
+
+export const runPdfJob = <T extends PdfJobType>(type: T, payload: PdfJobPayload<T>, onProgress: ProgressCallback): Promise<PdfJobResult<T>> => {
+  const handler = pdfJobs[type] as (payload: PdfJobPayload<T>, onProgress: ProgressCallback) => Promise<PdfJobResult<T>>;
+  return handler(payload, onProgress);
+};
+
+/**
+ * Collects the buffers inside a result so they can be transferred back instead of copied.
+ */
+export const collectTransferables = (value: unknown): Transferable[] => {
+  if (value instanceof Uint8Array) return [value.buffer as ArrayBuffer];
+  if (value instanceof ArrayBuffer) return [value];
+  if (Array.isArray(value)) return value.flatMap(collectTransferables);
+  if (value && typeof value === 'object' && !(value instanceof Blob)) return Object.values(value).flatMap(collectTransferables);
+  return [];
+};
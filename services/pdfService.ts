@@ -1,288 +1,267 @@
+import { runJob } from './workerPool';
+import type { ImageToPdfLayout, PreviewOperation, ProgressCallback } from './pdfCore';
+import type { SplitPart } from './splitCore';
+import type { CertificateInfo, ComparisonResult, DocumentMetadata, MetadataInspection, PageComparison, SanitizeReport, CompressionPreset, DigitalSignatureDetails, EncryptionConfig, FormFieldInfo, FormFieldValue, MergeOptions, OcrPage, OutlineItem, RedactionBox, SavedSignature, SignaturePlacement, SignatureVerification, SplitConfig, StructuredPage, ToolPreview, WatermarkConfig, PageNumberConfig } from '../types';
+import type { PagePlanEntry } from '../utils/pagePlan';
 
-import { PDFDocument, degrees, rgb, StandardFonts, PageSizes } from 'pdf-lib';
-import JSZip from 'jszip';
-import * as pdfjsLib from 'pdfjs-dist';
+// Public service API. Each call reads its input into a fresh ArrayBuffer, transfers it to the
+// worker pool and resolves with the worker's result, so the UI thread never runs pdf-lib or pdf.js.
 
-// Use a dynamic import or static URL for the worker in a Vite environment
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+export type { ImageToPdfLayout } from './pdfCore';
+export { createZip } from './pdfCore';
+// The viewer holds a live pdf.js document on this thread; pdf.js still parses in its own worker
+export { openPdfJsRange } from './pdfCore';
+export { COMPRESSION_PRESETS } from './compressCore';
+export { cancelAllJobs, isJobCancelled } from './workerPool';
 
 export const getPageCount = async (file: File): Promise<number> => {
   if (file.type.startsWith('image/')) return 1;
-  const bytes = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  return pdfDoc.getPageCount();
+  return await runJob('page-count', { file });
 };
 
-export const getPageThumbnails = async (
-  file: File,
-  onProgress?: (current: number, total: number) => void
-): Promise<string[]> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const numPages = pdf.numPages;
-  const thumbnails: string[] = [];
-
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i);
-    const viewport = page.getViewport({ scale: 0.4 });
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error('Could not create canvas context');
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-    await page.render({ canvasContext: context, viewport }).promise;
-    thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
-    if (onProgress) onProgress(i, numPages);
-    canvas.width = 0;
-    canvas.height = 0;
-  }
-  return thumbnails;
+export const renderThumbnails = async (file: File, pageIndices: number[]): Promise<Blob[]> => {
+  return await runJob('thumbnails', { file, pageIndices });
 };
 
-export const reorderPDFPages = async (file: File, newIndices: number[]): Promise<Uint8Array> => {
-  const bytes = await file.arrayBuffer();
-  const srcPdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const newPdf = await PDFDocument.create();
-  const copiedPages = await newPdf.copyPages(srcPdf, newIndices);
-  copiedPages.forEach((page) => newPdf.addPage(page));
-  return await newPdf.save();
+export const renderPageImage = async (file: File, pageIndex: number, scale: number): Promise<string> => {
+  return await runJob('page-image', { file, pageIndex, scale });
 };
 
-export const removePagesFromPDF = async (file: File, indicesToRemove: number[]): Promise<Uint8Array> => {
+export const applyWatermarkToPDF = async (file: File, config: WatermarkConfig): Promise<Uint8Array> => {
   const bytes = await file.arrayBuffer();
-  const srcPdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const newPdf = await PDFDocument.create();
-  const totalPages = srcPdf.getPageCount();
-  const indicesToKeep = [];
-  for (let i = 0; i < totalPages; i++) {
-    if (!indicesToRemove.includes(i)) indicesToKeep.push(i);
-  }
-  if (indicesToKeep.length === 0) throw new Error("Cannot delete all pages.");
-  const copiedPages = await newPdf.copyPages(srcPdf, indicesToKeep);
-  copiedPages.forEach((page) => newPdf.addPage(page));
-  return await newPdf.save();
+  const { image, ...options } = config;
+  const imageBytes = options.kind === 'image' && image ? await (await fetch(image.dataUrl)).arrayBuffer() : null;
+  return await runJob('watermark', { bytes, config: options, image: imageBytes, fileName: file.name }, { transfer: imageBytes ? [bytes, imageBytes] : [bytes] });
 };
 
-export const applyWatermarkToPDF = async (
-  file: File, 
-  text: string, 
-  config: { fontSize: number; opacity: number; rotation: number; color: string }
-): Promise<Uint8Array> => {
+export const addPageNumbersToPDF = async (file: File, config: PageNumberConfig, batesOffset = 0): Promise<Uint8Array> => {
   const bytes = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const pages = pdfDoc.getPages();
-  const helveticaFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  const hex = config.color.replace('#', '');
-  const r = parseInt(hex.substring(0, 2), 16) / 255;
-  const g = parseInt(hex.substring(2, 4), 16) / 255;
-  const b = parseInt(hex.substring(4, 6), 16) / 255;
-  for (const page of pages) {
-    const { width, height } = page.getSize();
-    const textWidth = helveticaFont.widthOfTextAtSize(text, config.fontSize);
-    const textHeight = helveticaFont.heightAtSize(config.fontSize);
-    page.drawText(text, {
-      x: width / 2 - textWidth / 2,
-      y: height / 2 - textHeight / 2,
-      size: config.fontSize,
-      font: helveticaFont,
-      color: rgb(r, g, b),
-      opacity: config.opacity,
-      rotate: degrees(config.rotation),
-    });
-  }
-  return await pdfDoc.save();
+  const { customFont, ...options } = config;
+  const font = options.font === 'custom' && customFont ? await (await fetch(customFont.dataUrl)).arrayBuffer() : null;
+  return await runJob('page-numbers', { bytes, config: options, font, fileName: file.name, batesOffset }, { transfer: font ? [bytes, font] : [bytes] });
 };
 
-export const addPageNumbersToPDF = async (
-  file: File,
-  config: { position: 'top' | 'bottom'; alignment: 'left' | 'center' | 'right'; fontSize: number; color: string }
-): Promise<Uint8Array> => {
+/**
+ * Renders one page with the pending operation applied, without changing the file. Aborting
+ * `signal` drops the job, for a preview already replaced by newer settings.
+ */
+export const renderPreview = async (file: File, preview: ToolPreview, pageIndex: number, signal?: AbortSignal): Promise<Blob> => {
   const bytes = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const pages = pdfDoc.getPages();
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const hex = config.color.replace('#', '');
-  const r = parseInt(hex.substring(0, 2), 16) / 255;
-  const g = parseInt(hex.substring(2, 4), 16) / 255;
-  const b = parseInt(hex.substring(4, 6), 16) / 255;
-  const margin = 30;
-  for (let i = 0; i < pages.length; i++) {
-    const page = pages[i];
-    const { width, height } = page.getSize();
-    const text = `${i + 1} / ${pages.length}`;
-    const textWidth = font.widthOfTextAtSize(text, config.fontSize);
-    let x = margin;
-    if (config.alignment === 'center') x = width / 2 - textWidth / 2;
-    else if (config.alignment === 'right') x = width - textWidth - margin;
-    let y = margin;
-    if (config.position === 'top') y = height - margin - config.fontSize;
-    page.drawText(text, { x, y, size: config.fontSize, font, color: rgb(r, g, b) });
+  let operation: PreviewOperation;
+  let extra: ArrayBuffer | null = null;
+  if (preview.kind === 'watermark') {
+    const { image, ...config } = preview.config;
+    extra = config.kind === 'image' && image ? await (await fetch(image.dataUrl)).arrayBuffer() : null;
+    operation = { kind: 'watermark', config, image: extra };
+  } else if (preview.kind === 'page-numbers') {
+    const { customFont, ...config } = preview.config;
+    extra = config.font === 'custom' && customFont ? await (await fetch(customFont.dataUrl)).arrayBuffer() : null;
+    operation = { kind: 'page-numbers', config, font: extra, batesOffset: 0 };
+  } else {
+    operation = preview;
   }
-  return await pdfDoc.save();
+  return await runJob('preview', { bytes, operation, pageIndex, fileName: file.name }, { signal, transfer: extra ? [bytes, extra] : [bytes] });
 };
 
-export const mergePDFs = async (files: File[]): Promise<Uint8Array> => {
-  const mergedPdf = await PDFDocument.create();
-  for (const file of files) {
-    const bytes = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-    const copiedPages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
-    copiedPages.forEach((page) => mergedPdf.addPage(page));
-  }
-  return await mergedPdf.save();
+export const mergePDFs = async (files: File[], options?: MergeOptions): Promise<Uint8Array> => {
+  const documents = await Promise.all(files.map(f => f.arrayBuffer()));
+  const titles = files.map(f => f.name.replace(/\.pdf$/i, ''));
+  return await runJob('merge', { documents, titles, options }, { transfer: documents });
 };
 
-export type ImageToPdfLayout = 'original' | 'A4_PORTRAIT' | 'A4_LANDSCAPE';
+export const getOutline = async (file: File): Promise<OutlineItem[]> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('get-outline', { bytes }, { transfer: [bytes] });
+};
+
+export const setOutline = async (file: File, items: OutlineItem[]): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('set-outline', { bytes, items }, { transfer: [bytes] });
+};
 
 export const imagesToPDF = async (imageFiles: File[], layout: ImageToPdfLayout = 'original'): Promise<Uint8Array> => {
-  const pdfDoc = await PDFDocument.create();
-  
-  for (const file of imageFiles) {
-    const arrayBuffer = await file.arrayBuffer();
-    let image;
-    
-    try {
-      if (file.type === 'image/jpeg' || file.type === 'image/jpg') {
-        image = await pdfDoc.embedJpg(arrayBuffer);
-      } else if (file.type === 'image/png') {
-        image = await pdfDoc.embedPng(arrayBuffer);
-      } else {
-        const img = new Image();
-        const url = URL.createObjectURL(file);
-        img.src = url;
-        await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = reject;
-        });
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Canvas context failed');
-        ctx.drawImage(img, 0, 0);
-        const dataUrl = canvas.toDataURL('image/png');
-        const response = await fetch(dataUrl);
-        const pngBuffer = await response.arrayBuffer();
-        image = await pdfDoc.embedPng(pngBuffer);
-        URL.revokeObjectURL(url);
-      }
-
-      const imgDims = image.scale(1);
-      let pageWidth: number, pageHeight: number;
-
-      if (layout === 'A4_PORTRAIT') {
-        [pageWidth, pageHeight] = PageSizes.A4;
-      } else if (layout === 'A4_LANDSCAPE') {
-        pageHeight = PageSizes.A4[0];
-        pageWidth = PageSizes.A4[1];
-      } else {
-        pageWidth = imgDims.width;
-        pageHeight = imgDims.height;
-      }
-
-      const page = pdfDoc.addPage([pageWidth, pageHeight]);
-      const scale = Math.min(pageWidth / imgDims.width, pageHeight / imgDims.height);
-      const drawWidth = imgDims.width * scale;
-      const drawHeight = imgDims.height * scale;
-
-      page.drawImage(image, {
-        x: (pageWidth - drawWidth) / 2,
-        y: (pageHeight - drawHeight) / 2,
-        width: drawWidth,
-        height: drawHeight,
-      });
-    } catch (e) {
-      console.error('Error embedding image:', file.name, e);
-    }
-  }
-  return await pdfDoc.save();
+  const images = await Promise.all(imageFiles.map(async f => ({ name: f.name, type: f.type, bytes: await f.arrayBuffer() })));
+  return await runJob('images-to-pdf', { images, layout }, { transfer: images.map(i => i.bytes) });
 };
 
 export const splitPDF = async (file: File, pages: number[]): Promise<Uint8Array> => {
   const bytes = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const newPdf = await PDFDocument.create();
-  const indices = pages.map(p => p - 1).filter(idx => idx >= 0 && idx < pdfDoc.getPageCount());
-  const copiedPages = await newPdf.copyPages(pdfDoc, indices);
-  copiedPages.forEach((page) => newPdf.addPage(page));
-  return await newPdf.save();
+  return await runJob('split', { bytes, pages }, { transfer: [bytes] });
 };
 
-export const splitToIndividualFiles = async (file: File): Promise<{ name: string, data: Uint8Array }[]> => {
+export const splitDocument = async (file: File, config: SplitConfig, onProgress?: ProgressCallback): Promise<SplitPart[]> => {
   const bytes = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const pageCount = pdfDoc.getPageCount();
-  const results = [];
-  for (let i = 0; i < pageCount; i++) {
-    const newPdf = await PDFDocument.create();
-    const [page] = await newPdf.copyPages(pdfDoc, [i]);
-    newPdf.addPage(page);
-    const pdfBytes = await newPdf.save();
-    results.push({ name: `${file.name.replace('.pdf', '')}_page_${i + 1}.pdf`, data: pdfBytes });
-  }
-  return results;
+  return await runJob('split-document', { bytes, config, fileName: file.name }, { onProgress, transfer: [bytes] });
 };
 
 export const rotatePDF = async (file: File, rotation: number, pageNumbers?: number[]): Promise<Uint8Array> => {
   const bytes = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
-  const pages = pdfDoc.getPages();
-  const indicesToRotate = pageNumbers 
-    ? pageNumbers.map(n => n - 1).filter(idx => idx >= 0 && idx < pages.length)
-    : pages.map((_, i) => i);
-  indicesToRotate.forEach((idx) => {
-    const page = pages[idx];
-    const currentRotation = page.getRotation().angle;
-    page.setRotation(degrees((currentRotation + rotation) % 360));
-  });
-  return await pdfDoc.save();
+  return await runJob('rotate', { bytes, rotation, pageNumbers }, { transfer: [bytes] });
+};
+
+/**
+ * Builds a document from a page plan whose `source` values index into `files`.
+ */
+export const composePDFPages = async (files: File[], plan: PagePlanEntry[]): Promise<Uint8Array> => {
+  const documents = await Promise.all(files.map(f => f.arrayBuffer()));
+  return await runJob('compose', { documents, plan }, { transfer: documents });
 };
 
 export const extractTextFromPdf = async (
   file: File,
-  onProgress?: (current: number, total: number) => void
+  onProgress?: ProgressCallback
 ): Promise<string> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const numPages = pdf.numPages;
-  let fullText = '';
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items.map((item: any) => item.str).join(' ');
-    fullText += `--- PAGE ${i} ---\n${pageText}\n\n`;
-    if (onProgress) onProgress(i, numPages);
-  }
-  return fullText;
+  const bytes = await file.arrayBuffer();
+  return await runJob('extract-text', { bytes }, { onProgress, transfer: [bytes] });
+};
+
+export const extractStructuredText = async (
+  file: File,
+  onProgress?: ProgressCallback
+): Promise<StructuredPage[]> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('extract-structured', { bytes }, { onProgress, transfer: [bytes] });
+};
+
+/**
+ * Compares a revised document against the original. Both are read in ranges by the worker, so
+ * neither is copied whole.
+ */
+export const compareDocuments = async (original: File, revised: File, onProgress?: ProgressCallback): Promise<PageComparison[]> => {
+  return await runJob('compare', { left: original, right: revised }, { onProgress });
+};
+
+export const buildComparisonReport = async (result: ComparisonResult, format: 'html' | 'pdf'): Promise<Blob> => {
+  if (format === 'html') return new Blob([await runJob('compare-report-html', { result })], { type: 'text/html' });
+  const bytes = await runJob('compare-report-pdf', { result });
+  // A copy is backed by a plain ArrayBuffer, which is what a BlobPart must be
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+};
+
+export const readMetadata = async (file: File): Promise<MetadataInspection> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('read-metadata', { bytes }, { transfer: [bytes] });
+};
+
+export const writeMetadata = async (file: File, changes: Partial<DocumentMetadata>): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('write-metadata', { bytes, changes }, { transfer: [bytes] });
+};
+
+export const sanitizePDF = async (file: File): Promise<{ data: Uint8Array; report: SanitizeReport }> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('sanitize', { bytes }, { transfer: [bytes] });
+};
+
+export const getFormFields = async (file: File): Promise<FormFieldInfo[]> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('form-fields', { bytes }, { transfer: [bytes] });
+};
+
+export const fillForm = async (file: File, values: Record<string, FormFieldValue>, flatten: boolean): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('fill-form', { bytes, values, flatten }, { transfer: [bytes] });
+};
+
+export const compressPDF = async (
+  file: File,
+  preset: CompressionPreset,
+  onProgress?: ProgressCallback
+): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('compress', { bytes, preset }, { onProgress, transfer: [bytes] });
+};
+
+export const redactPDF = async (
+  file: File,
+  boxes: RedactionBox[],
+  onProgress?: ProgressCallback
+): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('redact', { bytes, boxes }, { onProgress, transfer: [bytes] });
+};
+
+export const stampSignatures = async (
+  file: File,
+  signatures: SavedSignature[],
+  placements: SignaturePlacement[],
+  dateText: string
+): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  const used = signatures.filter(sig => placements.some(p => p.signatureId === sig.id));
+  const images = await Promise.all(used.map(async sig => ({ id: sig.id, bytes: await (await fetch(sig.dataUrl)).arrayBuffer() })));
+  return await runJob('sign', { bytes, images, placements, dateText }, { transfer: [bytes, ...images.map(image => image.bytes)] });
+};
+
+export const describeCertificate = async (certificate: File, password: string): Promise<CertificateInfo> => {
+  const p12 = await certificate.arrayBuffer();
+  return await runJob('certificate-info', { p12, password }, { transfer: [p12] });
+};
+
+export const signPDFDigitally = async (
+  file: File,
+  certificate: File,
+  password: string,
+  details: DigitalSignatureDetails
+): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  const p12 = await certificate.arrayBuffer();
+  return await runJob('digital-sign', { bytes, p12, password, details }, { transfer: [bytes, p12] });
+};
+
+export const verifyPDFSignatures = async (file: File): Promise<SignatureVerification[]> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('verify-signatures', { bytes }, { transfer: [bytes] });
+};
+
+export const addTextLayerToPDF = async (file: File, pages: OcrPage[]): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('text-layer', { bytes, pages }, { transfer: [bytes] });
+};
+
+export const pdfToImages = async (
+  file: File,
+  format: 'png' | 'jpeg',
+  onProgress?: ProgressCallback
+): Promise<{ name: string, data: Blob }[]> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('pdf-to-images', { bytes, format }, { onProgress, transfer: [bytes] });
 };
 
 export const pdfToImagesZip = async (
-  file: File, 
-  format: 'png' | 'jpeg', 
-  onProgress?: (current: number, total: number) => void
+  file: File,
+  format: 'png' | 'jpeg',
+  onProgress?: ProgressCallback
 ): Promise<Blob> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const zip = new JSZip();
-  const numPages = pdf.numPages;
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i);
-    const viewport = page.getViewport({ scale: 2.0 });
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error('Could not create canvas context');
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-    await page.render({ canvasContext: context, viewport }).promise;
-    const mimeType = `image/${format}`;
-    const imgData = canvas.toDataURL(mimeType, 0.9);
-    const base64Data = imgData.split(',')[1];
-    zip.file(`page_${i}.${format}`, base64Data, { base64: true });
-    if (onProgress) onProgress(i, numPages);
-    canvas.width = 0;
-    canvas.height = 0;
-  }
-  return await zip.generateAsync({ type: 'blob' });
+  const bytes = await file.arrayBuffer();
+  return await runJob('pdf-to-images-zip', { bytes, format }, { onProgress, transfer: [bytes] });
+};
+
+export const isPdfEncrypted = async (file: File): Promise<boolean> => {
+  return await runJob('is-encrypted', { file });
+};
+
+/**
+ * Produces an unencrypted working copy. Rejects with "Incorrect password." on a bad password.
+ */
+export const decryptPDF = async (file: File, password: string): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('decrypt', { bytes, password }, { transfer: [bytes] });
+};
+
+export const isIncorrectPasswordError = (err: unknown): boolean =>
+  err instanceof Error && err.message === 'Incorrect password.';
+
+export const encryptPDF = async (file: File, config: EncryptionConfig): Promise<Uint8Array> => {
+  const bytes = await file.arrayBuffer();
+  return await runJob('encrypt', { bytes, config }, { transfer: [bytes] });
+};
+
+/**
+ * Wraps raw PDF bytes in a File so the output of one operation can feed the next.
+ */
+export const bytesToFile = (data: Uint8Array, fileName: string): File => {
+  return new File([new Uint8Array(data)], fileName, { type: 'application/pdf' });
 };
 
 /**
@@ -0,0 +1,17 @@
+import { runPdfJob, collectTransferables, WorkerRequest, WorkerResponse } from './pdfJobs';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer: Transferable[]) => void;
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, type, payload } = event.data;
+  const post = (message: WorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+  try {
+    const result = await runPdfJob(type, payload, (current, total) => post({ id, kind: 'progress', current, total }));
+    post({ id, kind: 'result', result }, collectTransferables(result));
+  } catch (err) {
+    post({ id, kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,215 @@
+import {
+  PipelineStep, PipelineStepConfig, PipelineOp, PipelineDefinition, WatermarkConfig, WatermarkImage, WatermarkKind,
+  WatermarkLayout, WatermarkAnchor, PageNumberConfig, HeaderFooterSlots, PageNumberStyle, StampFont, EmbeddedFont
+} from '../types';
+import { rotatePDF, applyWatermarkToPDF, addPageNumbersToPDF, splitPDF, mergePDFs, bytesToFile } from './pdfService';
+import { parsePageRanges } from '../utils/pageRanges';
+import { createId } from '../utils/ids';
+
+export interface PipelineOutput {
+  name: string;
+  data: Uint8Array;
+}
+
+export const PIPELINE_OPS: PipelineOp[] = ['rotate', 'watermark', 'page-numbering', 'extract', 'merge'];
+
+export const createPipelineStep = (op: PipelineOp): PipelineStep => {
+  const id = createId();
+  switch (op) {
+    case 'rotate': return { id, op, rotation: 90, ranges: '' };
+    case 'watermark': return { id, op, config: {
+      kind: 'text', text: 'CONFIDENTIAL', fontSize: 50, image: null, imageScale: 0.3, opacity: 0.3, rotation: -45, color: '#000000',
+      layout: 'single', anchor: 'center', margin: 36, spacing: 60, pages: '', layer: 'over', user: '',
+    } };
+    case 'page-numbering': return { id, op, config: {
+      header: { left: '', center: '', right: '' }, footer: { left: '', center: '{page} / {total}', right: '' },
+      fontSize: 12, color: '#000000', font: 'helvetica', customFont: null, margin: 30, numberStyle: 'arabic', skipFirst: 0, mirrorEven: false,
+      bates: { prefix: '', digits: 6, suffix: '', start: 1 },
+    } };
+    case 'extract': return { id, op, ranges: '' };
+    case 'merge': return { id, op };
+  }
+};
+
+const applyStep = async (file: File, step: PipelineStep): Promise<Uint8Array> => {
+  switch (step.op) {
+    case 'rotate': {
+      const pages = parsePageRanges(step.ranges);
+      return await rotatePDF(file, step.rotation, pages.length > 0 ? pages : undefined);
+    }
+    case 'watermark':
+      if (step.config.kind === 'image' ? !step.config.image : !step.config.text.trim()) throw new Error('Watermark step needs stamp text or an image.');
+      return await applyWatermarkToPDF(file, step.config);
+    case 'page-numbering':
+      return await addPageNumbersToPDF(file, step.config);
+    case 'extract': {
+      const pages = parsePageRanges(step.ranges);
+      if (pages.length === 0) throw new Error('Extract step needs page ranges.');
+      return await splitPDF(file, pages);
+    }
+    case 'merge':
+      throw new Error('Merge is applied across documents, not per file.');
+  }
+};
+
+/**
+ * Runs every step in order, feeding each output back in as the next input.
+ * Per-file steps map over the current documents; a merge step collapses them into one.
+ */
+export const runPipeline = async (
+  files: File[],
+  steps: PipelineStep[],
+  onProgress?: (current: number, total: number) => void
+): Promise<PipelineOutput[]> => {
+  if (steps.length === 0) throw new Error('Pipeline has no steps.');
+  let docs = files.map(file => ({ name: file.name, file }));
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    if (step.op === 'merge') {
+      if (docs.length > 1) {
+        const name = `merged_help_${Date.now()}.pdf`;
+        docs = [{ name, file: bytesToFile(await mergePDFs(docs.map(d => d.file)), name) }];
+      }
+    } else {
+      await Promise.all(docs.map(async doc => {
+        doc.file = bytesToFile(await applyStep(doc.file, step), doc.name);
+      }));
+    }
+    if (onProgress) onProgress(i + 1, steps.length);
+  }
+
+  return await Promise.all(docs.map(async doc => ({
+    name: doc.name.startsWith('merged_help_') ? doc.name : `processed_${doc.name}`,
+    data: new Uint8Array(await doc.file.arrayBuffer()),
+  })));
+};
+
+export const serializePipeline = (name: string, steps: PipelineStep[]): string => {
+  const definition: PipelineDefinition = {
+    version: 1,
+    name,
+    steps: steps.map(({ id, ...config }) => config as PipelineStepConfig),
+  };
+  return JSON.stringify(definition, null, 2);
+};
+
+type JsonObject = Record<string, unknown>;
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Guard<string> = (value): value is string => typeof value === 'string';
+const isNumber: Guard<number> = (value): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Guard<boolean> = (value): value is boolean => typeof value === 'boolean';
+const isQuarterTurn: Guard<number> = (value): value is number => isNumber(value) && value % 90 === 0;
+const oneOf = <T extends string>(options: readonly T[]): Guard<T> => (value): value is T => options.includes(value as T);
+const orNull = <T>(guard: Guard<T>): Guard<T | null> => (value): value is T | null => value === null || guard(value);
+
+const isWatermarkImage: Guard<WatermarkImage> = (value): value is WatermarkImage =>
+  isObject(value) && isString(value.dataUrl) && value.dataUrl.startsWith('data:image/') && isNumber(value.width) && isNumber(value.height);
+const isEmbeddedFont: Guard<EmbeddedFont> = (value): value is EmbeddedFont =>
+  isObject(value) && isString(value.name) && isString(value.dataUrl) && value.dataUrl.startsWith('data:');
+
+/**
+ * Reads one field of an imported step. Missing fields keep the default, so files saved before a
+ * field existed still load; a value of the wrong kind rejects the whole file.
+ */
+const read = <T>(source: JsonObject, key: string, fallback: T, guard: Guard<T>, context: string): T => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (!guard(value)) throw new Error(`Pipeline ${context} has an invalid "${key}".`);
+  return value;
+};
+
+const readObject = (source: JsonObject, key: string, context: string): JsonObject => {
+  const value = source[key];
+  if (value === undefined) return {};
+  if (!isObject(value)) throw new Error(`Pipeline ${context} has an invalid "${key}".`);
+  return value;
+};
+
+const readWatermark = (source: JsonObject, defaults: WatermarkConfig): WatermarkConfig => {
+  const context = 'watermark step';
+  return {
+    kind: read(source, 'kind', defaults.kind, oneOf<WatermarkKind>(['text', 'image']), context),
+    text: read(source, 'text', defaults.text, isString, context),
+    fontSize: read(source, 'fontSize', defaults.fontSize, isNumber, context),
+    image: read(source, 'image', defaults.image, orNull(isWatermarkImage), context),
+    imageScale: read(source, 'imageScale', defaults.imageScale, isNumber, context),
+    opacity: read(source, 'opacity', defaults.opacity, isNumber, context),
+    rotation: read(source, 'rotation', defaults.rotation, isNumber, context),
+    color: read(source, 'color', defaults.color, isString, context),
+    layout: read(source, 'layout', defaults.layout, oneOf<WatermarkLayout>(['single', 'tile', 'diagonal']), context),
+    anchor: read(source, 'anchor', defaults.anchor, oneOf<WatermarkAnchor>([
+      'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right',
+    ]), context),
+    margin: read(source, 'margin', defaults.margin, isNumber, context),
+    spacing: read(source, 'spacing', defaults.spacing, isNumber, context),
+    pages: read(source, 'pages', defaults.pages, isString, context),
+    layer: read(source, 'layer', defaults.layer, oneOf(['over', 'under'] as const), context),
+    user: read(source, 'user', defaults.user, isString, context),
+  };
+};
+
+const readSlots = (source: JsonObject, defaults: HeaderFooterSlots, context: string): HeaderFooterSlots => ({
+  left: read(source, 'left', defaults.left, isString, context),
+  center: read(source, 'center', defaults.center, isString, context),
+  right: read(source, 'right', defaults.right, isString, context),
+});
+
+const readPageNumbers = (source: JsonObject, defaults: PageNumberConfig): PageNumberConfig => {
+  const context = 'page-numbering step';
+  const bates = readObject(source, 'bates', context);
+  return {
+    header: readSlots(readObject(source, 'header', context), defaults.header, `${context} header`),
+    footer: readSlots(readObject(source, 'footer', context), defaults.footer, `${context} footer`),
+    fontSize: read(source, 'fontSize', defaults.fontSize, isNumber, context),
+    color: read(source, 'color', defaults.color, isString, context),
+    font: read(source, 'font', defaults.font, oneOf<StampFont>(['helvetica', 'times', 'courier', 'custom']), context),
+    customFont: read(source, 'customFont', defaults.customFont, orNull(isEmbeddedFont), context),
+    margin: read(source, 'margin', defaults.margin, isNumber, context),
+    numberStyle: read(source, 'numberStyle', defaults.numberStyle, oneOf<PageNumberStyle>(['arabic', 'roman-lower', 'roman-upper']), context),
+    skipFirst: read(source, 'skipFirst', defaults.skipFirst, isNumber, context),
+    mirrorEven: read(source, 'mirrorEven', defaults.mirrorEven, isBoolean, context),
+    bates: {
+      prefix: read(bates, 'prefix', defaults.bates.prefix, isString, `${context} Bates`),
+      digits: read(bates, 'digits', defaults.bates.digits, isNumber, `${context} Bates`),
+      suffix: read(bates, 'suffix', defaults.bates.suffix, isString, `${context} Bates`),
+      start: read(bates, 'start', defaults.bates.start, isNumber, `${context} Bates`),
+    },
+  };
+};
+
+/** Builds a step from an imported entry, taking only the fields its op defines. */
+const readStep = (entry: unknown): PipelineStep => {
+  if (!isObject(entry) || !oneOf(PIPELINE_OPS)(entry.op)) {
+    throw new Error(`Unknown pipeline step "${isObject(entry) ? String(entry.op) : entry}".`);
+  }
+  const step = createPipelineStep(entry.op);
+  const context = `${step.op} step`;
+  switch (step.op) {
+    case 'rotate': return {
+      ...step,
+      rotation: read(entry, 'rotation', step.rotation, isQuarterTurn, context),
+      ranges: read(entry, 'ranges', step.ranges, isString, context),
+    };
+    case 'watermark': return { ...step, config: readWatermark(readObject(entry, 'config', context), step.config) };
+    case 'page-numbering': return { ...step, config: readPageNumbers(readObject(entry, 'config', context), step.config) };
+    case 'extract': return { ...step, ranges: read(entry, 'ranges', step.ranges, isString, context) };
+    case 'merge': return step;
+  }
+};
+
+export const parsePipeline = (json: string): { name: string; steps: PipelineStep[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Pipeline file is not valid JSON.');
+  }
+  if (!isObject(raw) || raw.version !== 1 || !Array.isArray(raw.steps)) throw new Error('Unsupported pipeline file.');
+
+  const steps = raw.steps.map(readStep);
+  return { name: isString(raw.name) ? raw.name : 'Untitled pipeline', steps };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDict, PDFDocument, PDFName, PDFNumber, StandardFonts } from 'pdf-lib';
+import { isPdfEncrypted, decryptPDF, encryptPDF } from './securityCore';
+import type { EncryptionConfig } from '../types';
+
+const createFixture = async (pageCount: number): Promise<ArrayBuffer> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage([300, 400]).drawText(`Fixture page ${i + 1}`, { x: 40, y: 340, size: 14, font });
+  }
+  pdfDoc.setTitle('Security fixture');
+  const bytes = await pdfDoc.save();
+  return bytes.slice().buffer;
+};
+
+const config = (overrides: Partial<EncryptionConfig>): EncryptionConfig => ({
+  userPassword: '',
+  ownerPassword: '',
+  algorithm: 'AES-256',
+  permissions: { print: true, copy: false, modify: false },
+  ...overrides,
+});
+
+const toBuffer = (bytes: Uint8Array) => bytes.slice().buffer;
+
+const toBlob = (bytes: ArrayBuffer) => new Blob([bytes], { type: 'application/pdf' });
+
+describe('securityCore', () => {
+  it('reports a plain file as not encrypted', async () => {
+    expect(await isPdfEncrypted(toBlob(await createFixture(1)))).toBe(false);
+  });
+
+  it('fails instead of waiting when the file cannot be read', async () => {
+    class UnreadableBlob extends Blob {
+      slice(): Blob {
+        return { arrayBuffer: () => Promise.reject(new Error('File was removed.')) } as Blob;
+      }
+    }
+    const file = new UnreadableBlob([await createFixture(1)]);
+    await expect(isPdfEncrypted(file)).rejects.toThrow('File was removed.');
+  });
+
+  it('encrypts with a user password and decrypts back to a plain working copy', async () => {
+    const encrypted = toBuffer(await encryptPDF(await createFixture(3), config({ userPassword: 'open-sesame', ownerPassword: 'owner' })));
+    expect(await isPdfEncrypted(toBlob(encrypted))).toBe(true);
+
+    const decrypted = toBuffer(await decryptPDF(encrypted, 'open-sesame'));
+    expect(await isPdfEncrypted(toBlob(decrypted))).toBe(false);
+    const pdfDoc = await PDFDocument.load(decrypted);
+    expect(pdfDoc.getPageCount()).toBe(3);
+    expect(pdfDoc.getTitle()).toBe('Security fixture');
+  });
+
+  it('also opens with the owner password', async () => {
+    const encrypted = toBuffer(await encryptPDF(await createFixture(1), config({ userPassword: 'user', ownerPassword: 'owner' })));
+    const pdfDoc = await PDFDocument.load(await decryptPDF(encrypted, 'owner'));
+    expect(pdfDoc.getPageCount()).toBe(1);
+  });
+
+  it('rejects a wrong password', async () => {
+    const encrypted = toBuffer(await encryptPDF(await createFixture(1), config({ userPassword: 'right' })));
+    await expect(decryptPDF(encrypted, 'wrong')).rejects.toThrow('Incorrect password.');
+  });
+
+  it('opens an owner-only file with an empty password', async () => {
+    const encrypted = toBuffer(await encryptPDF(await createFixture(2), config({ ownerPassword: 'owner' })));
+    expect(await isPdfEncrypted(toBlob(encrypted))).toBe(true);
+    const pdfDoc = await PDFDocument.load(await decryptPDF(encrypted, ''));
+    expect(pdfDoc.getPageCount()).toBe(2);
+  });
+
+  it('writes the chosen permission flags', async () => {
+    const encrypted = await encryptPDF(await createFixture(1), config({ userPassword: 'user', ownerPassword: 'owner', algorithm: 'AES-128' }));
+    const pdfDoc = await PDFDocument.load(encrypted, { ignoreEncryption: true });
+    const handler = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Encrypt, PDFDict);
+    const flags = handler.lookup(PDFName.of('P'), PDFNumber).asNumber();
+    // Bit 3 allows printing, bit 4 modifying and bit 5 copying
+    expect(flags & (1 << 2)).not.toBe(0);
+    expect(flags & (1 << 3)).toBe(0);
+    expect(flags & (1 << 4)).toBe(0);
+  });
+
+  it('refuses to encrypt without any password', async () => {
+    await expect(encryptPDF(await createFixture(1), config({}))).rejects.toThrow('Set a user or owner password.');
+  });
+});
@@ -0,0 +1,109 @@
+import { PDFDocument as SecurePDFDocument, PDFDict, PDFInvalidObject, PDFName, PDFRef, PDFStream } from '@cantoo/pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { EncryptionConfig } from '../types';
+import { openPdfJsRange } from './pdfCore';
+
+// pdf-lib 1.x cannot read or write encrypted files. The @cantoo fork can, so it is used
+// only here: documents are decrypted into a plain working copy on the way in and
+// encrypted as the very last step on the way out. Everything in between stays on pdf-lib.
+
+const latin1 = new TextDecoder('latin1');
+
+/** Source text of an object the fork could not parse, such as an encrypted cross-reference stream. */
+const invalidObjectText = (obj: PDFInvalidObject) => {
+  const data = new Uint8Array(obj.sizeInBytes());
+  obj.copyBytesInto(data, 0);
+  return latin1.decode(data);
+};
+
+/**
+ * Checked on every upload, so it reads through pdf.js in ranges: only the trailer and the
+ * cross-reference data are fetched instead of the whole file.
+ */
+export const isPdfEncrypted = async (file: Blob): Promise<boolean> => {
+  let pdf: PDFDocumentProxy | undefined;
+  try {
+    pdf = await openPdfJsRange(file);
+    const { info } = await pdf.getMetadata();
+    return !!(info as { EncryptFilterName?: string | null }).EncryptFilterName;
+  } catch (err) {
+    // Files with a user password do not open at all
+    if (err instanceof Error && err.name === 'PasswordException') return true;
+    throw err;
+  } finally {
+    await pdf?.destroy();
+  }
+};
+
+/**
+ * Drops the security handler dictionary and any leftover cross-reference streams. The fork
+ * removes /Encrypt from the trailer, but an xref stream copied over as an object still names it,
+ * and readers would then treat the saved working copy as encrypted again.
+ */
+const stripSecurityObjects = (pdfDoc: SecurePDFDocument) => {
+  const context = pdfDoc.context;
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    const dict = obj instanceof PDFStream ? obj.dict : obj instanceof PDFDict ? obj : null;
+    const isXRef = dict
+      ? dict.get(PDFName.of('Type')) === PDFName.of('XRef')
+      : obj instanceof PDFInvalidObject && /\/Type\s*\/XRef/.test(invalidObjectText(obj));
+    const isSecurityHandler = !!dict && dict.get(PDFName.of('Filter')) === PDFName.of('Standard');
+    if (isXRef || isSecurityHandler) context.delete(ref);
+  }
+};
+
+/**
+ * The fork reads an encrypted cross-reference stream as an opaque object, so its /Info entry
+ * never reaches the trailer and the document properties would be dropped from the working copy.
+ */
+const recoverInfoReference = (pdfDoc: SecurePDFDocument) => {
+  const context = pdfDoc.context;
+  if (context.trailerInfo.Info) return;
+  for (const [, obj] of context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFInvalidObject)) continue;
+    const text = invalidObjectText(obj);
+    const info = /\/Type\s*\/XRef/.test(text) && text.match(/\/Info\s+(\d+)\s+(\d+)\s+R/);
+    if (info) {
+      context.trailerInfo.Info = PDFRef.of(Number(info[1]), Number(info[2]));
+      return;
+    }
+  }
+};
+
+/**
+ * Decrypts with the user or owner password. An empty password opens files that only carry
+ * an owner password (permission restrictions without an open password).
+ */
+export const decryptPDF = async (bytes: ArrayBuffer, password: string): Promise<Uint8Array> => {
+  let pdfDoc: SecurePDFDocument;
+  try {
+    pdfDoc = await SecurePDFDocument.load(bytes, { password, updateMetadata: false });
+  } catch (err) {
+    if (err instanceof Error && /password/i.test(err.message)) throw new Error('Incorrect password.');
+    throw err;
+  }
+  recoverInfoReference(pdfDoc);
+  stripSecurityObjects(pdfDoc);
+  return await pdfDoc.save();
+};
+
+export const encryptPDF = async (bytes: ArrayBuffer, config: EncryptionConfig): Promise<Uint8Array> => {
+  if (!config.userPassword && !config.ownerPassword) throw new Error('Set a user or owner password.');
+  const pdfDoc = await SecurePDFDocument.load(bytes);
+  pdfDoc.encrypt({
+    userPassword: config.userPassword,
+    // Without an owner password anyone holding the user password could lift the restrictions
+    ownerPassword: config.ownerPassword || config.userPassword,
+    algorithm: config.algorithm,
+    permissions: {
+      printing: config.permissions.print ? 'highResolution' : false,
+      copying: config.permissions.copy,
+      contentAccessibility: config.permissions.copy,
+      modifying: config.permissions.modify,
+      annotating: config.permissions.modify,
+      fillingForms: config.permissions.modify,
+      documentAssembly: config.permissions.modify,
+    },
+  });
+  return await pdfDoc.save();
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { persistableVersions } from './sessionStore';
+import type { DocumentHistory, DocumentVersion } from '../types';
+
+const version = (label: string, removesContent = false): DocumentVersion => ({
+  id: label,
+  label,
+  file: new File([label], `${label}.pdf`, { type: 'application/pdf' }),
+  size: label.length,
+  pageCount: 1,
+  createdAt: 0,
+  removesContent,
+});
+
+const labels = (history: DocumentHistory) => persistableVersions(history).map(v => v.label);
+
+describe('persistableVersions', () => {
+  it('keeps every version of an ordinary history', () => {
+    const versions = [version('Original'), version('Rotated'), version('Watermark')];
+    expect(labels({ versions, index: 2 })).toEqual(['Original', 'Rotated', 'Watermark']);
+  });
+
+  it('never saves the versions before a redaction', () => {
+    const versions = [version('Original'), version('Rotated'), version('Redacted', true), version('Page numbers')];
+    expect(labels({ versions, index: 3 })).toEqual(['Redacted', 'Page numbers']);
+  });
+
+  it('cuts at the latest removal when there are several', () => {
+    const versions = [version('Original'), version('Redacted', true), version('Watermark'), version('Sanitized', true)];
+    expect(labels({ versions, index: 1 })).toEqual(['Sanitized']);
+  });
+});
@@ -0,0 +1,269 @@
+import type {
+  AppTool, CompressionPreset, DateStampFormat, DocumentHistory, DocumentVersion, EncryptionConfig, MergeOptions, PageNumberConfig,
+  PDFFile, PipelineStep, SplitConfig, TextExtractionMode, WatermarkConfig
+} from '../types';
+import type { ImageToPdfLayout } from './pdfCore';
+import { createId } from '../utils/ids';
+
+// The workbench is saved to IndexedDB so a reload can pick up where it left off. Files and versions
+// go into a blob store keyed by id, written once and shared between the workspace entry and its
+// history; everything else is a single small record that is rewritten on every save.
+
+const DB_NAME = 'pdf-tools';
+const DB_VERSION = 1;
+const BLOB_STORE = 'blobs';
+const STATE_STORE = 'state';
+const SESSION_KEY = 'session';
+
+/** localStorage keys of this app share this prefix, so wiping can find them all. */
+const LOCAL_STORAGE_PREFIX = 'pdf-tools.';
+const PREFERENCES_KEY = `${LOCAL_STORAGE_PREFIX}storage`;
+
+export interface StoragePreferences {
+  /** Save the session at all. Wiping turns this off until the user opts in again. */
+  enabled: boolean;
+  quotaMb: number;
+}
+
+const DEFAULT_PREFERENCES: StoragePreferences = { enabled: true, quotaMb: 500 };
+
+export interface SessionSettings {
+  activeTool: AppTool;
+  splitRanges: string;
+  splitConfig: SplitConfig;
+  mergeOptions: MergeOptions;
+  imageFormat: 'png' | 'jpeg';
+  imagePdfLayout: ImageToPdfLayout;
+  textExtractionMode: TextExtractionMode;
+  watermarkConfig: WatermarkConfig;
+  pageNumberConfig: PageNumberConfig;
+  compressionPreset: CompressionPreset;
+  dateStampFormat: DateStampFormat;
+  /** Passwords are never stored. */
+  encryption: Omit<EncryptionConfig, 'userPassword' | 'ownerPassword'>;
+  pipelineName: string;
+  pipelineSteps: PipelineStep[];
+}
+
+export interface SessionSnapshot {
+  files: PDFFile[];
+  histories: Record<string, DocumentHistory>;
+  extractedTexts: Record<string, string>;
+  settings: SessionSettings;
+}
+
+export interface StoredSession extends SessionSnapshot {
+  savedAt: number;
+}
+
+export interface SaveReport {
+  storedBytes: number;
+  /** Versions and files left out because they did not fit the quota. */
+  evictedVersions: number;
+  evictedFiles: number;
+}
+
+type StoredFile = Omit<PDFFile, 'file' | 'previewUrl'> & { blobId: string };
+type StoredVersion = Omit<DocumentVersion, 'file'> & { blobId: string };
+
+interface SessionRecord {
+  savedAt: number;
+  files: StoredFile[];
+  histories: Record<string, { index: number; versions: StoredVersion[] }>;
+  extractedTexts: Record<string, string>;
+  settings: SessionSettings;
+}
+
+// A File keeps its id for as long as it lives, so unchanged files are never written twice
+const blobIds = new WeakMap<Blob, string>();
+
+const blobIdOf = (blob: Blob) => {
+  let id = blobIds.get(blob);
+  if (!id) {
+    id = createId();
+    blobIds.set(blob, id);
+  }
+  return id;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction aborted.'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(BLOB_STORE);
+        req.result.createObjectStore(STATE_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+export const loadPreferences = (): StoragePreferences => {
+  try {
+    return { ...DEFAULT_PREFERENCES, ...JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: StoragePreferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage blocked; the preferences apply for this session only
+  }
+};
+
+/**
+ * Versions that may be written to disk. Nothing before the latest redaction or sanitize is saved,
+ * since those versions still hold the content the user removed.
+ */
+export const persistableVersions = (history: DocumentHistory): DocumentVersion[] => {
+  const latestRemoval = history.versions.findLastIndex(v => v.removesContent);
+  return latestRemoval === -1 ? history.versions : history.versions.slice(latestRemoval);
+};
+
+/**
+ * Picks what fits the quota: workspace files first, in workspace order, then earlier versions from the
+ * newest back. The oldest versions are the first to be evicted, then the files added last.
+ */
+const fitToQuota = (snapshot: SessionSnapshot, quotaBytes: number) => {
+  const kept = new Map<string, Blob>();
+  let storedBytes = 0;
+  const keep = (blob: Blob) => {
+    const id = blobIdOf(blob);
+    if (kept.has(id)) return true;
+    if (storedBytes + blob.size > quotaBytes) return false;
+    kept.set(id, blob);
+    storedBytes += blob.size;
+    return true;
+  };
+
+  const files = snapshot.files.filter(f => keep(f.file));
+  const versions = files.flatMap(f => {
+    const history = snapshot.histories[f.id];
+    return history ? persistableVersions(history) : [];
+  }).sort((a, b) => b.createdAt - a.createdAt);
+  const keptVersions = new Set(versions.filter(v => keep(v.file)));
+  return {
+    kept,
+    storedBytes,
+    files,
+    keptVersions,
+    evictedFiles: snapshot.files.length - files.length,
+    evictedVersions: versions.length - keptVersions.size,
+  };
+};
+
+export const saveSession = async (snapshot: SessionSnapshot, quotaMb: number): Promise<SaveReport> => {
+  const { kept, storedBytes, files, keptVersions, evictedFiles, evictedVersions } = fitToQuota(snapshot, quotaMb * 1024 * 1024);
+
+  const histories: SessionRecord['histories'] = {};
+  files.forEach(f => {
+    const history = snapshot.histories[f.id];
+    if (!history) return;
+    const current = history.versions[history.index];
+    const versions = persistableVersions(history).filter(v => keptVersions.has(v));
+    // The shown version always fits since it is the workspace file itself, unless it is one that
+    // precedes a redaction and only the file is saved
+    if (versions.length > 1 && versions.includes(current)) histories[f.id] = { index: versions.indexOf(current), versions: versions.map(({ file, ...v }) => ({ ...v, blobId: blobIdOf(file) })) };
+  });
+  const record: SessionRecord = {
+    savedAt: Date.now(),
+    files: files.map(({ file, previewUrl, ...f }) => ({ ...f, blobId: blobIdOf(file) })),
+    histories,
+    extractedTexts: Object.fromEntries(Object.entries(snapshot.extractedTexts).filter(([id]) => files.some(f => f.id === id))),
+    settings: snapshot.settings,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([BLOB_STORE, STATE_STORE], 'readwrite');
+  const blobs = tx.objectStore(BLOB_STORE);
+  const stored = new Set((await request(blobs.getAllKeys())).map(String));
+  stored.forEach(id => { if (!kept.has(id)) blobs.delete(id); });
+  kept.forEach((blob, id) => { if (!stored.has(id)) blobs.put(blob, id); });
+  tx.objectStore(STATE_STORE).put(record, SESSION_KEY);
+  await done(tx);
+  return { storedBytes, evictedFiles, evictedVersions };
+};
+
+/** Reads the saved session back; entries whose data went missing are dropped. */
+export const loadSession = async (): Promise<StoredSession | null> => {
+  const db = await openDb();
+  const tx = db.transaction([BLOB_STORE, STATE_STORE], 'readonly');
+  const record = await request(tx.objectStore(STATE_STORE).get(SESSION_KEY)) as SessionRecord | undefined;
+  if (!record) return null;
+  const blobStore = tx.objectStore(BLOB_STORE);
+  const ids = new Set([
+    ...record.files.map(f => f.blobId),
+    ...Object.values(record.histories).flatMap(h => h.versions.map(v => v.blobId)),
+  ]);
+  const blobs = new Map<string, File>();
+  for (const id of ids) {
+    const blob = await request(blobStore.get(id)) as File | undefined;
+    if (!blob) continue;
+    blobIds.set(blob, id);
+    blobs.set(id, blob);
+  }
+
+  const files: PDFFile[] = record.files
+    .filter(f => blobs.has(f.blobId))
+    .map(({ blobId, ...f }) => ({ ...f, file: blobs.get(blobId)! }));
+  const histories: Record<string, DocumentHistory> = {};
+  files.forEach(f => {
+    const stored = record.histories[f.id];
+    if (!stored || !stored.versions.every(v => blobs.has(v.blobId))) return;
+    histories[f.id] = { index: stored.index, versions: stored.versions.map(({ blobId, ...v }) => ({ ...v, file: blobs.get(blobId)! })) };
+  });
+  return { savedAt: record.savedAt, files, histories, extractedTexts: record.extractedTexts, settings: record.settings };
+};
+
+export const discardSession = async () => {
+  const db = await openDb();
+  const tx = db.transaction([BLOB_STORE, STATE_STORE], 'readwrite');
+  tx.objectStore(BLOB_STORE).clear();
+  tx.objectStore(STATE_STORE).clear();
+  await done(tx);
+};
+
+/** Deletes the database and every localStorage entry of this app, including saved signatures. */
+export const wipeLocalData = async () => {
+  if (dbPromise) {
+    const db = await dbPromise.catch(() => null);
+    db?.close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    // Another tab still has the database open; it is deleted once that tab closes
+    req.onblocked = () => resolve();
+  });
+  try {
+    Object.keys(localStorage).filter(key => key.startsWith(LOCAL_STORAGE_PREFIX)).forEach(key => localStorage.removeItem(key));
+  } catch {
+    // Storage blocked, so there is nothing to remove
+  }
+};
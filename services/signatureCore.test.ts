@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { describeCertificate, signPDFDigitally, verifyPDFSignatures } from './signatureCore';
+
+const PASSWORD = 'test-password';
+
+const OID = {
+  commonName: '2.5.4.3',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+};
+
+const latin1 = new TextDecoder('latin1');
+
+const toLatin1Bytes = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+
+const toBuffer = (bytes: Uint8Array) => bytes.slice().buffer;
+
+/** A self-signed RSA certificate in a PBES2 (AES) protected PKCS#12 file, as current tools export it. */
+const createP12 = async (commonName: string): Promise<ArrayBuffer> => {
+  const keys = await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  const certificate = new pkijs.Certificate();
+  certificate.version = 2;
+  certificate.serialNumber = new asn1js.Integer({ value: Date.now() });
+  for (const name of [certificate.issuer, certificate.subject]) {
+    name.typesAndValues.push(new pkijs.AttributeTypeAndValue({ type: OID.commonName, value: new asn1js.Utf8String({ value: commonName }) }));
+  }
+  certificate.notBefore.value = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  certificate.notAfter.value = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  await certificate.subjectPublicKeyInfo.importKey(keys.publicKey);
+  await certificate.sign(keys.privateKey, 'SHA-256');
+
+  const password = new TextEncoder().encode(PASSWORD).buffer as ArrayBuffer;
+  const keyBag = new pkijs.PKCS8ShroudedKeyBag({ parsedValue: pkijs.PrivateKeyInfo.fromBER(await crypto.subtle.exportKey('pkcs8', keys.privateKey)) });
+  await keyBag.makeInternalValues({ password, contentEncryptionAlgorithm: { name: 'AES-CBC', length: 256, iv: crypto.getRandomValues(new Uint8Array(16)) }, hmacHashAlgorithm: 'SHA-256', iterationCount: 2048 });
+  const pfx = new pkijs.PFX({
+    parsedValue: {
+      integrityMode: 0,
+      authenticatedSafe: new pkijs.AuthenticatedSafe({
+        parsedValue: {
+          safeContents: [{
+            privacyMode: 0,
+            value: new pkijs.SafeContents({
+              safeBags: [
+                new pkijs.SafeBag({ bagId: OID.shroudedKeyBag, bagValue: keyBag }),
+                new pkijs.SafeBag({ bagId: OID.certBag, bagValue: new pkijs.CertBag({ parsedValue: certificate }) }),
+              ],
+            }),
+          }],
+        },
+      }),
+    },
+  });
+  await pfx.parsedValue!.authenticatedSafe!.makeInternalValues({ safeContents: [{}] });
+  await pfx.makeInternalValues({ password, iterations: 2048, pbkdf2HashAlgorithm: 'SHA-256', hmacHashAlgorithm: 'SHA-256' });
+  return pfx.toSchema().toBER(false);
+};
+
+const createFixture = async (): Promise<ArrayBuffer> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([300, 400]).drawText('Signed fixture', { x: 40, y: 340, size: 14, font });
+  // Plain objects keep the page dictionary readable, so the tests can find bytes to tamper with
+  return toBuffer(await pdfDoc.save({ useObjectStreams: false }));
+};
+
+const replaceOnce = (bytes: Uint8Array, search: string, replacement: string) => {
+  const at = latin1.decode(bytes).indexOf(search);
+  if (at === -1 || search.length !== replacement.length) throw new Error(`Cannot replace "${search}"`);
+  const out = bytes.slice();
+  out.set(toLatin1Bytes(replacement), at);
+  return out;
+};
+
+describe('signatureCore', () => {
+  let alice: ArrayBuffer;
+  let bob: ArrayBuffer;
+  let signed: Uint8Array;
+
+  beforeAll(async () => {
+    alice = await createP12('Alice Example');
+    bob = await createP12('Bob Example');
+    signed = await signPDFDigitally(await createFixture(), alice.slice(0), PASSWORD, { reason: 'Approved', location: 'Test' });
+  });
+
+  it('reads the certificate from a PKCS#12 file', async () => {
+    const info = await describeCertificate(alice.slice(0), PASSWORD);
+    expect(info.subject).toBe('CN=Alice Example');
+    expect(info.selfSigned).toBe(true);
+    await expect(describeCertificate(alice.slice(0), 'wrong')).rejects.toThrow('Incorrect certificate password.');
+  });
+
+  it('verifies a freshly signed document', async () => {
+    const [result, ...rest] = await verifyPDFSignatures(toBuffer(signed));
+    expect(rest).toHaveLength(0);
+    expect(result.error).toBeUndefined();
+    expect(result.intact).toBe(true);
+    expect(result.coversWholeDocument).toBe(true);
+    expect(result.certificateValid).toBe(true);
+    expect(result.signer?.subject).toBe('CN=Alice Example');
+    expect(result.reason).toBe('Approved');
+  });
+
+  it('detects changed bytes inside the signed ranges', async () => {
+    const tampered = replaceOnce(signed, '/MediaBox [ 0 0 300 400 ]', '/MediaBox [ 0 0 300 401 ]');
+    const [result] = await verifyPDFSignatures(toBuffer(tampered));
+    expect(result.intact).toBe(false);
+  });
+
+  it('reports content appended after signing as not covered', async () => {
+    const appended = new Uint8Array([...signed, ...toLatin1Bytes('\n% appended\n')]);
+    const [result] = await verifyPDFSignatures(toBuffer(appended));
+    expect(result.intact).toBe(true);
+    expect(result.coversWholeDocument).toBe(false);
+  });
+
+  it('rejects content hidden in the unsigned gap', async () => {
+    // Shortens the /Contents string and opens a second string in its zero padding; the signed
+    // bytes and the CMS blob stay the same, so only the gap check can catch it
+    const text = latin1.decode(signed);
+    const padding = text.lastIndexOf('0'.repeat(64));
+    const forged = signed.slice();
+    forged.set(toLatin1Bytes('> /Injected <'), padding);
+    expect(latin1.decode(forged).indexOf('/Injected')).toBeGreaterThan(text.indexOf('/Contents <'));
+
+    const [result] = await verifyPDFSignatures(toBuffer(forged));
+    expect(result.intact).toBe(false);
+    expect(result.error).toBe('The signature byte range leaves out more than the signature itself');
+  });
+
+  it('keeps the first signature valid when a second one is added', async () => {
+    const countersigned = await signPDFDigitally(toBuffer(signed), bob.slice(0), PASSWORD, { reason: '', location: '' });
+    expect(latin1.decode(countersigned.subarray(0, signed.length))).toBe(latin1.decode(signed));
+
+    const results = await verifyPDFSignatures(toBuffer(countersigned));
+    expect(results.map(r => r.fieldName)).toEqual(['Signature1', 'Signature2']);
+    const [first, second] = results;
+    expect(first.intact).toBe(true);
+    expect(first.coversWholeDocument).toBe(false);
+    expect(first.signer?.subject).toBe('CN=Alice Example');
+    expect(second.intact).toBe(true);
+    expect(second.coversWholeDocument).toBe(true);
+    expect(second.signer?.subject).toBe('CN=Bob Example');
+  });
+});
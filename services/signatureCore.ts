@@ -0,0 +1,400 @@
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFObject, PDFRef, PDFSignature, PDFString } from 'pdf-lib';
+import type { CertificateInfo, DigitalSignatureDetails, SignatureVerification } from '../types';
+
+// PAdES signatures (ETSI.CAdES.detached): a CMS SignedData over the whole file except the
+// /Contents hole that holds it. Signing appends an incremental update instead of re-saving, so
+// signatures already in the file keep covering exactly the bytes they signed. All crypto is WebCrypto,
+// through pkijs.
+
+/** Space reserved for the CMS blob; written as hex, so the placeholder is twice this long. */
+const SIGNATURE_SIZE = 16384;
+
+const BYTE_RANGE_PLACEHOLDER = `[0 ${'9'.repeat(10)} ${'9'.repeat(10)} ${'9'.repeat(10)}]`;
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  rsa: '1.2.840.113549.1.1.1',
+  ec: '1.2.840.10045.2.1',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+};
+
+const CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.6': 'C',
+  '1.2.840.113549.1.9.1': 'E',
+};
+
+const latin1 = new TextDecoder('latin1');
+
+const toLatin1Bytes = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const formatName = (name: pkijs.RelativeDistinguishedNames) =>
+  name.typesAndValues.map(tv => `${NAME_ATTRIBUTES[tv.type] ?? tv.type}=${tv.value.valueBlock.value}`).join(', ');
+
+const commonName = (name: pkijs.RelativeDistinguishedNames) =>
+  name.typesAndValues.find(tv => tv.type === '2.5.4.3')?.value.valueBlock.value ?? formatName(name);
+
+const describe = (certificate: pkijs.Certificate): CertificateInfo => ({
+  subject: formatName(certificate.subject),
+  issuer: formatName(certificate.issuer),
+  serialNumber: toHex(certificate.serialNumber.valueBlock.valueHexView),
+  validFrom: certificate.notBefore.value.getTime(),
+  validTo: certificate.notAfter.value.getTime(),
+  selfSigned: certificate.subject.isEqual(certificate.issuer),
+});
+
+interface Credentials {
+  key: CryptoKey;
+  certificate: pkijs.Certificate;
+  chain: pkijs.Certificate[];
+}
+
+const importPrivateKey = async (keyInfo: pkijs.PrivateKeyInfo): Promise<CryptoKey> => {
+  const { algorithmId, algorithmParams } = keyInfo.privateKeyAlgorithm;
+  let algorithm: RsaHashedImportParams | EcKeyImportParams;
+  if (algorithmId === OID.rsa) {
+    algorithm = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+  } else if (algorithmId === OID.ec && algorithmParams instanceof asn1js.ObjectIdentifier && CURVES[algorithmParams.valueBlock.toString()]) {
+    algorithm = { name: 'ECDSA', namedCurve: CURVES[algorithmParams.valueBlock.toString()] };
+  } else {
+    throw new Error('Only RSA and ECDSA (P-256, P-384, P-521) keys are supported.');
+  }
+  return await crypto.subtle.importKey('pkcs8', keyInfo.toSchema().toBER(false), algorithm, false, ['sign']);
+};
+
+/**
+ * Opens a .p12/.pfx with its password and returns the private key, the certificate that belongs to it
+ * and any chain certificates. Only PBES2 (AES) protected files can be read; WebCrypto has no 3DES or RC2.
+ */
+const readPkcs12 = async (p12: ArrayBuffer, password: string): Promise<Credentials> => {
+  const passwordBytes = new TextEncoder().encode(password).buffer as ArrayBuffer;
+  let pfx: pkijs.PFX;
+  try {
+    pfx = pkijs.PFX.fromBER(p12);
+  } catch {
+    throw new Error('This is not a PKCS#12 (.p12 or .pfx) certificate file.');
+  }
+  try {
+    await pfx.parseInternalValues({ password: passwordBytes, checkIntegrity: true });
+  } catch {
+    throw new Error('Incorrect certificate password.');
+  }
+  const safe = pfx.parsedValue!.authenticatedSafe!;
+  try {
+    await safe.parseInternalValues({ safeContents: safe.safeContents.map(() => ({ password: passwordBytes })) });
+  } catch {
+    throw new Error('This certificate file uses legacy encryption (3DES or RC2). Re-export it with AES encryption.');
+  }
+
+  let keyInfo: pkijs.PrivateKeyInfo | null = null;
+  const certificates: pkijs.Certificate[] = [];
+  for (const { value } of safe.parsedValue!.safeContents) {
+    for (const bag of value.safeBags) {
+      if (bag.bagId === OID.shroudedKeyBag) {
+        const shrouded = bag.bagValue as pkijs.PKCS8ShroudedKeyBag;
+        const encrypted = new pkijs.EncryptedData({
+          encryptedContentInfo: new pkijs.EncryptedContentInfo({ contentEncryptionAlgorithm: shrouded.encryptionAlgorithm, encryptedContent: shrouded.encryptedData }),
+        });
+        keyInfo = pkijs.PrivateKeyInfo.fromBER(await encrypted.decrypt({ password: passwordBytes }));
+      } else if (bag.bagId === OID.keyBag) {
+        keyInfo = bag.bagValue as pkijs.PrivateKeyInfo;
+      } else if (bag.bagId === OID.certBag) {
+        const parsed = (bag.bagValue as pkijs.CertBag).parsedValue;
+        if (parsed instanceof pkijs.Certificate) certificates.push(parsed);
+      }
+    }
+  }
+  if (!keyInfo) throw new Error('The certificate file contains no private key.');
+  // The signer's certificate is the one that did not issue any of the others
+  const certificate = certificates.find(c => !certificates.some(other => other !== c && other.issuer.isEqual(c.subject))) ?? certificates[0];
+  if (!certificate) throw new Error('The certificate file contains no certificate.');
+  return { key: await importPrivateKey(keyInfo), certificate, chain: certificates };
+};
+
+export const describeCertificate = async (p12: ArrayBuffer, password: string): Promise<CertificateInfo> => {
+  return describe((await readPkcs12(p12, password)).certificate);
+};
+
+/**
+ * Detached CMS SignedData with the attributes PAdES baseline B requires: content type, message digest
+ * and the ESS signing-certificate-v2 reference. The signing time lives in the signature dictionary (/M).
+ */
+const createCms = async ({ key, certificate, chain }: Credentials, signedBytes: ArrayBuffer): Promise<Uint8Array> => {
+  const digest = await crypto.subtle.digest('SHA-256', signedBytes);
+  const certHash = await crypto.subtle.digest('SHA-256', certificate.toSchema().toBER(false));
+  const signingCertificateV2 = new asn1js.Sequence({
+    value: [new asn1js.Sequence({ value: [new asn1js.Sequence({ value: [new asn1js.OctetString({ valueHex: certHash })] })] })],
+  });
+  const signedData = new pkijs.SignedData({
+    version: 1,
+    encapContentInfo: new pkijs.EncapsulatedContentInfo({ eContentType: OID.data }),
+    certificates: chain,
+    signerInfos: [new pkijs.SignerInfo({
+      version: 1,
+      sid: new pkijs.IssuerAndSerialNumber({ issuer: certificate.issuer, serialNumber: certificate.serialNumber }),
+      signedAttrs: new pkijs.SignedAndUnsignedAttributes({
+        type: 0,
+        attributes: [
+          new pkijs.Attribute({ type: OID.contentType, values: [new asn1js.ObjectIdentifier({ value: OID.data })] }),
+          new pkijs.Attribute({ type: OID.messageDigest, values: [new asn1js.OctetString({ valueHex: digest })] }),
+          new pkijs.Attribute({ type: OID.signingCertificateV2, values: [signingCertificateV2] }),
+        ],
+      }),
+    })],
+  });
+  await signedData.sign(key, 0, 'SHA-256');
+  const contentInfo = new pkijs.ContentInfo({ contentType: OID.signedData, content: signedData.toSchema(true) });
+  return new Uint8Array(contentInfo.toSchema().toBER(false));
+};
+
+const fieldNameOf = (field: PDFObject | undefined) => {
+  const name = field instanceof PDFDict ? field.lookup(PDFName.of('T')) : undefined;
+  return name instanceof PDFString || name instanceof PDFHexString ? name.decodeText() : null;
+};
+
+/**
+ * Signs with an invisible signature field on the first page, written as an incremental update:
+ * the original bytes are kept as they are, followed by the new and changed objects, a cross-reference
+ * section for them and a trailer that points back to the previous one.
+ */
+export const signPDFDigitally = async (
+  bytes: ArrayBuffer,
+  p12: ArrayBuffer,
+  password: string,
+  details: DigitalSignatureDetails
+): Promise<Uint8Array> => {
+  const credentials = await readPkcs12(p12, password);
+  const original = new Uint8Array(bytes.slice(0));
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  if (pdfDoc.isEncrypted) throw new Error('Remove the password protection before signing.');
+  const context = pdfDoc.context;
+  const root = context.trailerInfo.Root as PDFRef;
+
+  const tail = latin1.decode(original.subarray(Math.max(0, original.length - 1024)));
+  const previousXref = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(tail);
+  if (!previousXref) throw new Error('The cross-reference table of this PDF could not be found.');
+  // pdf-lib drops cross-reference and object streams while parsing, so their numbers look free.
+  // New objects must start above every number the existing revisions declare.
+  const sizes = Array.from(latin1.decode(original).matchAll(/\/Size\s+(\d+)/g), m => Number(m[1]));
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, ...sizes.map(size => size - 1));
+
+  const changed = new Map<string, PDFRef>();
+  const touch = (ref: PDFRef) => changed.set(ref.tag, ref);
+
+  // Form dictionary: update it in place when it is its own object, otherwise through the catalog
+  const formEntry = pdfDoc.catalog.get(PDFName.of('AcroForm'));
+  let acroForm: PDFDict;
+  if (formEntry instanceof PDFRef) {
+    acroForm = context.lookup(formEntry, PDFDict);
+    touch(formEntry);
+  } else {
+    acroForm = formEntry instanceof PDFDict ? formEntry : context.obj({});
+    pdfDoc.catalog.set(PDFName.of('AcroForm'), acroForm);
+    touch(root);
+  }
+  const fieldsEntry = acroForm.get(PDFName.of('Fields'));
+  let fields: PDFArray;
+  if (fieldsEntry instanceof PDFRef) {
+    fields = context.lookup(fieldsEntry, PDFArray);
+    touch(fieldsEntry);
+  } else {
+    fields = fieldsEntry instanceof PDFArray ? fieldsEntry : context.obj([]);
+    acroForm.set(PDFName.of('Fields'), fields);
+  }
+  acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+  const taken = new Set(fields.asArray().map(ref => fieldNameOf(context.lookup(ref))));
+  let n = 1;
+  while (taken.has(`Signature${n}`)) n++;
+
+  const page = pdfDoc.getPage(0);
+  const sigRef = context.nextRef();
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFString.of(`Signature${n}`),
+    Rect: [0, 0, 0, 0],
+    F: 132,
+    V: sigRef,
+    P: page.ref,
+  }));
+  touch(widgetRef);
+  fields.push(widgetRef);
+
+  const annots = page.node.get(PDFName.of('Annots'));
+  if (annots instanceof PDFRef) {
+    context.lookup(annots, PDFArray).push(widgetRef);
+    touch(annots);
+  } else {
+    if (annots instanceof PDFArray) annots.push(widgetRef);
+    else page.node.set(PDFName.of('Annots'), context.obj([widgetRef]));
+    touch(page.ref);
+  }
+
+  const needsNewline = original[original.length - 1] !== 0x0a && original[original.length - 1] !== 0x0d;
+  let update = needsNewline ? '\n' : '';
+  const offsets: [PDFRef, number][] = [];
+  const writeObject = (ref: PDFRef, body: string) => {
+    offsets.push([ref, original.length + update.length]);
+    update += `${ref.objectNumber} ${ref.generationNumber} obj\n${body}\nendobj\n`;
+  };
+  for (const ref of changed.values()) writeObject(ref, context.lookup(ref)!.toString());
+  writeObject(sigRef, [
+    '<<',
+    '/Type /Sig',
+    '/Filter /Adobe.PPKLite',
+    '/SubFilter /ETSI.CAdES.detached',
+    `/ByteRange ${BYTE_RANGE_PLACEHOLDER}`,
+    `/Contents <${'0'.repeat(SIGNATURE_SIZE * 2)}>`,
+    `/M ${PDFString.fromDate(new Date()).toString()}`,
+    `/Name ${PDFHexString.fromText(commonName(credentials.certificate.subject)).toString()}`,
+    details.reason ? `/Reason ${PDFHexString.fromText(details.reason).toString()}` : '',
+    details.location ? `/Location ${PDFHexString.fromText(details.location).toString()}` : '',
+    '>>',
+  ].filter(Boolean).join('\n'));
+
+  const xrefOffset = original.length + update.length;
+  update += 'xref\n';
+  for (const [ref, offset] of offsets.sort((a, b) => a[0].objectNumber - b[0].objectNumber)) {
+    update += `${ref.objectNumber} 1\n${String(offset).padStart(10, '0')} ${String(ref.generationNumber).padStart(5, '0')} n\r\n`;
+  }
+  const { Info, ID } = context.trailerInfo;
+  update += [
+    'trailer',
+    '<<',
+    `/Size ${context.largestObjectNumber + 1}`,
+    `/Root ${root.toString()}`,
+    Info ? `/Info ${Info.toString()}` : '',
+    ID ? `/ID ${ID.toString()}` : '',
+    `/Prev ${previousXref[1]}`,
+    '>>',
+    'startxref',
+    String(xrefOffset),
+    '%%EOF',
+  ].filter(Boolean).join('\n') + '\n';
+
+  const signed = concatBytes(original, toLatin1Bytes(update));
+  const byteRangeAt = original.length + update.indexOf(`/ByteRange ${BYTE_RANGE_PLACEHOLDER}`) + '/ByteRange '.length;
+  const contentsStart = original.length + update.indexOf('/Contents <') + '/Contents '.length;
+  const contentsEnd = contentsStart + SIGNATURE_SIZE * 2 + 2;
+  const byteRange = `[0 ${contentsStart} ${contentsEnd} ${signed.length - contentsEnd}]`.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ');
+  signed.set(toLatin1Bytes(byteRange), byteRangeAt);
+
+  const cms = await createCms(credentials, concatBytes(signed.subarray(0, contentsStart), signed.subarray(contentsEnd)).buffer);
+  if (cms.length > SIGNATURE_SIZE) throw new Error('The certificate chain is too large to embed.');
+  signed.set(toLatin1Bytes(toHex(cms)), contentsStart + 1);
+  return signed;
+};
+
+const verifySignature = async (data: Uint8Array, fieldName: string, sig: PDFDict): Promise<SignatureVerification> => {
+  const text = (key: string) => {
+    const value = sig.lookup(PDFName.of(key));
+    return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+  };
+  const date = sig.lookup(PDFName.of('M'));
+  const result: SignatureVerification = {
+    fieldName,
+    signer: null,
+    signedAt: date instanceof PDFString ? date.decodeDate().getTime() : null,
+    reason: text('Reason'),
+    intact: false,
+    coversWholeDocument: false,
+    certificateValid: false,
+  };
+  try {
+    const subFilter = sig.lookup(PDFName.of('SubFilter'));
+    if (subFilter !== PDFName.of('ETSI.CAdES.detached') && subFilter !== PDFName.of('adbe.pkcs7.detached')) {
+      throw new Error(`Unsupported signature format ${subFilter?.toString() ?? ''}`.trim());
+    }
+    const range = sig.lookup(PDFName.of('ByteRange'), PDFArray).asArray().map(n => n instanceof PDFNumber ? n.asNumber() : NaN);
+    const contents = sig.lookup(PDFName.of('Contents'));
+    if (
+      range.length !== 4 || !range.every(n => Number.isInteger(n) && n >= 0) || range[0] !== 0 || range[1] >= range[2] ||
+      range[2] + range[3] > data.length || !(contents instanceof PDFHexString)
+    ) {
+      throw new Error('Malformed signature dictionary');
+    }
+    // The one unsigned gap must be exactly this /Contents string. Anything else in it, such as a
+    // shortened string followed by new objects, would be unsigned content that still verifies.
+    const gap = latin1.decode(data.subarray(range[1], range[2]));
+    const normalizeHex = (hex: string) => hex.replace(/\s/g, '').toUpperCase();
+    if (!/^<[0-9A-Fa-f\s]*>$/.test(gap) || normalizeHex(gap.slice(1, -1)) !== normalizeHex(contents.asString())) {
+      throw new Error('The signature byte range leaves out more than the signature itself');
+    }
+    // Trailing whitespace after the final %%EOF is not a modification
+    result.coversWholeDocument = !/\S/.test(latin1.decode(data.subarray(range[2] + range[3])));
+
+    const signedBytes = concatBytes(data.subarray(0, range[1]), data.subarray(range[2], range[2] + range[3]));
+    const der = contents.asBytes();
+    const asn1 = asn1js.fromBER(der.buffer.slice(der.byteOffset, der.byteOffset + der.byteLength) as ArrayBuffer);
+    if (asn1.offset === -1) throw new Error('Unreadable signature data');
+    const contentInfo = new pkijs.ContentInfo({ schema: asn1.result });
+    const signedData = new pkijs.SignedData({ schema: contentInfo.content });
+    const verification = await signedData.verify({
+      signer: 0,
+      data: signedBytes.buffer as ArrayBuffer,
+      checkChain: false,
+      extendedMode: true,
+    }).catch((err: { signatureVerified?: boolean; signerCertificate?: pkijs.Certificate; message?: string }) => err);
+    const certificate = verification.signerCertificate;
+    if (certificate) {
+      result.signer = describe(certificate);
+      const signingTime = signedData.signerInfos[0].signedAttrs?.attributes.find(a => a.type === OID.signingTime);
+      const at = result.signedAt ?? (signingTime ? (signingTime.values[0] as asn1js.UTCTime).toDate().getTime() : Date.now());
+      result.certificateValid = at >= result.signer.validFrom && at <= result.signer.validTo;
+    }
+    result.intact = verification.signatureVerified === true;
+    if (!result.intact) result.error = 'The signed content does not match the signature';
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+  }
+  return result;
+};
+
+/**
+ * Checks every filled signature field. Trust in the signer is not evaluated here: there is no
+ * certificate store in the browser to check against, so the report shows who signed and leaves that call to the reader.
+ */
+export const verifyPDFSignatures = async (bytes: ArrayBuffer): Promise<SignatureVerification[]> => {
+  const data = new Uint8Array(bytes.slice(0));
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const results: SignatureVerification[] = [];
+  for (const field of pdfDoc.getForm().getFields()) {
+    if (!(field instanceof PDFSignature)) continue;
+    const sig = field.acroField.dict.lookup(PDFName.of('V'));
+    if (sig instanceof PDFDict) results.push(await verifySignature(data, field.getName(), sig));
+  }
+  return results;
+};
@@ -0,0 +1,209 @@
+import { PDFDocument } from 'pdf-lib';
+import { BinaryBitmap, DecodeHintType, GlobalHistogramBinarizer, HybridBinarizer, MultiFormatReader, RGBLuminanceSource } from '@zxing/library';
+import type { SplitConfig } from '../types';
+import { loadPdfJsDocument, ProgressCallback, renderPageLuminance } from './pdfCore';
+import { readOutline, shiftOutline, writeOutline } from './outlineCore';
+import { parsePageGroups } from '../utils/pageRanges';
+
+// Cuts one document into consecutive parts. Each strategy only decides where the cuts go (and which
+// pages to drop); copying and naming are shared so every strategy produces the same file pattern.
+
+interface Segment {
+  pages: number[];
+  title?: string;
+}
+
+export interface SplitPart {
+  name: string;
+  data: Uint8Array;
+}
+
+/** Separator analysis renders pages this wide; blank detection needs little detail, barcodes need more. */
+const BLANK_RENDER_WIDTH = 300;
+const BARCODE_RENDER_WIDTH = 1200;
+
+/** Scanner noise near the edges (punch holes, shadows) is ignored. */
+const BLANK_EDGE_MARGIN = 0.05;
+const BLANK_INK_LUMINANCE = 160;
+/** Share of dark pixels below which a page counts as blank. */
+const BLANK_INK_RATIO = 0.002;
+
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+const safeFileName = (title: string) =>
+  title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').replace(/\s+/g, ' ').trim().slice(0, 80);
+
+const copyPages = async (src: PDFDocument, indices: number[]) => {
+  const doc = await PDFDocument.create();
+  (await doc.copyPages(src, indices)).forEach(page => doc.addPage(page));
+  return doc;
+};
+
+const isBlank = ({ luminance, width, height }: { luminance: Uint8ClampedArray; width: number; height: number }) => {
+  const left = Math.floor(width * BLANK_EDGE_MARGIN), right = width - left;
+  const top = Math.floor(height * BLANK_EDGE_MARGIN), bottom = height - top;
+  let ink = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) if (luminance[y * width + x] < BLANK_INK_LUMINANCE) ink++;
+  }
+  return ink / ((right - left) * (bottom - top)) < BLANK_INK_RATIO;
+};
+
+/**
+ * The local binarizer suits small or unevenly lit codes but loses large modules at this resolution,
+ * where the global one succeeds, so both are tried.
+ */
+const readBarcode = (reader: MultiFormatReader, { luminance, width, height }: { luminance: Uint8ClampedArray; width: number; height: number }) => {
+  const source = new RGBLuminanceSource(luminance, width, height);
+  for (const binarizer of [new HybridBinarizer(source), new GlobalHistogramBinarizer(source)]) {
+    try {
+      return reader.decodeWithState(new BinaryBitmap(binarizer)).getText();
+    } catch {
+      // zxing reports "nothing found" by throwing
+    }
+  }
+  return null;
+};
+
+/** Indices of the pages that are separator sheets, found by rendering every page. */
+const findSeparators = async (bytes: ArrayBuffer, options: SplitConfig, onProgress?: ProgressCallback) => {
+  const pdf = await loadPdfJsDocument(bytes);
+  try {
+    const reader = new MultiFormatReader();
+    reader.setHints(new Map([[DecodeHintType.TRY_HARDER, true]]));
+    const separators = new Set<number>();
+    for (let i = 0; i < pdf.numPages; i++) {
+      const page = await pdf.getPage(i + 1);
+      if (options.separator === 'blank') {
+        if (isBlank(await renderPageLuminance(page, BLANK_RENDER_WIDTH))) separators.add(i);
+      } else {
+        const text = readBarcode(reader, await renderPageLuminance(page, BARCODE_RENDER_WIDTH));
+        if (text !== null && text.includes(options.barcodeText.trim())) separators.add(i);
+      }
+      page.cleanup();
+      if (onProgress) onProgress(i + 1, pdf.numPages);
+    }
+    return separators;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const segmentsBySeparator = (pageCount: number, separators: Set<number>): Segment[] => {
+  if (separators.size === 0) throw new Error('No separator pages were found in this document.');
+  const segments: Segment[] = [];
+  let current: number[] = [];
+  for (let i = 0; i <= pageCount; i++) {
+    if (i === pageCount || separators.has(i)) {
+      if (current.length > 0) segments.push({ pages: current });
+      current = [];
+    } else {
+      current.push(i);
+    }
+  }
+  return segments;
+};
+
+/** One part per top-level bookmark, running up to the next one. Pages before the first bookmark form their own part. */
+const segmentsByBookmarks = (src: PDFDocument): Segment[] => {
+  const starts = new Map<number, string>();
+  readOutline(src)
+    .filter(item => item.pageIndex !== null)
+    .sort((a, b) => a.pageIndex! - b.pageIndex!)
+    .forEach(item => { if (!starts.has(item.pageIndex!)) starts.set(item.pageIndex!, item.title); });
+  if (starts.size === 0) throw new Error('This document has no bookmarks to split at.');
+  const cuts = Array.from(starts.keys());
+  const pageCount = src.getPageCount();
+  const segments: Segment[] = cuts.map((start, i) => ({ pages: range(start, cuts[i + 1] ?? pageCount), title: starts.get(start) }));
+  return cuts[0] > 0 ? [{ pages: range(0, cuts[0]), title: 'Front matter' }, ...segments] : segments;
+};
+
+/**
+ * Greedily packs consecutive pages into parts no larger than `maxBytes`, measuring real saved sizes
+ * (shared fonts and images make per-page estimates unreliable). A single page over the limit becomes a part of its own.
+ */
+const partsBySize = async (src: PDFDocument, maxBytes: number, onProgress?: ProgressCallback): Promise<Uint8Array[]> => {
+  const pageCount = src.getPageCount();
+  const save = async (start: number, count: number) => await (await copyPages(src, range(start, start + count))).save();
+  const parts: Uint8Array[] = [];
+  let start = 0;
+  while (start < pageCount) {
+    let fits = 1;
+    let best = await save(start, 1);
+    let tooMany: number | null = null;
+    // Double until a part overflows, then bisect between the last fit and the first overflow
+    while (tooMany === null && start + fits < pageCount) {
+      const count = Math.min(fits * 2, pageCount - start);
+      const data = await save(start, count);
+      if (data.length <= maxBytes) { fits = count; best = data; } else tooMany = count;
+    }
+    while (tooMany !== null && tooMany - fits > 1) {
+      const count = Math.floor((fits + tooMany) / 2);
+      const data = await save(start, count);
+      if (data.length <= maxBytes) { fits = count; best = data; } else tooMany = count;
+    }
+    parts.push(best);
+    start += fits;
+    if (onProgress) onProgress(start, pageCount);
+  }
+  return parts;
+};
+
+const partName = (base: string, index: number, total: number, title?: string) => {
+  const number = String(index + 1).padStart(Math.max(2, String(total).length), '0');
+  const suffix = title ? safeFileName(title) : '';
+  return suffix ? `${base}_${number}_${suffix}.pdf` : `${base}_part_${number}.pdf`;
+};
+
+/**
+ * Splits a document into parts named `<name>_part_01.pdf`, `<name>_part_02.pdf`, …; named range groups
+ * and bookmark splits use that name instead (`<name>_01_<title>.pdf`), and bookmark parts keep their nested bookmarks.
+ */
+export const splitDocument = async (
+  bytes: ArrayBuffer,
+  options: SplitConfig,
+  fileName: string,
+  onProgress?: ProgressCallback
+): Promise<SplitPart[]> => {
+  const base = fileName.replace(/\.pdf$/i, '');
+  // pdf.js may take ownership of the buffer, so pdf-lib reads it first
+  const src = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const pageCount = src.getPageCount();
+
+  if (options.strategy === 'size') {
+    const maxBytes = options.maxSizeMb * 1024 * 1024;
+    if (!(maxBytes > 0)) throw new Error('Enter a maximum file size.');
+    const parts = await partsBySize(src, maxBytes, onProgress);
+    return parts.map((data, i) => ({ name: partName(base, i, parts.length), data }));
+  }
+
+  let segments: Segment[];
+  if (options.strategy === 'every') {
+    const every = Math.floor(options.every);
+    if (!(every >= 1)) throw new Error('Enter how many pages each part should have.');
+    segments = range(0, Math.ceil(pageCount / every)).map(i => ({ pages: range(i * every, Math.min(pageCount, (i + 1) * every)) }));
+  } else if (options.strategy === 'ranges') {
+    const { groups, errors } = parsePageGroups(options.ranges, pageCount);
+    if (errors.length > 0) throw new Error(errors[0]);
+    if (groups.length === 0) throw new Error('Enter page ranges.');
+    segments = groups.map(group => ({ pages: group.pages.map(p => p - 1), title: group.name || undefined }));
+  } else if (options.strategy === 'bookmarks') {
+    segments = segmentsByBookmarks(src);
+  } else {
+    segments = segmentsBySeparator(pageCount, await findSeparators(bytes, options, onProgress));
+  }
+
+  const outline = options.strategy === 'bookmarks' ? readOutline(src) : [];
+  const parts: SplitPart[] = [];
+  for (const [i, segment] of segments.entries()) {
+    const doc = await copyPages(src, segment.pages);
+    if (options.strategy === 'bookmarks') {
+      const first = segment.pages[0];
+      const top = outline.find(item => item.pageIndex === first && item.title === segment.title);
+      if (top && top.children.length > 0) writeOutline(doc, shiftOutline(top.children, -first));
+    }
+    parts.push({ name: partName(base, i, segments.length, segment.title), data: await doc.save() });
+    if (options.strategy !== 'separator' && onProgress) onProgress(i + 1, segments.length);
+  }
+  return parts;
+};
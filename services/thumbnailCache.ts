@@ -0,0 +1,138 @@
+import { renderThumbnails, isJobCancelled } from './pdfService';
+import { thumbnailCacheSize } from '../utils/memoryLimits';
+import { createId } from '../utils/ids';
+
+// Page thumbnails rendered on demand and kept as object URLs in a least-recently-used cache.
+// Requests made in the same moment are rendered by one job, so a grid scrolling into view opens
+// the document once per batch rather than once per page.
+
+/** Pages rendered per job; small enough that a fast scroll does not queue work for pages already gone. */
+const BATCH_SIZE = 12;
+
+/** How long to collect requests before starting a job. */
+const BATCH_DELAY = 30;
+
+interface Listener {
+  onReady: (url: string) => void;
+  onError: () => void;
+}
+
+interface PendingFile {
+  file: File;
+  /** Pages still wanted, with everyone waiting on each. */
+  pages: Map<number, Set<Listener>>;
+  running: boolean;
+}
+
+// Map iteration follows insertion order, so re-inserting on access keeps the oldest entry first
+const cache = new Map<string, string>();
+const pending = new Map<string, PendingFile>();
+
+// A File keeps its id for as long as it lives, so every version of a document has its own entries
+const fileIds = new WeakMap<File, string>();
+
+const fileIdOf = (file: File) => {
+  let id = fileIds.get(file);
+  if (!id) {
+    id = createId();
+    fileIds.set(file, id);
+  }
+  return id;
+};
+
+const keyOf = (file: File, pageIndex: number) => `${fileIdOf(file)}:${pageIndex}`;
+
+// An image already on screen keeps showing after its URL is revoked; only a new <img> needs it
+const store = (key: string, url: string) => {
+  cache.set(key, url);
+  const capacity = thumbnailCacheSize();
+  for (const [oldest, oldUrl] of cache) {
+    if (cache.size <= capacity) break;
+    URL.revokeObjectURL(oldUrl);
+    cache.delete(oldest);
+  }
+};
+
+/** The cached thumbnail of a page, if there is one. */
+export const peekThumbnail = (file: File, pageIndex: number): string | undefined => {
+  const key = keyOf(file, pageIndex);
+  const url = cache.get(key);
+  if (url) {
+    cache.delete(key);
+    cache.set(key, url);
+  }
+  return url;
+};
+
+const flush = async (fileId: string) => {
+  const entry = pending.get(fileId);
+  if (!entry || entry.running) return;
+  const pageIndices = [...entry.pages.keys()].slice(0, BATCH_SIZE);
+  if (pageIndices.length === 0) {
+    pending.delete(fileId);
+    return;
+  }
+  entry.running = true;
+  try {
+    const blobs = await renderThumbnails(entry.file, pageIndices);
+    pageIndices.forEach((pageIndex, i) => {
+      const url = URL.createObjectURL(blobs[i]);
+      store(`${fileId}:${pageIndex}`, url);
+      entry.pages.get(pageIndex)?.forEach(listener => listener.onReady(url));
+      entry.pages.delete(pageIndex);
+    });
+  } catch (err) {
+    // A cancelled job is no failure of the page; either way scrolling back to it tries again
+    pageIndices.forEach(pageIndex => {
+      if (!isJobCancelled(err)) entry.pages.get(pageIndex)?.forEach(listener => listener.onError());
+      entry.pages.delete(pageIndex);
+    });
+  } finally {
+    entry.running = false;
+  }
+  flush(fileId);
+};
+
+/**
+ * Asks for a page thumbnail and calls `onReady` once it is rendered, straight away if it is cached,
+ * or `onError` if the page cannot be rendered. Returns an unsubscribe function; a page nobody
+ * waits for any more is dropped from the queue.
+ */
+export const requestThumbnail = (
+  file: File,
+  pageIndex: number,
+  onReady: (url: string) => void,
+  onError: () => void
+): (() => void) => {
+  const cached = peekThumbnail(file, pageIndex);
+  if (cached) {
+    onReady(cached);
+    return () => {};
+  }
+  const fileId = fileIdOf(file);
+  let entry = pending.get(fileId);
+  if (!entry) {
+    entry = { file, pages: new Map(), running: false };
+    pending.set(fileId, entry);
+    setTimeout(() => flush(fileId), BATCH_DELAY);
+  }
+  const listener: Listener = { onReady, onError };
+  const listeners = entry.pages.get(pageIndex) ?? new Set<Listener>();
+  listeners.add(listener);
+  entry.pages.set(pageIndex, listeners);
+
+  const target = entry;
+  return () => {
+    const current = target.pages.get(pageIndex);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) target.pages.delete(pageIndex);
+  };
+};
+
+/** Revokes every cached thumbnail, for when the workspace is cleared. */
+export const clearThumbnails = () => {
+  cache.forEach(url => URL.revokeObjectURL(url));
+  cache.clear();
+  pending.forEach(entry => entry.pages.clear());
+};
@@ -0,0 +1,119 @@
+import { PdfJobType, PdfJobPayload, PdfJobResult, WorkerRequest, WorkerResponse, runPdfJob } from './pdfJobs';
+import type { ProgressCallback } from './pdfCore';
+
+export interface JobOptions {
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  transfer?: Transferable[];
+}
+
+interface Job<T extends PdfJobType = PdfJobType> {
+  id: number;
+  type: T;
+  payload: PdfJobPayload<T>;
+  transfer: Transferable[];
+  onProgress?: ProgressCallback;
+  resolve(result: PdfJobResult<T>): void;
+  reject(reason: unknown): void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+}
+
+export const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2));
+
+const workers: PoolWorker[] = [];
+const queue: Job[] = [];
+let nextJobId = 1;
+
+export const createCancelledError = () => new DOMException('Operation cancelled.', 'AbortError');
+
+export const isJobCancelled = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+const spawnWorker = (): PoolWorker => {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('./pdfWorker.ts', import.meta.url), { type: 'module' }),
+    job: null,
+  };
+  entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const job = entry.job;
+    const message = event.data;
+    if (!job || job.id !== message.id) return;
+    if (message.kind === 'progress') {
+      job.onProgress?.(message.current, message.total);
+      return;
+    }
+    entry.job = null;
+    if (message.kind === 'result') job.resolve(message.result);
+    else job.reject(new Error(message.message));
+    dispatch();
+  };
+  entry.worker.onerror = (event) => {
+    const job = entry.job;
+    replaceWorker(entry);
+    job?.reject(new Error(event.message || 'Worker crashed.'));
+  };
+  return entry;
+};
+
+const replaceWorker = (entry: PoolWorker) => {
+  entry.worker.terminate();
+  const index = workers.indexOf(entry);
+  if (index !== -1) workers.splice(index, 1, spawnWorker());
+  dispatch();
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    let idle = workers.find(w => !w.job);
+    if (!idle && workers.length < POOL_SIZE) {
+      idle = spawnWorker();
+      workers.push(idle);
+    }
+    if (!idle) return;
+    const job = queue.shift()!;
+    idle.job = job;
+    const request: WorkerRequest = { id: job.id, type: job.type, payload: job.payload };
+    idle.worker.postMessage(request, job.transfer);
+  }
+};
+
+const cancelJob = (job: Job) => {
+  const queued = queue.indexOf(job);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+  } else {
+    // pdf-lib has no cooperative cancellation, so a running job is stopped by replacing its worker
+    const owner = workers.find(w => w.job === job);
+    if (!owner) return;
+    owner.job = null;
+    replaceWorker(owner);
+  }
+  job.reject(createCancelledError());
+};
+
+/**
+ * Queues a job on the pool. Input buffers listed in `transfer` are moved to the worker and
+ * must not be used by the caller afterwards. Falls back to the main thread without Worker support.
+ */
+export const runJob = <T extends PdfJobType>(type: T, payload: PdfJobPayload<T>, options: JobOptions = {}): Promise<PdfJobResult<T>> => {
+  const { onProgress, signal, transfer = [] } = options;
+  if (signal?.aborted) return Promise.reject(createCancelledError());
+  if (typeof Worker === 'undefined') return runPdfJob(type, payload, onProgress ?? (() => {}));
+
+  return new Promise((resolve, reject) => {
+    const job: Job<T> = { id: nextJobId++, type, payload, transfer, onProgress, resolve, reject };
+    signal?.addEventListener('abort', () => cancelJob(job), { once: true });
+    queue.push(job);
+    dispatch();
+  });
+};
+
+/**
+ * Cancels every queued and in-flight job, rejecting each with an AbortError.
+ */
+export const cancelAllJobs = () => {
+  [...queue, ...workers.map(w => w.job).filter((job): job is Job => job !== null)].forEach(cancelJob);
+};
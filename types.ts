@@ -8,9 +8,380 @@ export interface PDFFile {
   rotation: number;
   type: 'pdf' | 'image';
   previewUrl?: string;
+  unlocked?: boolean;
 }
 
-export type AppTool = 'merge' | 'split' | 'reorder' | 'delete-pages' | 'rotate' | 'watermark' | 'page-numbering' | 'pdf-to-image' | 'image-to-pdf' | 'pdf-to-text';
+export interface DocumentVersion {
+  id: string;
+  label: string;
+  file: File;
+  size: number;
+  pageCount: number;
+  createdAt: number;
+  /** Set on edits that removed content on purpose, such as redacting; earlier versions are never saved to disk. */
+  removesContent?: boolean;
+}
+
+export interface DocumentHistory {
+  versions: DocumentVersion[];
+  index: number;
+}
+
+export type AppTool = 'merge' | 'split' | 'organize' | 'rotate' | 'watermark' | 'page-numbering' | 'pdf-to-image' | 'image-to-pdf' | 'pdf-to-text' | 'pipeline' | 'encrypt' | 'redact' | 'compress' | 'forms' | 'sign' | 'digital-sign' | 'bookmarks' | 'compare' | 'metadata';
+
+export type WatermarkKind = 'text' | 'image';
+
+/** Nine-point anchor on the page as it is displayed. */
+export type WatermarkAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/** `tile` repeats in a straight grid; `diagonal` shifts every other row by half a step. */
+export type WatermarkLayout = 'single' | 'tile' | 'diagonal';
+
+export interface WatermarkImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface WatermarkConfig {
+  kind: WatermarkKind;
+  /** May contain {filename}, {date}, {page}, {total} and {user}. */
+  text: string;
+  fontSize: number;
+  image: WatermarkImage | null;
+  /** Image width as a fraction of the page width. */
+  imageScale: number;
+  opacity: number;
+  rotation: number;
+  color: string;
+  layout: WatermarkLayout;
+  anchor: WatermarkAnchor;
+  /** Distance from the page edge in points for a single anchored watermark. */
+  margin: number;
+  /** Gap between repeated watermarks in points. */
+  spacing: number;
+  /** Page range expression such as "1, 3-5"; empty for every page. */
+  pages: string;
+  layer: 'over' | 'under';
+  /** Value substituted for {user}. */
+  user: string;
+}
+
+/** Text for the three slots of a header or footer; each may contain {page}, {total}, {filename}, {date} and {bates}. */
+export interface HeaderFooterSlots {
+  left: string;
+  center: string;
+  right: string;
+}
+
+export type PageNumberStyle = 'arabic' | 'roman-lower' | 'roman-upper';
+
+export type StampFont = 'helvetica' | 'times' | 'courier' | 'custom';
+
+export interface EmbeddedFont {
+  name: string;
+  dataUrl: string;
+}
+
+export interface BatesConfig {
+  prefix: string;
+  /** Counter width; shorter numbers are padded with zeros. */
+  digits: number;
+  suffix: string;
+  start: number;
+}
+
+export interface PageNumberConfig {
+  header: HeaderFooterSlots;
+  footer: HeaderFooterSlots;
+  fontSize: number;
+  color: string;
+  font: StampFont;
+  /** TrueType or OpenType font used when `font` is 'custom'. */
+  customFont: EmbeddedFont | null;
+  /** Distance from the page edge in points. */
+  margin: number;
+  numberStyle: PageNumberStyle;
+  /** Leading pages left unstamped, such as a cover. They still count towards {page} and {bates}. */
+  skipFirst: number;
+  /** Swap the left and right slots on even pages, for documents printed double-sided. */
+  mirrorEven: boolean;
+  bates: BatesConfig;
+}
+
+/** A pending watermark, page-numbering or rotate run, shown on a single page before it is applied. */
+export type ToolPreview =
+  | { kind: 'watermark'; config: WatermarkConfig }
+  | { kind: 'page-numbers'; config: PageNumberConfig }
+  | { kind: 'rotate'; rotation: number; pageNumbers?: number[] };
+
+export interface EncryptionConfig {
+  userPassword: string;
+  ownerPassword: string;
+  algorithm: 'AES-256' | 'AES-128';
+  permissions: {
+    print: boolean;
+    copy: boolean;
+    modify: boolean;
+  };
+}
+
+export interface OutlineItem {
+  id: string;
+  title: string;
+  /** Zero-based target page; null when the bookmark has no destination in this document. */
+  pageIndex: number | null;
+  children: OutlineItem[];
+}
+
+export interface MergeOptions {
+  /** Add a top-level bookmark for each input file, named after it. */
+  fileBookmarks: boolean;
+  /** Carry over the bookmarks of each input. */
+  keepOutlines: boolean;
+  /** Insert a linked contents page at the front. */
+  tableOfContents: boolean;
+}
+
+/** 'ranges' writes one file per typed page group; the others cut the whole document into parts. */
+export type SplitStrategy = 'ranges' | 'every' | 'bookmarks' | 'size' | 'separator';
+
+export type SeparatorKind = 'blank' | 'barcode';
+
+export interface SplitConfig {
+  strategy: SplitStrategy;
+  /** Page groups for 'ranges', see parsePageGroups. */
+  ranges: string;
+  /** Pages per part for 'every'. */
+  every: number;
+  /** Upper bound per part for 'size', in megabytes. */
+  maxSizeMb: number;
+  separator: SeparatorKind;
+  /** Only barcodes whose text contains this count as separators; empty accepts any barcode. */
+  barcodeText: string;
+}
+
+export type TextExtractionMode = 'text-layer' | 'structured' | 'ocr';
+
+export type TextExportFormat = 'txt' | 'md' | 'json' | 'csv';
+
+/**
+ * A pdf.js text run in page space: points, top-left origin, `y` is the top of the run.
+ */
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  fontName: string;
+}
+
+export type TextBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+export interface StructuredPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: PositionedText[];
+  blocks: TextBlock[];
+}
+
+/**
+ * A recognised word. Coordinates are fractions of the rendered page, top-left origin,
+ * so they stay valid whatever scale the page was rasterized at.
+ */
+export interface OcrWord {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrPage {
+  text: string;
+  words: OcrWord[];
+}
+
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'option-list' | 'signature' | 'button';
+
+export type FormFieldValue = string | boolean | string[];
+
+export interface FormFieldInfo {
+  name: string;
+  type: FormFieldType;
+  value: FormFieldValue;
+  options: string[];
+  multiline: boolean;
+  readOnly: boolean;
+  required: boolean;
+  maxLength?: number;
+}
+
+export type CompressionPreset = 'screen' | 'ebook' | 'print';
+
+export interface CompressionResult {
+  fileId: string;
+  name: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * An area to remove, as fractions of the rendered page with a top-left origin.
+ */
+export interface RedactionBox {
+  id: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionReport {
+  boxCount: number;
+  pageCount: number;
+  leakedText: string[];
+  remainingMatches: number;
+}
+
+export type SignatureKind = 'signature' | 'initials';
+
+export interface SavedSignature {
+  id: string;
+  kind: SignatureKind;
+  /** Transparent PNG cropped to the ink. */
+  dataUrl: string;
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+export type DateStampFormat = 'iso' | 'short' | 'long';
+
+/**
+ * A signature image, or the date stamp when `signatureId` is null. Same coordinate space as RedactionBox.
+ */
+export interface SignaturePlacement {
+  id: string;
+  pageIndex: number;
+  allPages: boolean;
+  signatureId: string | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: number;
+  validTo: number;
+  selfSigned: boolean;
+}
+
+export interface DigitalSignatureDetails {
+  reason: string;
+  location: string;
+}
+
+export interface SignatureVerification {
+  fieldName: string;
+  signer: CertificateInfo | null;
+  signedAt: number | null;
+  reason: string;
+  /** The signature matches the bytes it covers. */
+  intact: boolean;
+  /** Nothing was appended to the file after this signature. */
+  coversWholeDocument: boolean;
+  /** The signing certificate was within its validity period at the claimed signing time. */
+  certificateValid: boolean;
+  error?: string;
+}
+
+export type PipelineStepConfig =
+  | { op: 'rotate'; rotation: number; ranges: string }
+  | { op: 'watermark'; config: WatermarkConfig }
+  | { op: 'page-numbering'; config: PageNumberConfig }
+  | { op: 'extract'; ranges: string }
+  | { op: 'merge' };
+
+export type PipelineStep = PipelineStepConfig & { id: string };
+
+export type PipelineOp = PipelineStepConfig['op'];
+
+export interface PipelineDefinition {
+  version: 1;
+  name: string;
+  steps: PipelineStepConfig[];
+}
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+/** A run of words that is in both documents, only in the revised one or only in the original. */
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/** One page of the original matched with its counterpart in the revised document. */
+export interface PageComparison {
+  /** Zero-based page in the original, or null for a page only the revised document has. */
+  leftIndex: number | null;
+  /** Zero-based page in the revised document, or null for a page that was removed. */
+  rightIndex: number | null;
+  segments: DiffSegment[];
+  /** Share of rendered pixels that differ: 0 for identical pages, 1 for added or removed ones. */
+  pixelChange: number;
+  /** The original drawn faintly with removed ink in red and added ink in green; only for changed pairs. */
+  overlay: Blob | null;
+}
+
+export interface ComparisonResult {
+  leftName: string;
+  rightName: string;
+  pages: PageComparison[];
+}
+
+/** The document information dictionary. Dates are ISO strings; empty fields are absent from the file. */
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+  creationDate: string | null;
+  modificationDate: string | null;
+}
+
+/** What sanitizing removes, counted per kind. */
+export interface SanitizeReport {
+  metadataFields: number;
+  xmpStreams: number;
+  scripts: number;
+  attachments: number;
+  hiddenLayers: number;
+}
+
+export interface MetadataInspection {
+  metadata: DocumentMetadata;
+  /** The document's XMP packet as stored, or null when it has none. */
+  xmp: string | null;
+  /** What sanitizing this file would remove. */
+  findings: SanitizeReport;
+}
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { alignPages } from './documentDiff';
+
+const pages = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => [`${prefix}${i}`, 'shared', `words${i}`]);
+
+describe('alignPages', () => {
+  it('leaves an inserted page unpaired and pairs the rest in order', () => {
+    const left = pages(4, 'page');
+    const right = [...left.slice(0, 2), ['brand', 'new', 'page'], ...left.slice(2)];
+    expect(alignPages(left, right)).toEqual([[0, 0], [1, 1], [null, 2], [2, 3], [3, 4]]);
+  });
+
+  it('aligns long documents that differ in length', () => {
+    const left = pages(3000, 'page');
+    const right = [...left.slice(0, 1000), ...left.slice(1040)];
+    const pairs = alignPages(left, right);
+    expect(pairs.filter(([l, r]) => l !== null && r === null).map(([l]) => l)).toEqual(Array.from({ length: 40 }, (_, i) => 1000 + i));
+    expect(pairs.filter(([l, r]) => l !== null && r !== null)).toHaveLength(2960);
+  });
+});
@@ -0,0 +1,168 @@
+import { DiffOp, DiffSegment, PageComparison } from '../types';
+
+// Word diffs and page alignment for comparing two documents. Plain functions over word lists, so
+// the worker runs them next to the renderer and the reports reuse the same segments.
+
+/**
+ * Cells of the LCS table allowed for one changed region (16 MB); past this the region is shown as
+ * deleted and inserted whole, which only happens when nearly a whole long page was rewritten.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Pages are only paired with counterparts at most this many positions away from where their length
+ * difference allows. Only that band of the alignment table is computed and kept, so time and memory
+ * stay linear in the page count for long documents.
+ */
+const ALIGN_WINDOW = 25;
+
+export const tokenize = (text: string) => text.split(/\s+/).filter(Boolean);
+
+const append = (segments: DiffSegment[], op: DiffOp, words: string[]) => {
+  if (words.length === 0) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) last.text += ` ${words.join(' ')}`;
+  else segments.push({ op, text: words.join(' ') });
+};
+
+/** Longest-common-subsequence diff of two word lists, with adjacent words of the same kind merged. */
+export const diffWords = (before: string[], after: string[]): DiffSegment[] => {
+  // Edits are usually local; trimming the shared ends keeps the table small
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length, endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+  const a = before.slice(start, endBefore), b = after.slice(start, endAfter);
+  const segments: DiffSegment[] = [];
+  append(segments, 'equal', before.slice(0, start));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    append(segments, 'delete', a);
+    append(segments, 'insert', b);
+  } else {
+    // Filled from the end, so walking forward can pick each step from the table directly
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] = a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+    let i = 0, j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        append(segments, 'equal', [a[i++]]);
+        j++;
+      } else if (i < a.length && (j === b.length || table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+        // Deletions go first so a replaced phrase reads as old text, then new
+        append(segments, 'delete', [a[i++]]);
+      } else {
+        append(segments, 'insert', [b[j++]]);
+      }
+    }
+  }
+
+  append(segments, 'equal', before.slice(endBefore));
+  return segments;
+};
+
+/**
+ * Jaccard similarity of the pages' vocabularies. Two pages without text count as alike, so scanned
+ * documents still pair up page by page.
+ */
+const pageSimilarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  small.forEach(word => { if (large.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Pairs the pages of two documents in order, leaving pages without a counterpart unpaired, by
+ * maximising the total similarity of the pairs. Returns zero-based indices; null marks a page that
+ * exists on one side only.
+ */
+export const alignPages = (left: string[][], right: string[][]): [number | null, number | null][] => {
+  const n = left.length, m = right.length;
+  const leftWords = left.map(words => new Set(words.map(w => w.toLowerCase())));
+  const rightWords = right.map(words => new Set(words.map(w => w.toLowerCase())));
+  const window = ALIGN_WINDOW + Math.abs(n - m);
+  const isPairable = (i: number, j: number) => Math.abs(i - j) <= window;
+
+  // Row i keeps the columns from firstColumn(i) on; the band slides right along the diagonal and is
+  // held inside the table at both ends. Cells outside it cannot be reached.
+  const band = Math.min(2 * window + 1, m + 1);
+  const firstColumn = (i: number) => Math.min(Math.max(i - window, 0), m + 1 - band);
+  const best = new Float64Array((n + 1) * band);
+  const bestAt = (i: number, j: number) => {
+    const k = j - firstColumn(i);
+    return k >= 0 && k < band ? best[i * band + k] : -Infinity;
+  };
+
+  for (let i = n - 1; i >= 0; i--) {
+    const from = firstColumn(i);
+    for (let j = Math.min(m - 1, from + band - 1); j >= from; j--) {
+      let score = Math.max(bestAt(i + 1, j), bestAt(i, j + 1));
+      if (isPairable(i, j)) {
+        // Ties go to pairing, so rewritten pages still line up with the page they replaced
+        score = Math.max(score, bestAt(i + 1, j + 1) + pageSimilarity(leftWords[i], rightWords[j]));
+      }
+      best[i * band + j - from] = score;
+    }
+  }
+
+  const pairs: [number | null, number | null][] = [];
+  let i = 0, j = 0;
+  while (i < n && j < m) {
+    const score = bestAt(i, j);
+    if (isPairable(i, j) && score === bestAt(i + 1, j + 1) + pageSimilarity(leftWords[i], rightWords[j])) pairs.push([i++, j++]);
+    else if (score === bestAt(i + 1, j)) pairs.push([i++, null]);
+    else pairs.push([null, j++]);
+  }
+  while (i < n) pairs.push([i++, null]);
+  while (j < m) pairs.push([null, j++]);
+  return pairs;
+};
+
+export const isPageChanged = (page: PageComparison) => page.pixelChange > 0 || page.segments.some(s => s.op !== 'equal');
+
+const wordCount = (text: string) => tokenize(text).length;
+
+export const summarizeComparison = (pages: PageComparison[]) => ({
+  pages: pages.length,
+  changed: pages.filter(isPageChanged).length,
+  added: pages.filter(p => p.leftIndex === null).length,
+  removed: pages.filter(p => p.rightIndex === null).length,
+  wordsInserted: pages.reduce((sum, p) => sum + p.segments.reduce((n, s) => n + (s.op === 'insert' ? wordCount(s.text) : 0), 0), 0),
+  wordsDeleted: pages.reduce((sum, p) => sum + p.segments.reduce((n, s) => n + (s.op === 'delete' ? wordCount(s.text) : 0), 0), 0),
+});
+
+/**
+ * Shortens unchanged runs to a few words either side of each change, for reports that list only
+ * what differs. Elided words become a single '...' segment.
+ */
+export const condenseSegments = (segments: DiffSegment[], context: number): DiffSegment[] =>
+  segments.map((segment, i) => {
+    if (segment.op !== 'equal') return segment;
+    const words = tokenize(segment.text);
+    const head = i > 0 ? context : 0;
+    const tail = i < segments.length - 1 ? context : 0;
+    if (words.length <= head + tail + 1) return segment;
+    const text = [...words.slice(0, head), '...', ...words.slice(words.length - tail)].join(' ');
+    return { op: 'equal', text };
+  });
+
+/** A heading for a page pair, in one-based page numbers. */
+export const describePagePair = (page: PageComparison) => {
+  if (page.leftIndex === null) return `Added in revised: page ${page.rightIndex! + 1}`;
+  if (page.rightIndex === null) return `Removed from original: page ${page.leftIndex + 1}`;
+  return page.leftIndex === page.rightIndex
+    ? `Page ${page.leftIndex + 1}`
+    : `Original page ${page.leftIndex + 1}, revised page ${page.rightIndex + 1}`;
+};
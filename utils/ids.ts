@@ -0,0 +1,2 @@
+/** Short random id for list items and cache keys; unique enough within one session. */
+export const createId = () => Math.random().toString(36).slice(2, 11);
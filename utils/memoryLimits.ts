@@ -0,0 +1,29 @@
+// Limits scaled to the device instead of fixed constants. Browsers expose memory only roughly:
+// Chromium reports the JS heap limit and a bucketed device memory, others report neither.
+
+const MB = 1024 * 1024;
+
+/** Assumed when the browser does not say, roughly a mid-range laptop. */
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+
+const MIN_FILE_SIZE = 50 * MB;
+const MAX_FILE_SIZE = 2048 * MB;
+
+const deviceMemoryGb = () => (typeof navigator !== 'undefined' && (navigator as Navigator & { deviceMemory?: number }).deviceMemory) || DEFAULT_DEVICE_MEMORY_GB;
+
+const heapLimit = () => (typeof performance !== 'undefined' && (performance as Performance & { memory?: { jsHeapSizeLimit: number } }).memory?.jsHeapSizeLimit) || null;
+
+/**
+ * The largest file accepted into the workspace. Viewing reads files in ranges, but editing loads a
+ * file into pdf-lib, which holds the input, the parsed objects and the saved output at once, so a
+ * file may take up to a quarter of the heap.
+ */
+export const maxFileSize = () => {
+  const budget = heapLimit() ?? deviceMemoryGb() * 1024 * MB / 8;
+  return Math.min(MAX_FILE_SIZE, Math.max(MIN_FILE_SIZE, Math.floor(budget / 4)));
+};
+
+/** Thumbnails kept as object URLs at once, about 30 KB each: 100 per GB of device memory. */
+export const thumbnailCacheSize = () => Math.min(800, Math.max(150, Math.round(deviceMemoryGb() * 100)));
+
+export const formatFileSize = (bytes: number) => bytes >= 1024 * MB ? `${(bytes / 1024 / MB).toFixed(1)}GB` : `${Math.round(bytes / MB)}MB`;
@@ -0,0 +1,61 @@
+import { OutlineItem } from '../types';
+import { createId } from './ids';
+
+// Immutable edits on a bookmark tree. Each helper finds the sibling list holding the item by id
+// and returns a new tree; the original is left untouched so React sees every change.
+
+export const createOutlineItem = (title: string, pageIndex: number | null): OutlineItem =>
+  ({ id: createId(), title, pageIndex, children: [] });
+
+/** Applies `edit` to the sibling list that contains `id`, wherever it sits in the tree. */
+const editSiblings = (items: OutlineItem[], id: string, edit: (siblings: OutlineItem[], index: number) => OutlineItem[]): OutlineItem[] => {
+  const index = items.findIndex(item => item.id === id);
+  if (index >= 0) return edit(items, index);
+  return items.map(item => {
+    const children = editSiblings(item.children, id, edit);
+    return children === item.children ? item : { ...item, children };
+  });
+};
+
+export const updateOutlineItem = (items: OutlineItem[], id: string, change: Partial<Omit<OutlineItem, 'id' | 'children'>>) =>
+  editSiblings(items, id, (siblings, i) => siblings.map((item, j) => (j === i ? { ...item, ...change } : item)));
+
+export const removeOutlineItem = (items: OutlineItem[], id: string) =>
+  editSiblings(items, id, (siblings, i) => siblings.filter((_, j) => j !== i));
+
+export const moveOutlineItem = (items: OutlineItem[], id: string, direction: 'up' | 'down') =>
+  editSiblings(items, id, (siblings, i) => {
+    const target = direction === 'up' ? i - 1 : i + 1;
+    if (target < 0 || target >= siblings.length) return siblings;
+    const next = [...siblings];
+    [next[i], next[target]] = [next[target], next[i]];
+    return next;
+  });
+
+export const addOutlineChild = (items: OutlineItem[], parentId: string, child: OutlineItem) =>
+  editSiblings(items, parentId, (siblings, i) => siblings.map((item, j) => (j === i ? { ...item, children: [...item.children, child] } : item)));
+
+/** Makes the item the last child of the sibling above it. */
+export const indentOutlineItem = (items: OutlineItem[], id: string) =>
+  editSiblings(items, id, (siblings, i) => {
+    if (i === 0) return siblings;
+    const next = siblings.filter((_, j) => j !== i);
+    next[i - 1] = { ...siblings[i - 1], children: [...siblings[i - 1].children, siblings[i]] };
+    return next;
+  });
+
+/** Moves the item out of its parent to sit directly after it. Top-level items stay where they are. */
+export const outdentOutlineItem = (items: OutlineItem[], id: string): OutlineItem[] => {
+  const parentIndex = items.findIndex(item => item.children.some(child => child.id === id));
+  if (parentIndex >= 0) {
+    const parent = items[parentIndex];
+    const moved = parent.children.find(child => child.id === id)!;
+    const next = [...items];
+    next.splice(parentIndex, 1, { ...parent, children: parent.children.filter(child => child.id !== id) }, moved);
+    return next;
+  }
+  return items.map(item => (item.children.length === 0 ? item : { ...item, children: outdentOutlineItem(item.children, id) }));
+};
+
+export const countOutlineItems = (items: OutlineItem[]): number =>
+  items.reduce((sum, item) => sum + 1 + countOutlineItems(item.children), 0);
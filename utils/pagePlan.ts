@@ -0,0 +1,67 @@
+import { createId } from './ids';
+
+/**
+ * One page in the page editor. `source` points at a page of a loaded file; null is an inserted blank page.
+ * `rotation` is the extra clockwise rotation applied on top of the page's own.
+ */
+export interface PageSlot {
+  key: string;
+  source: { fileId: string; pageIndex: number } | null;
+  rotation: number;
+}
+
+export type PagePlanEntry =
+  | { source: number; pageIndex: number; rotation: number }
+  | { source: null; rotation: number };
+
+export const createSlots = (fileId: string, pageCount: number): PageSlot[] =>
+  Array.from({ length: pageCount }, (_, pageIndex) => ({ key: createId(), source: { fileId, pageIndex }, rotation: 0 }));
+
+export const createSourceSlot = (fileId: string, pageIndex: number): PageSlot =>
+  ({ key: createId(), source: { fileId, pageIndex }, rotation: 0 });
+
+export const createBlankSlot = (): PageSlot => ({ key: createId(), source: null, rotation: 0 });
+
+export const moveSlot = (slots: PageSlot[], from: number, to: number): PageSlot[] => {
+  const next = [...slots];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const insertSlots = (slots: PageSlot[], at: number, inserted: PageSlot[]): PageSlot[] =>
+  [...slots.slice(0, at), ...inserted, ...slots.slice(at)];
+
+export const removeSlots = (slots: PageSlot[], keys: Set<string>): PageSlot[] =>
+  slots.filter(s => !keys.has(s.key));
+
+export const rotateSlots = (slots: PageSlot[], keys: Set<string>, delta: number): PageSlot[] =>
+  slots.map(s => keys.has(s.key) ? { ...s, rotation: (s.rotation + delta + 360) % 360 } : s);
+
+/**
+ * Places a copy of each listed slot directly after the original.
+ */
+export const duplicateSlots = (slots: PageSlot[], keys: Set<string>): PageSlot[] =>
+  slots.flatMap(s => keys.has(s.key) ? [s, { ...s, key: createId() }] : [s]);
+
+/**
+ * True when the slots still describe `fileId` exactly as loaded, i.e. there is nothing to commit.
+ */
+export const isUnchanged = (slots: PageSlot[], fileId: string, pageCount: number): boolean =>
+  slots.length === pageCount &&
+  slots.every((s, i) => s.source?.fileId === fileId && s.source.pageIndex === i && s.rotation === 0);
+
+/**
+ * Resolves slots into the serializable form the worker understands: source files become
+ * indices into `sourceFileIds`, which lists each referenced file once.
+ */
+export const toPagePlan = (slots: PageSlot[]): { sourceFileIds: string[]; plan: PagePlanEntry[] } => {
+  const sourceFileIds: string[] = [];
+  const plan = slots.map((s): PagePlanEntry => {
+    if (!s.source) return { source: null, rotation: s.rotation };
+    let source = sourceFileIds.indexOf(s.source.fileId);
+    if (source === -1) source = sourceFileIds.push(s.source.fileId) - 1;
+    return { source, pageIndex: s.source.pageIndex, rotation: s.rotation };
+  });
+  return { sourceFileIds, plan };
+};
@@ -0,0 +1,73 @@
+
+/**
+ * Parses a range expression such as "1, 3-5" into a sorted, de-duplicated list of 1-based page numbers.
+ */
+export const parsePageRanges = (input: string): number[] => {
+  const pages: number[] = [];
+  if (!input.trim()) return pages;
+  input.split(',').forEach(part => {
+    const range = part.trim().split('-');
+    if (range.length === 2) {
+      const start = parseInt(range[0]), end = parseInt(range[1]);
+      if (!isNaN(start) && !isNaN(end)) for (let i = Math.min(start, end); i <= Math.max(start, end); i++) pages.push(i);
+    } else {
+      const p = parseInt(part); if (!isNaN(p)) pages.push(p);
+    }
+  });
+  return Array.from(new Set(pages)).sort((a, b) => a - b);
+};
+
+export interface PageGroup {
+  /** Name given as `name: ranges`, or empty. */
+  name: string;
+  /** 1-based page numbers in output order; repeats are kept. */
+  pages: number[];
+}
+
+// A page is a number, `end`, or a negative number counting back from the end (-1 is the last page).
+// A range may run backwards (`end-1` reverses the document) and may be narrowed to odd or even pages.
+const SPLIT_ITEM = /^(?:(end|-?\d+)(?:\s*-\s*(end|-?\d+))?)?\s*(odd|even)?$/i;
+
+const GROUP_NAME = /^([^:,]+?)\s*:\s*(.*)$/s;
+
+/**
+ * Parses a split expression where each group becomes its own output: groups are separated by `|` or
+ * line breaks and may be named, e.g. `intro: 1-3 | 5, 7 | 8-end odd`. Pages are checked against
+ * `pageCount`; every problem is reported as a message instead of being silently dropped.
+ */
+export const parsePageGroups = (input: string, pageCount: number): { groups: PageGroup[]; errors: string[] } => {
+  const groups: PageGroup[] = [];
+  const errors: string[] = [];
+
+  const resolve = (ref: string, item: string): number | null => {
+    const page = ref.toLowerCase() === 'end' ? pageCount : parseInt(ref);
+    const absolute = page < 0 ? pageCount + page + 1 : page;
+    if (page === 0) errors.push(`"${item}": pages start at 1.`);
+    else if (absolute < 1 || absolute > pageCount) errors.push(`"${item}": page ${ref} is outside this document (${pageCount} pages).`);
+    else return absolute;
+    return null;
+  };
+
+  input.split(/[|\n]/).map(group => group.trim()).filter(Boolean).forEach(group => {
+    const named = group.match(GROUP_NAME);
+    const name = named ? named[1] : '';
+    const pages: number[] = [];
+    const before = errors.length;
+    (named ? named[2] : group).split(',').map(item => item.trim()).filter(Boolean).forEach(item => {
+      const match = item.match(SPLIT_ITEM);
+      if (!match || (!match[1] && !match[3])) { errors.push(`"${item}" is not a page range.`); return; }
+      const [, from, to, parity] = match;
+      const start = from ? resolve(from, item) : 1;
+      const end = to ? resolve(to, item) : from ? start : pageCount;
+      if (start === null || end === null) return;
+      const step = start <= end ? 1 : -1;
+      for (let page = start; page !== end + step; page += step) {
+        if (!parity || (page % 2 === 1) === (parity.toLowerCase() === 'odd')) pages.push(page);
+      }
+    });
+    if (errors.length > before) return;
+    if (pages.length === 0) errors.push(`"${group}" selects no pages.`);
+    else groups.push({ name, pages });
+  });
+  return { groups, errors };
+};
@@ -0,0 +1,42 @@
+import { RedactionBox, StructuredPage } from '../types';
+import { SearchHit } from './textSearch';
+import { createId } from './ids';
+
+export const REDACTION_PRESETS = [
+  { id: 'email', label: 'Emails', pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}' },
+  { id: 'phone', label: 'Phone Numbers', pattern: '\\+?\\d[\\d ().-]{7,}\\d' },
+  { id: 'id', label: 'ID Numbers', pattern: '\\b\\d{3}-\\d{2}-\\d{4}\\b|\\b[A-Z]{1,2}\\d{6,}\\b' },
+] as const;
+
+/**
+ * Turns search hits into redaction boxes, padded a little because the hit rectangles are
+ * estimated from glyph counts and the outline of a glyph can reach past its advance width.
+ */
+export const hitsToBoxes = (hits: SearchHit[], padding = 0.003): RedactionBox[] =>
+  hits.flatMap(hit => hit.rects.map(rect => ({
+    id: createId(),
+    pageIndex: hit.pageNumber - 1,
+    x: Math.max(0, rect.x - padding),
+    y: Math.max(0, rect.y - padding),
+    width: rect.width + padding * 2,
+    height: rect.height + padding * 2,
+  })));
+
+export const createRedactionBox = (pageIndex: number, x: number, y: number, width: number, height: number): RedactionBox =>
+  ({ id: createId(), pageIndex, x, y, width, height });
+
+/**
+ * Text that can still be extracted from inside a box. Anything returned here means the redaction leaked.
+ */
+export const findLeakedText = (pages: StructuredPage[], boxes: RedactionBox[]): string[] =>
+  boxes.flatMap(box => {
+    const page = pages[box.pageIndex];
+    if (!page) return [];
+    return page.items
+      .filter(item => {
+        const x = item.x / page.width, y = item.y / page.height;
+        const w = item.width / page.width, h = item.height / page.height;
+        return x < box.x + box.width && x + w > box.x && y < box.y + box.height && y + h > box.y;
+      })
+      .map(item => item.text);
+  });
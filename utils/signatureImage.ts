@@ -0,0 +1,123 @@
+import scriptFontUrl from '@fontsource/dancing-script/files/dancing-script-latin-400-normal.woff2?url';
+import { DateStampFormat } from '../types';
+import { isoDate } from './textTemplate';
+
+// Every way of creating a signature ends in the same form: a transparent PNG cropped to the ink,
+// which pdf-lib can embed directly.
+
+export interface SignatureImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export const SCRIPT_FONT_FAMILY = 'Signature Script';
+
+/** Longest side of an uploaded signature after scaling; plenty for print at signature size. */
+const MAX_UPLOAD_SIDE = 1200;
+
+/** Pixels lighter than this are treated as paper and made transparent. */
+const PAPER_THRESHOLD = 220;
+
+/** Darkness below the paper threshold at which ink becomes fully opaque. */
+const INK_RAMP = 120;
+
+const PADDING = 8;
+
+let scriptFont: Promise<FontFace> | null = null;
+
+/**
+ * Loads the bundled script font once, so typed signatures look the same on every machine.
+ */
+export const loadScriptFont = () => {
+  if (!scriptFont) {
+    const face = new FontFace(SCRIPT_FONT_FAMILY, `url(${scriptFontUrl})`);
+    scriptFont = face.load().then(loaded => {
+      document.fonts.add(loaded);
+      return loaded;
+    });
+    scriptFont.catch(() => { scriptFont = null; });
+  }
+  return scriptFont;
+};
+
+/**
+ * Crops to the non-transparent pixels plus a small margin. Returns null for an empty canvas.
+ */
+export const trimToInk = (canvas: HTMLCanvasElement): SignatureImage | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  if (right < 0) return null;
+  left = Math.max(0, left - PADDING);
+  top = Math.max(0, top - PADDING);
+  const cropWidth = Math.min(width, right + PADDING + 1) - left;
+  const cropHeight = Math.min(height, bottom + PADDING + 1) - top;
+  const out = document.createElement('canvas');
+  out.width = cropWidth;
+  out.height = cropHeight;
+  out.getContext('2d')!.drawImage(canvas, left, top, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+  return { dataUrl: out.toDataURL('image/png'), width: cropWidth, height: cropHeight };
+};
+
+export const renderTypedSignature = async (text: string, color: string): Promise<SignatureImage | null> => {
+  await loadScriptFont();
+  const fontSize = 120;
+  const font = `${fontSize}px "${SCRIPT_FONT_FAMILY}"`;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = font;
+  // Script glyphs overhang their advance width, so leave room on every side
+  canvas.width = Math.ceil(ctx.measureText(text).width + fontSize);
+  canvas.height = fontSize * 2;
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, fontSize / 2, fontSize);
+  return trimToInk(canvas);
+};
+
+/**
+ * Turns a photo or scan of a signature into ink on a transparent background: light pixels become
+ * transparent and darker ones keep their colour with an alpha that follows how dark they are.
+ */
+export const imageToSignature = async (file: File): Promise<SignatureImage | null> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_UPLOAD_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i + 3] = Math.round(data[i + 3] * Math.min(1, Math.max(0, (PAPER_THRESHOLD - luminance) / INK_RAMP)));
+  }
+  ctx.putImageData(image, 0, 0);
+  return trimToInk(canvas);
+};
+
+/**
+ * The date in the user's locale, always with Latin digits so the stamp font can draw the numbers;
+ * month names the font cannot encode are dropped when the stamp is drawn.
+ */
+export const formatStampDate = (format: DateStampFormat, date = new Date()): string => {
+  switch (format) {
+    case 'iso': return isoDate(date);
+    case 'long': return date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric', numberingSystem: 'latn' });
+    default: return date.toLocaleDateString(undefined, { numberingSystem: 'latn' });
+  }
+};
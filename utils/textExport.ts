@@ -0,0 +1,42 @@
+import { StructuredPage, TextBlock } from '../types';
+
+// Serialisers for structured extraction results. All of them are plain string builders so the
+// caller decides whether to download, copy or zip the output.
+
+export const tablesOf = (pages: StructuredPage[]) =>
+  pages.flatMap(page => page.blocks.flatMap(block => block.kind === 'table' ? [{ pageNumber: page.pageNumber, rows: block.rows }] : []));
+
+const blockToText = (block: TextBlock): string => {
+  if (block.kind === 'table') return block.rows.map(row => row.join('\t')).join('\n');
+  return block.text;
+};
+
+export const toPlainText = (pages: StructuredPage[]): string =>
+  pages.map(page => `--- PAGE ${page.pageNumber} ---\n${page.blocks.map(blockToText).join('\n\n')}\n\n`).join('');
+
+const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|');
+
+const blockToMarkdown = (block: TextBlock): string => {
+  if (block.kind === 'heading') return `${'#'.repeat(block.level)} ${block.text}`;
+  if (block.kind === 'paragraph') return block.text;
+  const [header, ...rows] = block.rows;
+  return [
+    `| ${header.map(escapeCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n');
+};
+
+export const toMarkdown = (pages: StructuredPage[]): string =>
+  pages.map(page => `<!-- page ${page.pageNumber} -->\n\n${page.blocks.map(blockToMarkdown).join('\n\n')}\n`).join('\n');
+
+/**
+ * Includes every text run with its coordinates (points, top-left origin) next to the detected blocks.
+ */
+export const toJson = (pages: StructuredPage[], source: string): string =>
+  JSON.stringify({ source, pages }, null, 2);
+
+const escapeCsv = (cell: string) => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const tableToCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
@@ -0,0 +1,153 @@
+import { PositionedText, StructuredPage, TextBlock } from '../types';
+
+// Rebuilds reading structure from positioned text runs. Everything is measured in multiples of the
+// font size so the same thresholds work for 8pt footnotes and 30pt titles.
+
+/** A horizontal gap wider than this splits a line into separate cells. */
+const CELL_GAP = 2;
+/** A vertical gap (baseline to baseline) wider than this starts a new paragraph. */
+const PARAGRAPH_GAP = 1.7;
+/** Lines this much larger than the body text are treated as headings. */
+const HEADING_RATIO = 1.15;
+
+interface Segment {
+  text: string;
+  x: number;
+}
+
+interface Line {
+  segments: Segment[];
+  baseline: number;
+  fontSize: number;
+}
+
+const lineText = (line: Line) => line.segments.map(s => s.text).join(' ');
+
+const groupLines = (items: PositionedText[]): Line[] => {
+  const sorted = items
+    .filter(item => item.text.trim())
+    .sort((a, b) => (a.y + a.height) - (b.y + b.height) || a.x - b.x);
+  const rows: PositionedText[][] = [];
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const last = row?.[row.length - 1];
+    if (last && Math.abs((item.y + item.height) - (last.y + last.height)) < Math.min(item.fontSize, last.fontSize) * 0.5) row.push(item);
+    else rows.push([item]);
+  }
+
+  return rows.map(row => {
+    row.sort((a, b) => a.x - b.x);
+    const segments: Segment[] = [];
+    let previous: PositionedText | null = null;
+    for (const item of row) {
+      const gap = previous ? item.x - (previous.x + previous.width) : Infinity;
+      const current = segments[segments.length - 1];
+      if (!current || gap > CELL_GAP * item.fontSize) {
+        segments.push({ text: item.text.trim(), x: item.x });
+      } else {
+        const needsSpace = gap > item.fontSize * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.text);
+        current.text += (needsSpace ? ' ' : '') + item.text;
+      }
+      previous = item;
+    }
+    segments.forEach(s => { s.text = s.text.replace(/\s+/g, ' ').trim(); });
+    return {
+      segments: segments.filter(s => s.text),
+      baseline: Math.max(...row.map(i => i.y + i.height)),
+      fontSize: Math.max(...row.map(i => i.fontSize)),
+    };
+  });
+};
+
+/**
+ * The most common font size by character count, i.e. the running text.
+ */
+const bodyFontSize = (lines: Line[]): number => {
+  const weights = new Map<number, number>();
+  lines.forEach(line => {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + lineText(line).length);
+  });
+  let body = 0, best = -1;
+  weights.forEach((weight, size) => { if (weight > best) { best = weight; body = size; } });
+  return body;
+};
+
+const joinLines = (a: string, b: string) =>
+  /[A-Za-z]-$/.test(a) && /^[a-z]/.test(b) ? a.slice(0, -1) + b : `${a} ${b}`;
+
+/**
+ * Snaps each row's cells onto shared column positions so rows with empty cells still line up.
+ */
+const toTableRows = (lines: Line[]): string[][] => {
+  const columns: number[] = [];
+  const tolerance = Math.min(...lines.map(l => l.fontSize));
+  lines.flatMap(l => l.segments).map(s => s.x).sort((a, b) => a - b).forEach(x => {
+    if (columns.length === 0 || x - columns[columns.length - 1] > tolerance) columns.push(x);
+  });
+  return lines.map(line => {
+    const cells = columns.map(() => '');
+    line.segments.forEach(segment => {
+      let nearest = 0;
+      columns.forEach((x, i) => { if (Math.abs(x - segment.x) < Math.abs(columns[nearest] - segment.x)) nearest = i; });
+      cells[nearest] = cells[nearest] ? `${cells[nearest]} ${segment.text}` : segment.text;
+    });
+    return cells;
+  });
+};
+
+const buildBlocks = (lines: Line[], body: number): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.segments.length >= 2) {
+      let end = i + 1;
+      while (
+        end < lines.length &&
+        lines[end].segments.length >= 2 &&
+        lines[end].baseline - lines[end - 1].baseline <= lines[end].fontSize * PARAGRAPH_GAP * 1.5
+      ) end++;
+      // A single multi-cell line is more likely a justified sentence than a table
+      if (end - i >= 2) {
+        blocks.push({ kind: 'table', rows: toTableRows(lines.slice(i, end)) });
+        i = end;
+        continue;
+      }
+    }
+
+    const isHeading = body > 0 && line.fontSize >= body * HEADING_RATIO;
+    let text = lineText(line);
+    let end = i + 1;
+    while (end < lines.length) {
+      const next = lines[end];
+      const sameStyle = Math.abs(next.fontSize - line.fontSize) < line.fontSize * 0.1;
+      const close = next.baseline - lines[end - 1].baseline <= Math.max(next.fontSize, line.fontSize) * PARAGRAPH_GAP;
+      if (!sameStyle || !close || next.segments.length >= 2) break;
+      text = joinLines(text, lineText(next));
+      end++;
+    }
+
+    if (isHeading) {
+      const ratio = line.fontSize / body;
+      blocks.push({ kind: 'heading', level: ratio >= 1.8 ? 1 : ratio >= 1.4 ? 2 : 3, text });
+    } else {
+      blocks.push({ kind: 'paragraph', text });
+    }
+    i = end;
+  }
+  return blocks;
+};
+
+/**
+ * Groups each page's text runs into headings, paragraphs and tables. Heading sizes are judged
+ * against the body text of the whole document, not of each page.
+ */
+export const analyzeLayout = (
+  pages: { pageNumber: number; width: number; height: number; items: PositionedText[] }[]
+): StructuredPage[] => {
+  const lines = pages.map(page => groupLines(page.items));
+  const body = bodyFontSize(lines.flat());
+  return pages.map((page, i) => ({ ...page, blocks: buildBlocks(lines[i], body) }));
+};
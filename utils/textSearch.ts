@@ -0,0 +1,107 @@
+import { PositionedText, StructuredPage } from '../types';
+
+export interface SearchOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+/**
+ * A highlight box as fractions of the page, top-left origin, ready to overlay on a thumbnail.
+ */
+export interface HighlightRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SearchHit {
+  fileId: string;
+  pageNumber: number;
+  before: string;
+  match: string;
+  after: string;
+  rects: HighlightRect[];
+}
+
+/**
+ * A page's text runs joined into one searchable string, remembering where each run starts
+ * so a match can be mapped back to its position on the page.
+ */
+export interface IndexedPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  text: string;
+  spans: { start: number; end: number; item: PositionedText }[];
+}
+
+const MAX_HITS = 500;
+const SNIPPET_CONTEXT = 40;
+
+export const indexPages = (pages: StructuredPage[]): IndexedPage[] =>
+  pages.map(page => {
+    let text = '';
+    const spans: IndexedPage['spans'] = [];
+    page.items.forEach(item => {
+      if (text) text += ' ';
+      spans.push({ start: text.length, end: text.length + item.text.length, item });
+      text += item.text;
+    });
+    return { pageNumber: page.pageNumber, width: page.width, height: page.height, text, spans };
+  });
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Throws a SyntaxError when `regex` is set and the query is not a valid expression.
+ */
+export const buildSearchPattern = (query: string, options: SearchOptions): RegExp => {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, options.matchCase ? 'g' : 'gi');
+};
+
+// Runs are treated as evenly spaced glyphs, which is close enough to frame the matched characters
+const rectsFor = (page: IndexedPage, start: number, end: number): HighlightRect[] =>
+  page.spans
+    .filter(span => span.start < end && span.end > start)
+    .map(({ start: spanStart, end: spanEnd, item }) => {
+      const length = Math.max(1, spanEnd - spanStart);
+      const from = Math.max(start, spanStart) - spanStart;
+      const to = Math.min(end, spanEnd) - spanStart;
+      return {
+        x: (item.x + (item.width * from) / length) / page.width,
+        y: item.y / page.height,
+        width: (item.width * (to - from)) / length / page.width,
+        height: item.height / page.height,
+      };
+    });
+
+export const searchIndex = (index: Record<string, IndexedPage[]>, pattern: RegExp): SearchHit[] => {
+  const hits: SearchHit[] = [];
+  for (const [fileId, pages] of Object.entries(index)) {
+    for (const page of pages) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(page.text)) && hits.length < MAX_HITS) {
+        // Zero-length matches (e.g. /x*/) would never advance
+        if (!match[0]) { pattern.lastIndex++; continue; }
+        const start = match.index;
+        const end = start + match[0].length;
+        hits.push({
+          fileId,
+          pageNumber: page.pageNumber,
+          before: page.text.slice(Math.max(0, start - SNIPPET_CONTEXT), start),
+          match: match[0],
+          after: page.text.slice(end, end + SNIPPET_CONTEXT),
+          rects: rectsFor(page, start, end),
+        });
+      }
+    }
+  }
+  return hits;
+};
+
+export const isHitLimitReached = (hits: SearchHit[]) => hits.length >= MAX_HITS;
@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { expandTemplate } from './textTemplate';
+
+describe('expandTemplate', () => {
+  it('fills known placeholders and leaves unknown ones as typed', () => {
+    expect(expandTemplate('{filename} - {page} of {total} {nope}', { filename: 'a.pdf', page: 2, total: 5 })).toBe('a.pdf - 2 of 5 {nope}');
+  });
+
+  it('still expands {pages} from templates saved before it was renamed to {total}', () => {
+    expect(expandTemplate('Page {page} of {pages}', { page: 1, total: 3 })).toBe('Page 1 of 3');
+  });
+});
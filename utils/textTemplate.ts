@@ -0,0 +1,53 @@
+import type { PDFFont } from 'pdf-lib';
+import { BatesConfig, PageNumberStyle } from '../types';
+
+/**
+ * Stamped text may contain placeholders such as "{filename}" or "{page}". Names without a value
+ * are left as typed so a typo stays visible in the output instead of silently disappearing.
+ */
+export type TemplateValues = Record<string, string | number>;
+
+export const WATERMARK_VARIABLES = ['filename', 'date', 'page', 'total', 'user'] as const;
+
+export const HEADER_FOOTER_VARIABLES = ['page', 'total', 'filename', 'date', 'bates'] as const;
+
+/** Earlier names kept working so saved watermark templates and pipelines still expand: {pages} became {total}. */
+const TEMPLATE_ALIASES = new Map([['pages', 'total']]);
+
+export const expandTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const key = name in values ? name : TEMPLATE_ALIASES.get(name);
+    return key !== undefined && key in values ? String(values[key]) : match;
+  });
+
+/** Local calendar date as YYYY-MM-DD. */
+export const isoDate = (date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+/** Numbers outside 1–3999 have no roman form and stay arabic. */
+export const formatPageNumber = (n: number, style: PageNumberStyle): string => {
+  if (style === 'arabic' || n < 1 || n > 3999) return String(n);
+  let rest = n;
+  let roman = '';
+  for (const [value, numeral] of ROMAN_NUMERALS) {
+    while (rest >= value) {
+      roman += numeral;
+      rest -= value;
+    }
+  }
+  return style === 'roman-upper' ? roman.toUpperCase() : roman;
+};
+
+export const formatBatesNumber = (bates: BatesConfig, n: number): string =>
+  `${bates.prefix}${String(n).padStart(bates.digits, '0')}${bates.suffix}`;
+
+/** Drops the characters a font cannot encode, so one of them does not fail the whole document. */
+export const drawableTextFilter = (font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet());
+  return (text: string) => Array.from(text).filter(ch => supported.has(ch.codePointAt(0)!)).join('');
+};
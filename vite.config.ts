@@ -9,5 +9,14 @@ export default defineConfig({
   },
   build: {
     target: 'esnext',
+    rollupOptions: {
+      output: {
+        // Tesseract looks language data up by file name, so it must not be hashed
+        assetFileNames: (asset) =>
+          asset.names.some(name => name.endsWith('.traineddata.gz'))
+            ? 'assets/tessdata/[name][extname]'
+            : 'assets/[name]-[hash][extname]',
+      },
+    },
   }
 });
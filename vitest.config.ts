@@ -0,0 +1,12 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default mergeConfig(viteConfig, defineConfig({
+  resolve: {
+    // The browser build of pdf.js needs DOM APIs that Node lacks
+    alias: [{ find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }],
+  },
+  test: {
+    setupFiles: ['./vitest.setup.ts'],
+  },
+}));
@@ -0,0 +1,7 @@
+// pdf.js points its worker at a CDN. Under Node it falls back to running the worker code on the
+// same thread, and picks that code up from globalThis.pdfjsWorker when it is already loaded.
+const workerModule = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = await import(/* @vite-ignore */ workerModule);
+
+export {};